@@ -0,0 +1,80 @@
+/**
+ * Check that seeded outfit generation is reproducible: the same wardrobe, seed and
+ * clock give the same outfits, and a different seed can give different ones (no network
+ * or database). Usage: npx tsx scripts/checkOutfitSeed.ts [seed ...]
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { buildOutfits, type WardrobeItem } from "../src/services/outfitBuilder.js";
+import { createRandom, searchOutfitCombinations } from "../src/services/outfitSearch.js";
+import type { WeatherData } from "../src/services/weather.js";
+
+const WARDROBE_FILE = path.join(import.meta.dirname, "fixtures", "wardrobe.json");
+
+// A cool, showery day so layers and accessories are in play
+const WEATHER: WeatherData = {
+  temperature: 12,
+  feels_like: 10,
+  humidity: 70,
+  condition: "clouds",
+  description: "overcast clouds",
+  wind_speed: 4,
+  is_rainy: false,
+  is_snowy: false,
+  season_suggestion: "fall",
+  temp_min: 8,
+  temp_max: 14,
+  temp_swing: 6,
+  precipitation_probability: 0.6,
+};
+
+// Fixed clock so wear cooldowns (last_worn_at) don't depend on the day the check runs
+const NOW = Date.parse("2026-03-01T12:00:00Z");
+
+const wardrobe: WardrobeItem[] = JSON.parse(fs.readFileSync(WARDROBE_FILE, "utf8"));
+const seeds = process.argv.slice(2).length > 0 ? process.argv.slice(2).map(Number) : [1, 42, 20260101];
+
+let failures = 0;
+function check(label: string, ok: boolean): void {
+  console.log(`${ok ? "ok  " : "FAIL"} ${label}`);
+  if (!ok) failures++;
+}
+
+function generate(seed?: number): string[][] {
+  return buildOutfits(wardrobe, { weather: WEATHER, tasteVector: null, count: 3, seed, now: NOW }).map(
+    (outfit) => outfit.item_ids
+  );
+}
+
+// The random source itself: same seed, same sequence
+const sequence = (seed: number) => Array.from({ length: 5 }, createRandom(seed));
+check("createRandom repeats its sequence for a seed", JSON.stringify(sequence(7)) === JSON.stringify(sequence(7)));
+check("createRandom differs across seeds", JSON.stringify(sequence(7)) !== JSON.stringify(sequence(8)));
+
+// The beam search is deterministic on its own (the seed only drives the picks after it)
+const slots = ["tops", "bottoms", "shoes"].map((category) =>
+  wardrobe
+    .filter((item) => item.category === category || item.subcategory === category)
+    .map((item, i) => ({ ...item, score: 1 - i * 0.1 }))
+);
+const search = () => searchOutfitCombinations(slots).map((combo) => combo.items.map((item) => item.id));
+check("searchOutfitCombinations ranks combinations the same way every run", JSON.stringify(search()) === JSON.stringify(search()));
+
+// Seed round-trip through the whole generator
+const outfitsBySeed = new Map<number, string>();
+for (const seed of seeds) {
+  const first = generate(seed);
+  const second = generate(seed);
+  outfitsBySeed.set(seed, JSON.stringify(first));
+
+  console.log(`\nseed ${seed}:`);
+  for (const itemIds of first) console.log(`  ${itemIds.join(", ")}`);
+  check(`seed ${seed} gives the same ${first.length} outfit(s) twice`, first.length > 0 && JSON.stringify(first) === JSON.stringify(second));
+}
+
+if (new Set(outfitsBySeed.values()).size === 1 && seeds.length > 1) {
+  console.log("\nnote: every seed picked the same outfits (small wardrobe leaves little to choose from)");
+}
+
+process.exitCode = failures > 0 ? 1 : 0;
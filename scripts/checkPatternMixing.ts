@@ -0,0 +1,65 @@
+/**
+ * Check pattern and texture scoring on items tagged the way the tagging pipeline
+ * stores them (colors.secondary and colors.accent are arrays, often empty).
+ * Usage: npx tsx scripts/checkPatternMixing.ts
+ */
+
+import { analyzePatternMix, analyzeTextureContrast, type PatternMixItem } from "../src/services/patternMixing.js";
+
+let failures = 0;
+function check(label: string, run: () => boolean): void {
+  let ok = false;
+  try {
+    ok = run();
+  } catch (err) {
+    console.log(`     ${err instanceof Error ? err.message : err}`);
+  }
+  console.log(`${ok ? "ok  " : "FAIL"} ${label}`);
+  if (!ok) failures++;
+}
+
+const stripedShirt: PatternMixItem = {
+  category: "tops",
+  subcategory: "shirt",
+  pattern: "striped",
+  materials: ["cotton"],
+  colors: { primary: "navy", secondary: ["white"], accent: [] },
+};
+const floralSkirt: PatternMixItem = {
+  category: "bottoms",
+  subcategory: "skirt",
+  pattern: "floral",
+  materials: ["viscose"],
+  colors: { primary: "green", secondary: [], accent: [] },
+};
+
+check("two patterned items with empty accents score without throwing", () => {
+  const mix = analyzePatternMix([stripedShirt, floralSkirt]);
+  return mix.score >= 0 && mix.score <= 1 && mix.notes.some((note) => note.includes("share no color"));
+});
+
+check("a shared accent color ties two patterns together", () => {
+  const skirt = { ...floralSkirt, colors: { primary: "green", secondary: [], accent: ["Navy"] } };
+  return analyzePatternMix([stripedShirt, skirt]).notes.some((note) => note.includes("tied together by navy"));
+});
+
+check("missing colors are treated as no colors", () => {
+  const skirt = { ...floralSkirt, colors: null };
+  return analyzePatternMix([stripedShirt, skirt]).score < 1;
+});
+
+check("texture contrast reads tag-shaped colors for denim washes", () => {
+  const jacket: PatternMixItem = {
+    category: "outerwear",
+    materials: ["denim"],
+    colors: { primary: "light blue", secondary: [], accent: [] },
+  };
+  const jeans: PatternMixItem = {
+    category: "bottoms",
+    materials: ["denim"],
+    colors: { primary: "indigo", secondary: [], accent: ["brown"] },
+  };
+  return analyzeTextureContrast([jacket, jeans]).notes.some((note) => note.includes("contrasting washes"));
+});
+
+process.exitCode = failures > 0 ? 1 : 0;
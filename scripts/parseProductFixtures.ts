@@ -0,0 +1,29 @@
+/**
+ * Run the product import parser over the saved pages in scripts/fixtures/product-pages
+ * (no network). Usage: npx tsx scripts/parseProductFixtures.ts [file.html ...]
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { parseProductHtml } from "../src/services/productImport.js";
+
+const FIXTURES_DIR = path.join(import.meta.dirname, "fixtures", "product-pages");
+
+// Fixture pages were saved from these URLs (used to resolve relative links)
+const PAGE_URLS: Record<string, string> = {
+  "jsonld-product.html": "https://www.northbound.example/products/oxford-shirt",
+};
+
+const files = process.argv.slice(2).length > 0
+  ? process.argv.slice(2)
+  : fs.readdirSync(FIXTURES_DIR).filter((file) => file.endsWith(".html")).map((file) => path.join(FIXTURES_DIR, file));
+
+for (const file of files) {
+  const html = fs.readFileSync(file, "utf8");
+  const products = parseProductHtml(html, PAGE_URLS[path.basename(file)]);
+
+  console.log(`\n${path.basename(file)}: ${products.length} product(s)`);
+  for (const product of products) {
+    console.log(JSON.stringify(product, null, 2));
+  }
+}
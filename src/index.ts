@@ -32,11 +32,20 @@ import referralsRoutes from "./routes/referrals.js";
 import debugRoutes from "./routes/debug.js";
 import publicRoutes from "./routes/public.js";
 import consentRoutes from "./routes/consent.js";
+import tripsRoutes from "./routes/trips.js";
+import analyticsRoutes from "./routes/analytics.js";
 import { preGenerateOutfits } from "./jobs/preGenerate.js";
 import { sendMorningNotifications } from "./jobs/sendMorningNotifications.js";
 import { dailyGamificationReset } from "./jobs/dailyGamificationReset.js";
 import { deliverOutfits } from "./jobs/deliverOutfits.js";
 import { sendStreakAtRiskNotifications } from "./jobs/streakAtRisk.js";
+import { getWeatherCacheStats } from "./services/weather.js";
+import { getProcessingQueueStats, startProcessingWorker } from "./services/processingQueue.js";
+import {
+  bulkReprocessStaleItems,
+  parseReprocessTarget,
+  REPROCESS_TARGETS,
+} from "./services/itemReprocessing.js";
 import { sendEveningConfirmations } from "./jobs/eveningConfirmation.js";
 import { supabaseAdmin } from "./services/supabase.js";
 import { sendPushNotification, isAPNsConfigured } from "./services/apns.js";
@@ -240,7 +249,12 @@ app.get("/", (c) => {
 });
 
 app.get("/health", (c) => {
-  return c.json({ status: "healthy", timestamp: new Date().toISOString() });
+  return c.json({
+    status: "healthy",
+    timestamp: new Date().toISOString(),
+    weather_cache: getWeatherCacheStats(),
+    item_processing: getProcessingQueueStats(),
+  });
 });
 
 // Webhook routes (no auth)
@@ -476,6 +490,46 @@ app.get("/cron/reset-credits", async (c) => {
   }
 });
 
+// Admin: bulk reprocess items tagged before a prompt version (CRON_SECRET auth)
+// Body: { before_prompt_version?, include_fallback?, stages?, limit?, dry_run? }
+app.post("/admin/items/reprocess", async (c) => {
+  const authHeader = c.req.header("authorization");
+  if (authHeader !== `Bearer ${CRON_SECRET}`) {
+    return c.json({ error: "Unauthorized" }, 401);
+  }
+
+  const body = await c.req.json().catch(() => ({}));
+  const target = parseReprocessTarget(body.stages ?? "tags");
+  if (!target) {
+    return c.json({ error: `stages must be one of: ${Object.keys(REPROCESS_TARGETS).join(", ")}` }, 400);
+  }
+  if (body.before_prompt_version !== undefined && !Number.isInteger(body.before_prompt_version)) {
+    return c.json({ error: "before_prompt_version must be an integer" }, 400);
+  }
+  if (body.limit !== undefined && (!Number.isInteger(body.limit) || body.limit < 1)) {
+    return c.json({ error: "limit must be a positive integer" }, 400);
+  }
+
+  console.log("[Admin] Starting bulk item reprocess via HTTP trigger");
+
+  try {
+    const result = await bulkReprocessStaleItems({
+      beforePromptVersion: body.before_prompt_version,
+      includeFallback: body.include_fallback === true,
+      target,
+      limit: body.limit,
+      dryRun: body.dry_run === true,
+    });
+    return c.json({ success: true, ...result });
+  } catch (error) {
+    console.error("[Admin] Bulk reprocess failed:", error);
+    return c.json(
+      { success: false, error: error instanceof Error ? error.message : "Unknown error" },
+      500
+    );
+  }
+});
+
 // Test push notification endpoint (for debugging)
 app.post("/api/test/push", async (c) => {
   // Require auth - only allow authenticated users to test their own notifications
@@ -573,6 +627,8 @@ api.route("/users", usersRoutes);
 api.route("/referrals", referralsRoutes);
 api.route("/debug", debugRoutes);
 api.route("/user/consent", consentRoutes);
+api.route("/trips", tripsRoutes);
+api.route("/analytics", analyticsRoutes);
 
 app.route("/api", api);
 
@@ -616,3 +672,8 @@ console.log(`Styleum API running at http://localhost:${port}`);
 
 // Initialize internal cron jobs
 initializeCronJobs();
+
+// Start the item processing worker (re-queues items orphaned by a previous crash or deploy)
+startProcessingWorker().catch((err) => {
+  console.error("[Queue] Failed to start item processing worker:", err);
+});
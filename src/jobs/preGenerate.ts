@@ -7,6 +7,9 @@
 
 import { supabaseAdmin } from "../services/supabase.js";
 import { generateOutfits, saveGeneratedOutfit } from "../services/outfitGenerator.js";
+import { getWardrobeCoverage } from "../services/outfitBuilder.js";
+import { hasLockedOutfit } from "../services/outfitPlanner.js";
+import { getForecastByCoords, getForecastByCity, type WeatherData } from "../services/weather.js";
 
 interface PreGenerateResult {
   success: boolean;
@@ -151,30 +154,20 @@ async function filterEligibleUsers(users: ActiveUser[]): Promise<ActiveUser[]> {
   for (const user of users) {
     const { data: itemCounts } = await supabaseAdmin
       .from("wardrobe_items")
-      .select("category")
+      .select("category, subcategory")
       .eq("user_id", user.id)
       .eq("is_archived", false)
       .eq("processing_status", "completed");
 
     if (!itemCounts) continue;
 
-    // Count items by category type
-    const categories = itemCounts.map((item) => (item.category || "").toLowerCase());
-    const hasTop = categories.some((c) =>
-      ["top", "tops", "t-shirt", "shirt", "blouse", "sweater", "hoodie"].includes(c)
-    );
-    const hasBottom = categories.some((c) =>
-      ["bottom", "bottoms", "pants", "jeans", "shorts", "skirt", "trousers"].includes(c)
-    );
-    const hasShoes = categories.some((c) =>
-      ["shoes", "footwear", "sneakers", "boots", "sandals", "loafers"].includes(c)
-    );
-
-    if (hasTop && hasBottom && hasShoes) {
+    // A one-piece (dress, jumpsuit) stands in for top + bottom
+    const coverage = getWardrobeCoverage(itemCounts);
+    if (coverage.canGenerate) {
       eligibleUsers.push(user);
     } else {
       console.log(
-        `[PreGen] Skipping user ${user.id} - insufficient items (top:${hasTop}, bottom:${hasBottom}, shoes:${hasShoes})`
+        `[PreGen] Skipping user ${user.id} - insufficient items (top:${coverage.top}, bottom:${coverage.bottom}, onepiece:${coverage.onepiece}, shoes:${coverage.footwear})`
       );
     }
   }
@@ -204,14 +197,31 @@ async function processUser(user: ActiveUser): Promise<ProcessUserResult> {
     // Step 1: Clear OLD pre-generated outfits (from past target_dates)
     await clearOldPreGeneratedOutfits(userId);
 
+    // A locked planned outfit for tomorrow wins - don't overwrite the user's plan
+    if (await hasLockedOutfit(userId, targetDate)) {
+      console.log(`[PreGen] User ${userId} has a locked plan for ${targetDate}, skipping`);
+      return { success: true, userId, outfitCount: 0 };
+    }
+
     // Step 2: Clear tomorrow's pre-generated (in case of re-run)
     await clearTomorrowsPreGeneratedOutfits(userId, targetDate);
 
-    // Step 3: Generate new outfits
+    // Step 3: Generate new outfits, styled on tomorrow's forecast rather than tonight's weather
+    let forecast: WeatherData | null = null;
+    if (user.location_lat != null && user.location_lng != null) {
+      forecast = await getForecastByCoords(user.location_lat, user.location_lng, targetDate);
+    } else if (user.location_city) {
+      forecast = await getForecastByCity(user.location_city, targetDate);
+    }
+    if (!forecast) {
+      console.log(`[PreGen] No forecast for ${targetDate}, falling back to current weather`);
+    }
+
     const { outfits, weather } = await generateOutfits({
       userId,
       lat: user.location_lat ?? undefined,
       lon: user.location_lng ?? undefined,
+      weather: forecast ?? undefined,
       count: OUTFITS_PER_USER,
     });
 
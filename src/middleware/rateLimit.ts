@@ -76,6 +76,16 @@ export const itemUploadLimit = createRateLimiter({
   },
 });
 
+// 10 trips per hour: each one generates an outfit for every day and activity
+export const tripCreateLimit = createRateLimiter({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 10,
+  keyGenerator: (c) => {
+    const userId = c.get("userId") as string | undefined;
+    return userId ? `trip-create:${userId}` : `trip-create:${c.req.header("x-forwarded-for") ?? "anonymous"}`;
+  },
+});
+
 // ============================================================================
 // MONTHLY STYLE ME LIMITS (Database-based)
 // ============================================================================
@@ -0,0 +1,29 @@
+import type { Context, Next } from "hono";
+import { isUserPro } from "../services/supabase.js";
+import { tierHasFeature, type TierLimits, type TierName } from "../constants/tiers.js";
+import { getUserId } from "./auth.js";
+
+/**
+ * Require the user's tier to include a feature flag from TIER_LIMITS.
+ * Responds 403 with the same upgrade payload as other Pro-only routes.
+ */
+export function requireTierFeature(feature: keyof TierLimits, message: string) {
+  return async (c: Context, next: Next) => {
+    const isPro = await isUserPro(getUserId(c));
+    const tier: TierName = isPro ? "pro" : "free";
+
+    if (!tierHasFeature(tier, feature)) {
+      return c.json(
+        {
+          error: "Pro subscription required",
+          code: "E003",
+          message,
+          upgradeUrl: "/pro",
+        },
+        403
+      );
+    }
+
+    await next();
+  };
+}
@@ -26,6 +26,7 @@ account.delete("/", async (c) => {
     "generated_outfits",
     "user_taste_vectors",
     "wardrobe_items",
+    "wardrobe_item_tombstones",
     "user_gamification",
     "user_subscriptions",
     "user_profiles",
@@ -41,8 +42,8 @@ account.delete("/", async (c) => {
     }
   }
 
-  // 2. Delete storage files from both buckets
-  for (const bucket of ["wardrobe-items", "outfit-verifications"]) {
+  // 2. Delete storage files from every bucket
+  for (const bucket of ["wardrobe", "wardrobe-items", "outfit-verifications"]) {
     try {
       const { data: files } = await supabaseAdmin.storage
         .from(bucket)
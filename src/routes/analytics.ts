@@ -0,0 +1,161 @@
+import { Hono } from "hono";
+import { supabaseAdmin } from "../services/supabase.js";
+import { getUserId } from "../middleware/auth.js";
+import { requireTierFeature } from "../middleware/tierFeature.js";
+import { calculateWardrobeValue } from "../services/wardrobeValue.js";
+import {
+  ANALYTICS_WINDOWS,
+  calculateTasteDrift,
+  calculateUtilization,
+  calculateVersatility,
+  calculateWearFrequency,
+  calculateWeatherChoices,
+  loadAnalyticsData,
+  loadTasteSnapshots,
+  parseAnalyticsWindow,
+} from "../services/wardrobeAnalytics.js";
+
+type Variables = {
+  userId: string;
+  email: string;
+};
+
+const analytics = new Hono<{ Variables: Variables }>();
+
+// Every analytics route is a Pro feature
+analytics.use(
+  "*",
+  requireTierFeature("hasAnalytics", "Analytics is a Pro feature. Upgrade to see how you wear your wardrobe.")
+);
+
+const INVALID_WINDOW = `window must be one of: ${Object.keys(ANALYTICS_WINDOWS).join(", ")}`;
+
+// GET / - Full dashboard for the selected window (?window=7d|30d|90d|365d|all)
+analytics.get("/", async (c) => {
+  const userId = getUserId(c);
+  const window = parseAnalyticsWindow(c.req.query("window"));
+  if (!window) {
+    return c.json({ error: INVALID_WINDOW }, 400);
+  }
+
+  try {
+    const [data, snapshots] = await Promise.all([
+      loadAnalyticsData(userId, window),
+      loadTasteSnapshots(userId),
+    ]);
+
+    return c.json({
+      window,
+      wear_frequency: calculateWearFrequency(data, window),
+      utilization: calculateUtilization(data),
+      versatility: calculateVersatility(data, window),
+      taste_drift: calculateTasteDrift(snapshots, data),
+      weather: calculateWeatherChoices(data, window),
+    });
+  } catch (err) {
+    console.error("[Analytics] Failed to build dashboard:", err);
+    return c.json({ error: "Failed to load analytics" }, 500);
+  }
+});
+
+// GET /wear-frequency - Wears by item, category, color and vibe
+analytics.get("/wear-frequency", async (c) => {
+  const userId = getUserId(c);
+  const window = parseAnalyticsWindow(c.req.query("window"));
+  if (!window) {
+    return c.json({ error: INVALID_WINDOW }, 400);
+  }
+
+  try {
+    const data = await loadAnalyticsData(userId, window);
+    return c.json(calculateWearFrequency(data, window));
+  } catch (err) {
+    console.error("[Analytics] Failed to load wear frequency:", err);
+    return c.json({ error: "Failed to load analytics" }, 500);
+  }
+});
+
+// GET /utilization - Percentage of the wardrobe worn in the last 30/90 days
+analytics.get("/utilization", async (c) => {
+  const userId = getUserId(c);
+
+  try {
+    const data = await loadAnalyticsData(userId, "90d");
+    return c.json(calculateUtilization(data));
+  } catch (err) {
+    console.error("[Analytics] Failed to load utilization:", err);
+    return c.json({ error: "Failed to load analytics" }, 500);
+  }
+});
+
+// GET /versatility - Most and least versatile items by distinct outfits
+analytics.get("/versatility", async (c) => {
+  const userId = getUserId(c);
+  const window = parseAnalyticsWindow(c.req.query("window"));
+  if (!window) {
+    return c.json({ error: INVALID_WINDOW }, 400);
+  }
+
+  try {
+    const data = await loadAnalyticsData(userId, window);
+    return c.json({ window, ...calculateVersatility(data, window) });
+  } catch (err) {
+    console.error("[Analytics] Failed to load versatility:", err);
+    return c.json({ error: "Failed to load analytics" }, 500);
+  }
+});
+
+// GET /taste-drift - How the taste vector has moved over time
+analytics.get("/taste-drift", async (c) => {
+  const userId = getUserId(c);
+
+  try {
+    const [data, snapshots] = await Promise.all([
+      loadAnalyticsData(userId, "365d"),
+      loadTasteSnapshots(userId),
+    ]);
+    return c.json(calculateTasteDrift(snapshots, data));
+  } catch (err) {
+    console.error("[Analytics] Failed to load taste drift:", err);
+    return c.json({ error: "Failed to load analytics" }, 500);
+  }
+});
+
+// GET /weather - Suggested vs worn outfits by temperature band
+analytics.get("/weather", async (c) => {
+  const userId = getUserId(c);
+  const window = parseAnalyticsWindow(c.req.query("window"));
+  if (!window) {
+    return c.json({ error: INVALID_WINDOW }, 400);
+  }
+
+  try {
+    const data = await loadAnalyticsData(userId, window);
+    return c.json({ window, bands: calculateWeatherChoices(data, window) });
+  } catch (err) {
+    console.error("[Analytics] Failed to load weather breakdown:", err);
+    return c.json({ error: "Failed to load analytics" }, 500);
+  }
+});
+
+// GET /value - Cost per wear, total wardrobe value, value by category and depreciation
+analytics.get("/value", async (c) => {
+  const userId = getUserId(c);
+
+  const { data, error } = await supabaseAdmin
+    .from("wardrobe_items")
+    .select(
+      "id, item_name, category, processed_image_url, times_worn, purchase_price, currency, purchase_date, created_at"
+    )
+    .eq("user_id", userId)
+    .eq("is_archived", false)
+    .eq("processing_status", "completed");
+
+  if (error) {
+    return c.json({ error: "Failed to fetch wardrobe" }, 500);
+  }
+
+  return c.json(calculateWardrobeValue(data || []));
+});
+
+export default analytics;
@@ -1,21 +1,64 @@
-import { Hono } from "hono";
+import { randomUUID } from "node:crypto";
+import { Hono, type Context } from "hono";
 import { supabaseAdmin } from "../services/supabase.js";
 import { checkItemLimit, FREE_ITEM_LIMIT } from "../utils/limits.js";
 import { getUserId } from "../middleware/auth.js";
 import { itemUploadLimit } from "../middleware/rateLimit.js";
-import {
-  removeBackground,
-  generateEmbedding,
-  analyzeWithFlorence,
-  tagWithGemini,
-} from "../services/ai/index.js";
 import {
   GamificationService,
   XP_AMOUNTS,
 } from "../services/gamification.js";
 import { ReferralService } from "../services/referrals.js";
-import { checkAndGenerateFirstOutfit } from "../services/firstOutfit.js";
+import { enqueueItemProcessing } from "../services/processingQueue.js";
+import {
+  parseReprocessTarget,
+  reprocessItem,
+  REPROCESS_ITEM_COLUMNS,
+  REPROCESS_TARGETS,
+  type ReprocessableItem,
+} from "../services/itemReprocessing.js";
 import { hasAIConsent } from "../middleware/aiConsent.js";
+import { analyzeWardrobeGaps } from "../services/wardrobeGaps.js";
+import { parsePurchaseInfo } from "../services/wardrobeValue.js";
+import { getPendingDuplicates, resolveDuplicate } from "../services/itemDuplicates.js";
+import { deleteItemImages, isStorageUrl, ITEM_IMAGE_COLUMNS } from "../services/itemStorage.js";
+import {
+  downloadImage,
+  normalizeUpload,
+  storeItemImage,
+  type ImageUploadError,
+  type NormalizedImage,
+  type StoredImage,
+} from "../services/imageUpload.js";
+import { findSimilarItems, parseSimilarityFilters, searchByPhoto } from "../services/similarItems.js";
+import {
+  getDeletedItemIds,
+  listItems,
+  parseItemListParams,
+  requiresFullResync,
+} from "../services/itemListing.js";
+import {
+  interpretQuery,
+  MAX_QUERY_LENGTH,
+  parseSearchFilters,
+  parseSearchOptions,
+  searchWardrobe,
+  type QueryInterpretation,
+} from "../services/wardrobeSearch.js";
+import {
+  confirmDetections,
+  createPhotoImport,
+  discardDetections,
+  getPhotoImport,
+  selectPendingDetections,
+} from "../services/multiItemImport.js";
+import {
+  fetchProductPage,
+  importProducts,
+  parseProductHtml,
+  type ImportedProduct,
+} from "../services/productImport.js";
+import { mergeColors, parseTagEdits, recordTagCorrections, type TagEdits } from "../services/tagCorrections.js";
 
 type Variables = {
   userId: string;
@@ -24,21 +67,8 @@ type Variables = {
 
 const items = new Hono<{ Variables: Variables }>();
 
-/**
- * Extract storage path from a Supabase storage public URL
- */
-function extractStoragePath(url: string, bucket: string): string | null {
-  try {
-    const urlObj = new URL(url);
-    // URL format: .../storage/v1/object/public/{bucket}/{path}
-    const match = urlObj.pathname.match(
-      new RegExp(`/storage/v1/object/public/${bucket}/(.+)`)
-    );
-    return match ? match[1] : null;
-  } catch {
-    return null;
-  }
-}
+// Pasted order emails (HTML) above this are rejected
+const MAX_IMPORT_HTML_LENGTH = 2 * 1024 * 1024;
 
 /**
  * Map database row to API response format (ensures snake_case)
@@ -49,7 +79,7 @@ function mapItemToResponse(row: Record<string, unknown>) {
   const colors = row.colors as {
     primary?: string;
     secondary?: string[];
-    accent?: string;
+    accent?: string[];
   } | null;
 
   // Extract style_vibes array
@@ -64,6 +94,7 @@ function mapItemToResponse(row: Record<string, unknown>) {
     original_image_url: row.original_image_url,
     processed_image_url: row.processed_image_url,
     thumbnail_url: row.thumbnail_url,
+    thumbnails: row.thumbnails ?? null,
     category: row.category,
     subcategory: row.subcategory,
     item_name: row.item_name,
@@ -71,6 +102,7 @@ function mapItemToResponse(row: Record<string, unknown>) {
     // Transform colors object to separate fields for Swift
     primary_color: colors?.primary ?? null,
     secondary_colors: colors?.secondary ?? null,
+    accent_colors: colors?.accent ?? null,
     color_hex: null, // Not stored in DB
 
     // Transform formality_score to formality for Swift
@@ -88,116 +120,199 @@ function mapItemToResponse(row: Record<string, unknown>) {
     occasions: row.occasions,
     seasons: row.seasons,
     brand: row.brand,
+    gender: row.gender ?? null,
+    fit: row.fit ?? null,
+    length: row.length ?? null,
     times_worn: row.times_worn,
     last_worn_at: row.last_worn_at,
+    is_favorite: row.is_favorite ?? false,
+
+    // Purchase info (optional, used for cost-per-wear analytics)
+    purchase_price: row.purchase_price != null ? Number(row.purchase_price) : null,
+    currency: row.currency ?? null,
+    purchase_date: row.purchase_date ?? null,
+    retailer: row.retailer ?? null,
+    product_info: row.product_info ?? null,
+
     is_archived: row.is_archived,
     processing_status: row.processing_status,
     processing_error: row.processing_error,
+    processing_stage: row.processing_stage ?? null,
+    processing_stages: row.processing_stages ?? null,
+    tagging_model: row.tagging_model ?? null,
+    tagging_prompt_version: row.tagging_prompt_version ?? null,
     created_at: row.created_at,
     updated_at: row.updated_at,
   };
 }
 
+type ItemResponse = ReturnType<typeof mapItemToResponse>;
+
+// Columns each response field is built from (for ?fields= projection; never the embedding)
+const ITEM_RESPONSE_COLUMNS: Record<keyof ItemResponse, string[]> = {
+  id: ["id"],
+  user_id: ["user_id"],
+  original_image_url: ["original_image_url"],
+  processed_image_url: ["processed_image_url"],
+  thumbnail_url: ["thumbnail_url"],
+  thumbnails: ["thumbnails"],
+  category: ["category"],
+  subcategory: ["subcategory"],
+  item_name: ["item_name"],
+  primary_color: ["colors"],
+  secondary_colors: ["colors"],
+  accent_colors: ["colors"],
+  color_hex: [],
+  formality: ["formality_score"],
+  style_vibes: ["style_vibes"],
+  style_bucket: ["style_vibes"],
+  material: ["materials"],
+  pattern: ["pattern"],
+  occasions: ["occasions"],
+  seasons: ["seasons"],
+  brand: ["brand"],
+  gender: ["gender"],
+  fit: ["fit"],
+  length: ["length"],
+  times_worn: ["times_worn"],
+  last_worn_at: ["last_worn_at"],
+  is_favorite: ["is_favorite"],
+  purchase_price: ["purchase_price"],
+  currency: ["currency"],
+  purchase_date: ["purchase_date"],
+  retailer: ["retailer"],
+  product_info: ["product_info"],
+  is_archived: ["is_archived"],
+  processing_status: ["processing_status"],
+  processing_error: ["processing_error"],
+  processing_stage: ["processing_stage"],
+  processing_stages: ["processing_stages"],
+  tagging_model: ["tagging_model"],
+  tagging_prompt_version: ["tagging_prompt_version"],
+  created_at: ["created_at"],
+  updated_at: ["updated_at"],
+};
+
 /**
- * Process an item in the background:
- * Stage 2: Remove background (BiRefNet)
- * Stage 3: Vision analysis (Florence-2)
- * Stage 4: Generate embedding (FashionSigLIP)
- * Stage 5: Reasoning & tagging (Gemini)
- * Stage 6: Update item in database
+ * Select list for the requested response fields (all fields when none are given).
+ * id and the timestamps are always selected since cursors and sync need them.
  */
-async function processItemInBackground(
-  itemId: string,
-  imageUrl: string,
-  userId: string
-): Promise<void> {
-  try {
-    console.log(`[AI] Processing item ${itemId}`);
+function selectColumnsFor(fields?: string[]): string {
+  const requested = (fields ?? Object.keys(ITEM_RESPONSE_COLUMNS)) as Array<keyof ItemResponse>;
+  const columns = new Set(["id", "created_at", "updated_at"]);
+  for (const field of requested) {
+    for (const column of ITEM_RESPONSE_COLUMNS[field]) columns.add(column);
+  }
+  return [...columns].join(", ");
+}
 
-    // Stage 2: Remove background
-    const processedImageUrl = await removeBackground(imageUrl, itemId);
-    console.log(`[AI] Background removed for ${itemId}`);
+/**
+ * Keep only the requested fields of a mapped item (id is always included)
+ */
+function projectFields(item: ItemResponse, fields?: string[]): Partial<ItemResponse> {
+  if (!fields) return item;
+  const projected: Record<string, unknown> = { id: item.id };
+  for (const field of fields) {
+    projected[field] = item[field as keyof ItemResponse];
+  }
+  return projected as Partial<ItemResponse>;
+}
 
-    // Stage 3: Vision analysis
-    const vision = await analyzeWithFlorence(processedImageUrl);
-    console.log(`[AI] Vision analysis complete for ${itemId}`);
+/**
+ * Award XP, challenge progress and stats for items added in bulk
+ */
+async function awardItemsAddedXP(userId: string, itemIds: string[], description: string): Promise<void> {
+  try {
+    // Award XP for each item
+    for (const itemId of itemIds) {
+      await GamificationService.awardXP(userId, XP_AMOUNTS.ADD_ITEM, "add_item", itemId, description);
+    }
 
-    // Stage 4: Generate embedding from processed image
-    const embedding = await generateEmbedding(processedImageUrl);
-    console.log(`[AI] Embedding generated for ${itemId}`);
+    // Update challenge progress for all items at once
+    await GamificationService.updateChallengeProgress(userId, "add_item", itemIds.length);
 
-    // Stage 5: Reasoning & tagging
-    const tags = await tagWithGemini(
-      vision.raw_description,
-      vision.extracted_colors
-    );
-    console.log(`[AI] Tagging complete for ${itemId}`);
+    // Increment stats
+    await GamificationService.incrementStat(userId, "total_items_added", itemIds.length);
 
-    // Stage 6: Update item with ALL fields
-    const { error } = await supabaseAdmin
-      .from("wardrobe_items")
-      .update({
-        processed_image_url: processedImageUrl,
-        embedding,
-        category: tags.category,
-        subcategory: tags.subcategory,
-        colors: tags.colors,
-        pattern: tags.pattern,
-        materials: tags.materials,
-        occasions: tags.occasions,
-        seasons: tags.seasons,
-        formality_score: tags.formality_score,
-        style_vibes: tags.style_vibes,
-        brand: tags.brand,
-        gender: tags.gender,
-        processing_status: "completed",
-      })
-      .eq("id", itemId);
+    // Check for achievements
+    await GamificationService.checkAndUnlockAchievements(userId);
+  } catch (err) {
+    console.error("[Gamification] Error in batch add:", err);
+  }
+}
 
-    if (error) {
-      throw new Error(`Failed to update item: ${error.message}`);
+/**
+ * Photo from a multipart "image"/"photo" field, or an image_url already in our storage
+ */
+async function readPhotoInput(c: Context<{ Variables: Variables }>): Promise<{ image: NormalizedImage } | ImageUploadError> {
+  let file: File;
+  if ((c.req.header("content-type") ?? "").startsWith("multipart/form-data")) {
+    const formData = await c.req.formData().catch(() => null);
+    const upload = formData?.get("image") ?? formData?.get("photo");
+    if (!(upload instanceof File)) {
+      return { error: "image file is required", status: 400 };
     }
-
-    console.log(`[AI] Item ${itemId} processing completed`);
-
-    // Check if this completes the wardrobe for first outfit generation
-    try {
-      await checkAndGenerateFirstOutfit(userId);
-    } catch (firstOutfitError) {
-      console.error("[AI] First outfit check failed:", firstOutfitError);
-      // Don't fail item processing if first outfit check fails
+    file = upload;
+  } else {
+    const body = await c.req.json().catch(() => ({}));
+    if (typeof body.image_url !== "string" || !isStorageUrl(body.image_url)) {
+      return { error: "image file or storage image_url is required", status: 400 };
     }
-  } catch (err) {
-    const errorMessage = err instanceof Error ? err.message : "Unknown error";
-    console.error(`[AI] Error processing item ${itemId}:`, errorMessage);
-
-    // Update item with error status
-    await supabaseAdmin
-      .from("wardrobe_items")
-      .update({
-        processing_status: "failed",
-        processing_error: errorMessage,
-      })
-      .eq("id", itemId);
+    const download = await downloadImage(body.image_url);
+    if ("error" in download) return download;
+    file = download.file;
   }
+
+  return normalizeUpload(file);
 }
 
-// GET / - Fetch user's wardrobe (non-archived, ordered by created_at desc)
+// GET / - Fetch user's wardrobe (non-archived, newest first, never the embeddings)
+// Query: limit, cursor (next_cursor from the previous page), fields (comma-separated
+// response fields), category, seasons, status, favorite. Without limit or cursor
+// the whole wardrobe is returned.
+// Delta sync: ?updated_since=<synced_at from the first page of the last sync> returns
+// items changed since then (oldest first, archived included) and deleted_ids.
 items.get("/", async (c) => {
   const userId = getUserId(c);
 
-  const { data, error } = await supabaseAdmin
-    .from("wardrobe_items")
-    .select("*")
-    .eq("user_id", userId)
-    .eq("is_archived", false)
-    .order("created_at", { ascending: false });
+  const params = parseItemListParams(c.req.query(), Object.keys(ITEM_RESPONSE_COLUMNS));
+  if ("error" in params) {
+    return c.json({ error: params.error }, 400);
+  }
 
-  if (error) {
+  // Taken before querying so changes made during the sync are picked up next time
+  const syncedAt = new Date().toISOString();
+
+  if (params.updatedSince && requiresFullResync(params.updatedSince)) {
+    return c.json({ items: [], deleted_ids: [], next_cursor: null, full_resync_required: true, synced_at: syncedAt });
+  }
+
+  let page: Awaited<ReturnType<typeof listItems>>;
+  let deletedIds: string[] = [];
+  try {
+    page = await listItems(userId, params, selectColumnsFor(params.fields));
+    // Tombstones come with the first page of a delta sync
+    if (params.updatedSince && !params.cursor) {
+      deletedIds = await getDeletedItemIds(userId, params.updatedSince);
+    }
+  } catch (err) {
+    console.error("[Items] Failed to fetch items:", err);
     return c.json({ error: "Failed to fetch items" }, 500);
   }
 
-  return c.json({ items: data?.map(mapItemToResponse) ?? [] });
+  const itemsOut = page.rows.map((row) => projectFields(mapItemToResponse(row), params.fields));
+
+  if (!params.updatedSince) {
+    return c.json({ items: itemsOut, next_cursor: page.next_cursor });
+  }
+
+  return c.json({
+    items: itemsOut,
+    deleted_ids: deletedIds,
+    next_cursor: page.next_cursor,
+    full_resync_required: false,
+    synced_at: syncedAt,
+  });
 });
 
 // GET /insights - Fetch wardrobe insights for home screen
@@ -251,6 +366,406 @@ items.get("/insights", async (c) => {
   });
 });
 
+// GET /gaps - What the wardrobe can't cover, with shopping suggestions
+// NOTE: Must be before /:id route to avoid matching "gaps" as an id
+items.get("/gaps", async (c) => {
+  const userId = getUserId(c);
+
+  const { data, error } = await supabaseAdmin
+    .from("wardrobe_items")
+    .select("id, category, subcategory, colors, formality_score, seasons, occasions, item_name, materials, pattern")
+    .eq("user_id", userId)
+    .eq("is_archived", false)
+    .eq("processing_status", "completed");
+
+  if (error) {
+    return c.json({ error: "Failed to fetch wardrobe" }, 500);
+  }
+
+  return c.json(analyzeWardrobeGaps(data || []));
+});
+
+// POST /import - Add items from a product page URL or pasted order email HTML
+// Body: { url: string } or { html: string }
+items.post("/import", itemUploadLimit, async (c) => {
+  const userId = getUserId(c);
+
+  // Require AI consent before processing
+  if (!(await hasAIConsent(userId))) {
+    return c.json({ error: "AI data consent required before processing" }, 403);
+  }
+
+  const body = await c.req.json().catch(() => ({}));
+  const url = typeof body.url === "string" ? body.url.trim() : null;
+  const html = typeof body.html === "string" ? body.html : null;
+
+  if (!url === !html) {
+    return c.json({ error: "Provide either url or html" }, 400);
+  }
+  if (html && html.length > MAX_IMPORT_HTML_LENGTH) {
+    return c.json({ error: "html is too large" }, 413);
+  }
+
+  let products: ImportedProduct[];
+  if (url) {
+    try {
+      const page = await fetchProductPage(url);
+      products = parseProductHtml(page.html, page.url);
+    } catch (err) {
+      console.error(`[Import] Failed to fetch ${url}:`, err);
+      return c.json({ error: "Could not load the product page" }, 400);
+    }
+  } else {
+    products = parseProductHtml(html!);
+  }
+
+  if (products.length === 0) {
+    return c.json({ error: "No products found" }, 422);
+  }
+
+  // Check item limit
+  const limitCheck = await checkItemLimit(userId);
+  if (limitCheck.limit !== Infinity && products.length > limitCheck.limit - limitCheck.used) {
+    return c.json(
+      {
+        error: "Would exceed item limit",
+        used: limitCheck.used,
+        limit: limitCheck.limit,
+        requested: products.length,
+      },
+      403
+    );
+  }
+
+  const results = await importProducts(userId, products);
+  const itemIds = results.flatMap((result) => (result.item_id ? [result.item_id] : []));
+
+  if (itemIds.length === 0) {
+    return c.json({ error: "Failed to import products", results }, 502);
+  }
+
+  if (limitCheck.used === 0) {
+    ReferralService.completeReferral(userId).catch((err) => {
+      console.error("[Referral] Error completing referral:", err);
+    });
+  }
+  void awardItemsAddedXP(userId, itemIds, "Added wardrobe item (import)");
+
+  return c.json(
+    {
+      items: itemIds.map((id) => ({ id, status: "processing" })),
+      results,
+      gamification: {
+        xp_awarded: XP_AMOUNTS.ADD_ITEM * itemIds.length,
+        items_count: itemIds.length,
+      },
+    },
+    202
+  );
+});
+
+// POST /photo-imports - Split one photo (flat lay / mirror selfie) into garment detections
+// Detections don't count against the item limit until they're confirmed
+items.post("/photo-imports", itemUploadLimit, async (c) => {
+  const userId = getUserId(c);
+
+  // Require AI consent before processing
+  if (!(await hasAIConsent(userId))) {
+    return c.json({ error: "AI data consent required before processing" }, 403);
+  }
+
+  const normalized = await readPhotoInput(c);
+  if ("error" in normalized) {
+    return c.json({ error: normalized.error }, normalized.status);
+  }
+
+  try {
+    const photoImport = await createPhotoImport(userId, normalized.image);
+    return c.json({ import: photoImport }, 201);
+  } catch (err) {
+    console.error("[Import] Photo import failed:", err);
+    return c.json({ error: "Failed to detect items in photo" }, 500);
+  }
+});
+
+// GET /photo-imports/:id - Detections for a photo import
+items.get("/photo-imports/:id", async (c) => {
+  const userId = getUserId(c);
+
+  const photoImport = await getPhotoImport(userId, c.req.param("id"));
+  if (!photoImport) {
+    return c.json({ error: "Photo import not found" }, 404);
+  }
+
+  return c.json({ import: photoImport });
+});
+
+// POST /photo-imports/:id/confirm - Turn detections into wardrobe items
+// Body: { detection_ids?: string[] (default: all pending), names?: { [detectionId]: string } }
+items.post("/photo-imports/:id/confirm", async (c) => {
+  const userId = getUserId(c);
+  const body = await c.req.json().catch(() => ({}));
+
+  if (!(await hasAIConsent(userId))) {
+    return c.json({ error: "AI data consent required before processing" }, 403);
+  }
+
+  const photoImport = await getPhotoImport(userId, c.req.param("id"));
+  if (!photoImport) {
+    return c.json({ error: "Photo import not found" }, 404);
+  }
+
+  const ids = Array.isArray(body.detection_ids) ? (body.detection_ids as string[]) : undefined;
+  const detections = selectPendingDetections(photoImport, ids);
+  if (detections.length === 0) {
+    return c.json({ error: "No pending detections to confirm" }, 400);
+  }
+
+  // Confirmed detections are real items now - check the limit for all of them
+  const limitCheck = await checkItemLimit(userId);
+  if (limitCheck.limit !== Infinity && detections.length > limitCheck.limit - limitCheck.used) {
+    return c.json(
+      {
+        error: "Would exceed item limit",
+        used: limitCheck.used,
+        limit: limitCheck.limit,
+        requested: detections.length,
+      },
+      403
+    );
+  }
+
+  let result: Awaited<ReturnType<typeof confirmDetections>>;
+  try {
+    result = await confirmDetections(photoImport, detections, body.names ?? {});
+  } catch (err) {
+    console.error("[Import] Failed to confirm detections:", err);
+    return c.json({ error: "Failed to create items" }, 500);
+  }
+
+  if (limitCheck.used === 0) {
+    ReferralService.completeReferral(userId).catch((err) => {
+      console.error("[Referral] Error completing referral:", err);
+    });
+  }
+  void awardItemsAddedXP(userId, result.itemIds, "Added wardrobe item (photo import)");
+
+  return c.json(
+    {
+      import: result.photoImport,
+      items: result.itemIds.map((id) => ({ id, status: "processing" })),
+      gamification: {
+        xp_awarded: XP_AMOUNTS.ADD_ITEM * result.itemIds.length,
+        items_count: result.itemIds.length,
+      },
+    },
+    202
+  );
+});
+
+// POST /photo-imports/:id/discard - Drop detections (default: all pending)
+items.post("/photo-imports/:id/discard", async (c) => {
+  const userId = getUserId(c);
+  const body = await c.req.json().catch(() => ({}));
+
+  const photoImport = await getPhotoImport(userId, c.req.param("id"));
+  if (!photoImport) {
+    return c.json({ error: "Photo import not found" }, 404);
+  }
+
+  const ids = Array.isArray(body.detection_ids) ? (body.detection_ids as string[]) : undefined;
+  const detections = selectPendingDetections(photoImport, ids);
+  if (detections.length === 0) {
+    return c.json({ error: "No pending detections to discard" }, 400);
+  }
+
+  try {
+    return c.json({ import: await discardDetections(photoImport, detections) });
+  } catch (err) {
+    console.error("[Import] Failed to discard detections:", err);
+    return c.json({ error: "Failed to discard detections" }, 500);
+  }
+});
+
+// GET /duplicates - Likely duplicate pairs waiting for a merge / keep-both decision
+items.get("/duplicates", async (c) => {
+  const userId = getUserId(c);
+
+  const duplicates = await getPendingDuplicates(userId);
+  if (duplicates.length === 0) {
+    return c.json({ duplicates: [] });
+  }
+
+  const itemIds = [...new Set(duplicates.flatMap((d) => [d.item_id, d.duplicate_of]))];
+  const { data, error } = await supabaseAdmin
+    .from("wardrobe_items")
+    .select("*")
+    .in("id", itemIds)
+    .eq("user_id", userId);
+
+  if (error) {
+    return c.json({ error: "Failed to fetch duplicates" }, 500);
+  }
+
+  const byId = new Map((data || []).map((row) => [row.id as string, mapItemToResponse(row)]));
+  return c.json({
+    duplicates: duplicates
+      .filter((d) => byId.has(d.item_id) && byId.has(d.duplicate_of))
+      .map((d) => ({ ...d, item: byId.get(d.item_id), duplicate_of_item: byId.get(d.duplicate_of) })),
+  });
+});
+
+// POST /duplicates/:id/resolve - Merge a duplicate pair or keep both items
+items.post("/duplicates/:id/resolve", async (c) => {
+  const userId = getUserId(c);
+  const candidateId = c.req.param("id");
+  const body = await c.req.json().catch(() => ({}));
+
+  if (body.action !== "merge" && body.action !== "keep_both") {
+    return c.json({ error: "action must be \"merge\" or \"keep_both\"" }, 400);
+  }
+
+  const result = await resolveDuplicate(userId, candidateId, body.action, body.keep_item_id ?? undefined);
+  if (result.error) {
+    return c.json({ error: result.error }, result.status ?? 500);
+  }
+
+  if (!result.kept_item_id) {
+    return c.json({ success: true, action: body.action });
+  }
+
+  const { data } = await supabaseAdmin
+    .from("wardrobe_items")
+    .select("*")
+    .eq("id", result.kept_item_id)
+    .single();
+
+  return c.json({
+    success: true,
+    action: body.action,
+    removed_item_id: result.removed_item_id,
+    item: data ? mapItemToResponse(data) : null,
+  });
+});
+
+// GET /search - Search the wardrobe with free text and/or explicit filters
+// Query: q (free text, e.g. "navy wool things for winter"), category, colors, materials,
+// seasons, occasions, style_vibes (comma-separated), formality_min, formality_max,
+// not_worn_days, times_worn_min, times_worn_max, favorite, similar_to (item id),
+// sort (relevance|created_at|last_worn_at|times_worn|formality), order, limit, offset.
+// Explicit filters override whatever was read from q.
+items.get("/search", async (c) => {
+  const userId = getUserId(c);
+  const query = c.req.query();
+
+  const q = query.q?.trim() ?? "";
+  if (q.length > MAX_QUERY_LENGTH) {
+    return c.json({ error: `q must be at most ${MAX_QUERY_LENGTH} characters` }, 400);
+  }
+
+  const explicitFilters = parseSearchFilters(query);
+  if ("error" in explicitFilters) {
+    return c.json({ error: explicitFilters.error }, 400);
+  }
+  const options = parseSearchOptions(query);
+  if ("error" in options) {
+    return c.json({ error: options.error }, 400);
+  }
+
+  // The query text only goes to the LLM / embedding model with AI consent
+  let interpretation: QueryInterpretation | null = null;
+  if (q) {
+    interpretation = await interpretQuery(q, await hasAIConsent(userId));
+  }
+
+  const filters = { ...interpretation?.filters, ...explicitFilters };
+  const searchOptions = {
+    ...options,
+    sort: options.sort ?? interpretation?.sort,
+    order: options.order ?? interpretation?.order,
+  };
+
+  try {
+    const results = await searchWardrobe(userId, filters, searchOptions, interpretation?.visual_query ?? null);
+    const nextOffset = searchOptions.offset + results.items.length;
+
+    return c.json({
+      items: results.items.map((result) => ({ ...mapItemToResponse(result.item), similarity: result.similarity })),
+      total: results.total,
+      limit: searchOptions.limit,
+      offset: searchOptions.offset,
+      next_offset: nextOffset < results.total ? nextOffset : null,
+      query: q || null,
+      interpretation,
+      filters,
+      sort: searchOptions.sort ?? "relevance",
+      order: searchOptions.order ?? "desc",
+      ranked_by_similarity: results.ranked_by_similarity,
+    });
+  } catch (err) {
+    console.error("[Search] Wardrobe search failed:", err);
+    return c.json({ error: "Failed to search wardrobe" }, 500);
+  }
+});
+
+// POST /search/photo - Wardrobe items that look like an uploaded photo
+// Query: ?category=tops,bottoms&seasons=summer&min_similarity=0.5&limit=20
+items.post("/search/photo", itemUploadLimit, async (c) => {
+  const userId = getUserId(c);
+
+  // The photo is embedded by FashionSigLIP
+  if (!(await hasAIConsent(userId))) {
+    return c.json({ error: "AI data consent required before processing" }, 403);
+  }
+
+  const filters = parseSimilarityFilters(c.req.query());
+  if ("error" in filters) {
+    return c.json({ error: filters.error }, 400);
+  }
+
+  const normalized = await readPhotoInput(c);
+  if ("error" in normalized) {
+    return c.json({ error: normalized.error }, normalized.status);
+  }
+
+  try {
+    const results = await searchByPhoto(userId, normalized.image, filters);
+    return c.json({
+      items: results.map((result) => ({ ...mapItemToResponse(result.item), similarity: result.similarity })),
+    });
+  } catch (err) {
+    console.error("[Search] Photo search failed:", err);
+    return c.json({ error: "Failed to search by photo" }, 500);
+  }
+});
+
+// GET /:id/similar - Wardrobe items that look like this one
+// Query: ?category=tops,bottoms&seasons=summer&min_similarity=0.5&limit=20
+items.get("/:id/similar", async (c) => {
+  const userId = getUserId(c);
+
+  const filters = parseSimilarityFilters(c.req.query());
+  if ("error" in filters) {
+    return c.json({ error: filters.error }, 400);
+  }
+
+  let results: Awaited<ReturnType<typeof findSimilarItems>>;
+  try {
+    results = await findSimilarItems(userId, c.req.param("id"), filters);
+  } catch (err) {
+    console.error("[Search] Similar items search failed:", err);
+    return c.json({ error: "Failed to find similar items" }, 500);
+  }
+
+  if (!results) {
+    return c.json({ error: "Item not found" }, 404);
+  }
+
+  return c.json({
+    items: results.map((result) => ({ ...mapItemToResponse(result.item), similarity: result.similarity })),
+  });
+});
+
 // GET /:id - Fetch single item
 items.get("/:id", async (c) => {
   const userId = getUserId(c);
@@ -267,7 +782,9 @@ items.get("/:id", async (c) => {
     return c.json({ error: "Item not found" }, 404);
   }
 
-  return c.json({ item: mapItemToResponse(data) });
+  const possibleDuplicates = await getPendingDuplicates(userId, itemId).catch(() => []);
+
+  return c.json({ item: mapItemToResponse(data), possible_duplicates: possibleDuplicates });
 });
 
 // PATCH /:id - Update item
@@ -287,12 +804,43 @@ items.patch("/:id", async (c) => {
   // Build update object - only include fields that were provided
   const updates: Record<string, unknown> = {};
   if (itemName !== undefined) updates.item_name = itemName;
-  if (body.category !== undefined) updates.category = body.category;
   if (body.is_favorite !== undefined) updates.is_favorite = body.is_favorite;
   if (body.is_archived !== undefined) updates.is_archived = body.is_archived;
   if (timesWorn !== undefined) updates.times_worn = timesWorn;
   if (lastWornAt !== undefined) updates.last_worn_at = lastWornAt;
 
+  const purchase = parsePurchaseInfo(body);
+  if (purchase.error) {
+    return c.json({ error: purchase.error }, 400);
+  }
+  Object.assign(updates, purchase.info);
+
+  // Any AI tag can be overridden; validated against the tagging schema
+  const tagInput = parseTagEdits(body);
+  if (tagInput.error !== undefined) {
+    return c.json({ error: tagInput.error }, 400);
+  }
+  const tagEdits: TagEdits = { ...tagInput.edits };
+  let currentItem: Record<string, unknown> | null = null;
+
+  if (Object.keys(tagEdits).length > 0 || Object.keys(tagInput.colors).length > 0) {
+    const { data: existing } = await supabaseAdmin
+      .from("wardrobe_items")
+      .select("*")
+      .eq("id", itemId)
+      .eq("user_id", userId)
+      .single();
+
+    if (!existing) {
+      return c.json({ error: "Item not found or update failed" }, 404);
+    }
+    currentItem = existing;
+    if (Object.keys(tagInput.colors).length > 0) {
+      tagEdits.colors = mergeColors(existing.colors, tagInput.colors);
+    }
+    Object.assign(updates, tagEdits);
+  }
+
   if (Object.keys(updates).length === 0) {
     return c.json({ error: "No fields to update" }, 400);
   }
@@ -309,6 +857,11 @@ items.patch("/:id", async (c) => {
     return c.json({ error: "Item not found or update failed" }, 404);
   }
 
+  // Keep overrides across reprocessing and learn from them in future tagging
+  if (currentItem) {
+    await recordTagCorrections(userId, itemId, currentItem, tagEdits);
+  }
+
   return c.json({ item: mapItemToResponse(data) });
 });
 
@@ -334,22 +887,70 @@ items.post("/", itemUploadLimit, async (c) => {
     );
   }
 
-  const body = await c.req.json();
-  const { image_url } = body;
+  // Either JSON with an image_url the client uploaded, or multipart with the photo itself
+  const isMultipart = (c.req.header("content-type") ?? "").startsWith("multipart/form-data");
+  let body: Record<string, unknown>;
+  let file: File | null = null;
+
+  if (isMultipart) {
+    const formData = await c.req.formData().catch(() => null);
+    if (!formData) {
+      return c.json({ error: "Invalid multipart body" }, 400);
+    }
+    const upload = formData.get("image") ?? formData.get("photo");
+    if (!(upload instanceof File)) {
+      return c.json({ error: "image file is required" }, 400);
+    }
+    file = upload;
+    // Text fields (name, purchase info) come through as strings; a blank field counts as not sent
+    body = Object.fromEntries(
+      [...formData.entries()].filter(([, value]) => typeof value === "string" && value.trim() !== "")
+    );
+  } else {
+    body = await c.req.json();
+    if (!body.image_url) {
+      return c.json({ error: "image_url is required" }, 400);
+    }
+  }
+
   // Accept both "name" and "item_name" for flexibility
   const itemName = body.item_name ?? body.name ?? null;
 
-  if (!image_url) {
-    return c.json({ error: "image_url is required" }, 400);
+  const purchase = parsePurchaseInfo(body);
+  if (purchase.error) {
+    return c.json({ error: purchase.error }, 400);
+  }
+
+  // Uploaded photos are stored under the item's id before the row exists
+  const itemId = randomUUID();
+  let image: Pick<StoredImage, "original_image_url"> & Partial<StoredImage> = {
+    original_image_url: body.image_url as string,
+  };
+  if (file) {
+    const normalized = await normalizeUpload(file);
+    if ("error" in normalized) {
+      return c.json({ error: normalized.error }, normalized.status);
+    }
+    try {
+      image = await storeItemImage(userId, itemId, normalized.image);
+    } catch (err) {
+      console.error("[Upload] Failed to store item image:", err);
+      return c.json({ error: "Failed to upload image" }, 500);
+    }
   }
+  const image_url = image.original_image_url;
 
   // Create item with processing status
   const { data, error } = await supabaseAdmin
     .from("wardrobe_items")
     .insert({
+      id: itemId,
       user_id: userId,
       original_image_url: image_url,
+      thumbnail_url: image.thumbnail_url ?? null,
+      thumbnails: image.thumbnails ?? null,
       item_name: itemName,
+      ...purchase.info,
       processing_status: "processing",
       times_worn: 0,
       is_archived: false,
@@ -358,13 +959,19 @@ items.post("/", itemUploadLimit, async (c) => {
     .single();
 
   if (error) {
+    // Don't leave the uploaded photo behind without an item
+    if (file) {
+      await deleteItemImages(itemId, { ...image, processed_image_url: null });
+    }
     return c.json({ error: "Failed to create item" }, 500);
   }
 
-  // Trigger background processing (non-blocking)
-  processItemInBackground(data.id, image_url, userId).catch((err) => {
-    console.error(`[AI] Background processing failed for ${data.id}:`, err);
-  });
+  // Queue AI processing (a failed enqueue is recovered by the worker's orphan sweep)
+  try {
+    await enqueueItemProcessing(data.id, image_url, userId);
+  } catch (err) {
+    console.error(`[AI] Failed to queue processing for ${data.id}:`, err);
+  }
 
   // Check if first item triggers referral completion (fire-and-forget)
   if (limitCheck.used === 0) {
@@ -459,10 +1066,20 @@ items.post("/batch", itemUploadLimit, async (c) => {
     );
   }
 
+  // Validate optional purchase info per item
+  const purchases: ReturnType<typeof parsePurchaseInfo>[] = itemsToUpload.map(
+    (item: Record<string, unknown>) => parsePurchaseInfo(item)
+  );
+  const invalidIndex = purchases.findIndex((p) => p.error);
+  if (invalidIndex !== -1) {
+    return c.json({ error: `items[${invalidIndex}]: ${purchases[invalidIndex].error}` }, 400);
+  }
+
   // Create items with processing status
-  const itemsData = itemsToUpload.map((item: { image_url: string }) => ({
+  const itemsData = itemsToUpload.map((item: { image_url: string }, index: number) => ({
     user_id: userId,
     original_image_url: item.image_url,
+    ...purchases[index].info,
     processing_status: "processing",
     times_worn: 0,
     is_archived: false,
@@ -477,12 +1094,14 @@ items.post("/batch", itemUploadLimit, async (c) => {
     return c.json({ error: "Failed to create items" }, 500);
   }
 
-  // Trigger background processing for each item (non-blocking)
-  for (const item of data) {
-    processItemInBackground(item.id, item.original_image_url, userId).catch((err) => {
-      console.error(`[AI] Background processing failed for ${item.id}:`, err);
-    });
-  }
+  // Queue AI processing for each item
+  await Promise.all(
+    data.map((item) =>
+      enqueueItemProcessing(item.id, item.original_image_url, userId).catch((err) => {
+        console.error(`[AI] Failed to queue processing for ${item.id}:`, err);
+      })
+    )
+  );
 
   const results = data.map((item) => ({
     id: item.id,
@@ -498,39 +1117,7 @@ items.post("/batch", itemUploadLimit, async (c) => {
 
   // Award XP for each item added (fire-and-forget)
   const itemCount = data.length;
-  void (async () => {
-    try {
-      // Award XP for each item
-      for (const item of data) {
-        await GamificationService.awardXP(
-          userId,
-          XP_AMOUNTS.ADD_ITEM,
-          "add_item",
-          item.id,
-          "Added wardrobe item (batch)"
-        );
-      }
-
-      // Update challenge progress for all items at once
-      await GamificationService.updateChallengeProgress(
-        userId,
-        "add_item",
-        itemCount
-      );
-
-      // Increment stats
-      await GamificationService.incrementStat(
-        userId,
-        "total_items_added",
-        itemCount
-      );
-
-      // Check for achievements
-      await GamificationService.checkAndUnlockAchievements(userId);
-    } catch (err) {
-      console.error("[Gamification] Error in batch add:", err);
-    }
-  })();
+  void awardItemsAddedXP(userId, data.map((item) => item.id), "Added wardrobe item (batch)");
 
   return c.json(
     {
@@ -552,7 +1139,7 @@ items.delete("/:id", async (c) => {
   // Get item to find image paths
   const { data: item, error: fetchError } = await supabaseAdmin
     .from("wardrobe_items")
-    .select("original_image_url, processed_image_url")
+    .select(ITEM_IMAGE_COLUMNS)
     .eq("id", itemId)
     .eq("user_id", userId)
     .single();
@@ -562,28 +1149,7 @@ items.delete("/:id", async (c) => {
   }
 
   // Delete images from storage (best effort - don't fail if storage delete fails)
-  try {
-    // Extract path from original_image_url (wardrobe bucket)
-    if (item.original_image_url) {
-      const originalPath = extractStoragePath(item.original_image_url, "wardrobe");
-      if (originalPath) {
-        await supabaseAdmin.storage.from("wardrobe").remove([originalPath]);
-        console.log(`[Storage] Deleted original image: ${originalPath}`);
-      }
-    }
-
-    // Extract path from processed_image_url (wardrobe-items bucket)
-    if (item.processed_image_url) {
-      const processedPath = extractStoragePath(item.processed_image_url, "wardrobe-items");
-      if (processedPath) {
-        await supabaseAdmin.storage.from("wardrobe-items").remove([processedPath]);
-        console.log(`[Storage] Deleted processed image: ${processedPath}`);
-      }
-    }
-  } catch (storageErr) {
-    console.error(`[Storage] Failed to delete images for item ${itemId}:`, storageErr);
-    // Continue with database deletion even if storage fails
-  }
+  await deleteItemImages(itemId, item);
 
   // Delete from database
   const { error: deleteError } = await supabaseAdmin
@@ -619,4 +1185,48 @@ items.post("/:id/archive", async (c) => {
   return c.json({ item: mapItemToResponse(data) });
 });
 
+// POST /:id/reprocess - Re-run AI processing without re-uploading
+// Body: { stages?: "all" | "background" | "tags" | "embedding" } (default "all")
+items.post("/:id/reprocess", itemUploadLimit, async (c) => {
+  const userId = getUserId(c);
+  const itemId = c.req.param("id");
+
+  // Require AI consent before processing
+  if (!(await hasAIConsent(userId))) {
+    return c.json({ error: "AI data consent required before processing" }, 403);
+  }
+
+  const body = await c.req.json().catch(() => ({}));
+  const target = parseReprocessTarget(body.stages);
+  if (!target) {
+    return c.json(
+      { error: `stages must be one of: ${Object.keys(REPROCESS_TARGETS).join(", ")}` },
+      400
+    );
+  }
+
+  const { data: item, error } = await supabaseAdmin
+    .from("wardrobe_items")
+    .select(REPROCESS_ITEM_COLUMNS)
+    .eq("id", itemId)
+    .eq("user_id", userId)
+    .single();
+
+  if (error || !item) {
+    return c.json({ error: "Item not found" }, 404);
+  }
+
+  try {
+    const result = await reprocessItem(item as ReprocessableItem, target);
+    if (!result.queued) {
+      return c.json({ error: "Item is already being processed" }, 409);
+    }
+
+    return c.json({ success: true, item_id: itemId, stages: result.stages }, 202);
+  } catch (err) {
+    console.error(`[AI] Failed to queue reprocess for ${itemId}:`, err);
+    return c.json({ error: "Failed to queue reprocessing" }, 500);
+  }
+});
+
 export default items;
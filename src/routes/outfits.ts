@@ -17,7 +17,20 @@ import {
   AVAILABLE_MOODS,
   type GenerationConstraints,
 } from "../services/outfitGenerator.js";
+import { getWardrobeCoverage, type OutfitScoreBreakdown } from "../services/outfitBuilder.js";
+import type { OutfitLayer } from "../services/layering.js";
 import { getWeatherByCoords, type WeatherData } from "../services/weather.js";
+import {
+  createOutfitPlan,
+  regeneratePlannedDay,
+  getDateRange,
+  isValidPlanDate,
+  isValidPlanLocation,
+  MAX_PLAN_DAYS,
+  DEFAULT_PLAN_COOLDOWN_DAYS,
+  type PlanDayInput,
+  type PlanLocation,
+} from "../services/outfitPlanner.js";
 import {
   GamificationService,
   XP_AMOUNTS,
@@ -41,6 +54,11 @@ function formatWeatherResponse(weather: WeatherData) {
     humidity: weather.humidity,
     wind_mph: Math.round(weather.wind_speed * 2.237 * 10) / 10, // m/s to mph
     description: weather.description,
+    // Day range, when styled on a forecast
+    temp_min_fahrenheit: weather.temp_min != null ? celsiusToFahrenheit(weather.temp_min) : null,
+    temp_max_fahrenheit: weather.temp_max != null ? celsiusToFahrenheit(weather.temp_max) : null,
+    precipitation_chance:
+      weather.precipitation_probability != null ? Math.round(weather.precipitation_probability * 100) : null,
   };
 }
 
@@ -75,6 +93,13 @@ function getItemRole(category: string | null | undefined, subcategory: string |
     return 'Footwear';
   }
 
+  // One-pieces (checked after tops/footwear so "dress shirt"/"dress shoes" keep their roles)
+  if (cat.includes('dress') || cat.includes('jumpsuit') || cat.includes('romper') ||
+      cat.includes('overall') || cat.includes('playsuit') || cat.includes('one-piece') ||
+      sub.includes('dress') || sub.includes('jumpsuit') || sub.includes('romper')) {
+    return 'One-Piece';
+  }
+
   // Outerwear
   if (cat.includes('outerwear') || cat.includes('jacket') || cat.includes('coat') ||
       cat.includes('blazer') || cat.includes('cardigan') || cat.includes('vest') ||
@@ -100,12 +125,13 @@ function getItemRole(category: string | null | undefined, subcategory: string |
 }
 
 /**
- * Check if user has minimum items to generate outfits (top, bottom, footwear)
+ * Check if user has minimum items to generate outfits
+ * (top + bottom, or a one-piece such as a dress, plus footwear)
  */
 async function checkUserCanGenerate(userId: string): Promise<boolean> {
   const { data: items } = await supabaseAdmin
     .from("wardrobe_items")
-    .select("category")
+    .select("category, subcategory")
     .eq("user_id", userId)
     .eq("is_archived", false)
     .eq("processing_status", "completed");
@@ -114,19 +140,7 @@ async function checkUserCanGenerate(userId: string): Promise<boolean> {
     return false;
   }
 
-  const categories = items.map((item) => (item.category || "").toLowerCase());
-
-  const hasTop = categories.some((c) =>
-    ["top", "tops", "t-shirt", "shirt", "blouse", "sweater", "hoodie", "polo", "tank", "henley"].includes(c)
-  );
-  const hasBottom = categories.some((c) =>
-    ["bottom", "bottoms", "pants", "jeans", "shorts", "skirt", "trousers", "chino", "jogger", "legging"].includes(c)
-  );
-  const hasShoes = categories.some((c) =>
-    ["shoes", "footwear", "sneakers", "boots", "sandals", "loafers", "heels", "flats", "oxfords"].includes(c)
-  );
-
-  return hasTop && hasBottom && hasShoes;
+  return getWardrobeCoverage(items).canGenerate;
 }
 
 /**
@@ -153,6 +167,8 @@ interface GeneratedOutfitData {
   style_score: number;
   confidence_score: number;
   occasion_match?: boolean;
+  mood?: string | null;
+  layers?: OutfitLayer[] | null;
 }
 
 function transformOutfitForIOS(
@@ -161,6 +177,7 @@ function transformOutfitForIOS(
   outfitId: string
 ) {
   console.log("[OutfitsAPI] transformOutfitForIOS - input styling_tip:", outfit.styling_tip);
+  const layersByItem = new Map((outfit.layers || []).map((layer) => [layer.item_id, layer]));
   const result = {
     id: outfitId,
     wardrobeItemIds: outfit.item_ids,
@@ -171,13 +188,17 @@ function transformOutfitForIOS(
     stylingTip: outfit.styling_tip || null,
     colorHarmony: outfit.color_harmony_description || null,
     occasion: outfit.occasion_match ? "matched" : null,
+    mood: outfit.mood ?? null,
     vibes: [outfit.vibe].filter(Boolean),
     items: items.map((item) => {
       const role = getItemRole(item.category, item.subcategory);
+      const layer = layersByItem.get(item.id);
       console.log(`[Transform] Item: ${item.item_name || 'unnamed'}, category: ${item.category}, subcategory: ${item.subcategory}, role: ${role}`);
       return {
         id: item.id,
         role,
+        layer: layer?.layer ?? null, // "base" | "mid" | "outer" for upper-body layers
+        layerOrder: layer?.order ?? null, // 1 = closest to the body
         imageUrl: item.processed_image_url || item.original_image_url,
         category: item.category,
         subcategory: item.subcategory,
@@ -234,16 +255,33 @@ outfits.get("/", async (c) => {
 
   console.log(`[Outfits] Looking for target_date = ${userToday}`);
 
-  // Get pre-generated outfits OR first_outfit_auto for today's target_date
-  const { data: preGenerated, error } = await supabaseAdmin
+  // A locked planned outfit for today takes priority over pre-generated ones
+  const { data: lockedOutfits } = await supabaseAdmin
     .from("generated_outfits")
     .select("*")
     .eq("user_id", userId)
-    .or("is_pre_generated.eq.true,source.eq.first_outfit_auto")
+    .eq("is_locked", true)
     .eq("target_date", userToday)
     .order("generated_at", { ascending: false })
     .limit(4);
 
+  const hasLockedPlan = (lockedOutfits?.length ?? 0) > 0;
+  if (hasLockedPlan) {
+    console.log(`[Outfits] Serving ${lockedOutfits!.length} locked planned outfit(s) for today`);
+  }
+
+  // Get pre-generated outfits OR first_outfit_auto for today's target_date
+  const { data: preGenerated, error } = hasLockedPlan
+    ? { data: lockedOutfits, error: null }
+    : await supabaseAdmin
+        .from("generated_outfits")
+        .select("*")
+        .eq("user_id", userId)
+        .or("is_pre_generated.eq.true,source.eq.first_outfit_auto")
+        .eq("target_date", userToday)
+        .order("generated_at", { ascending: false })
+        .limit(4);
+
   if (error) {
     console.error("[Outfits] Query error:", error);
     return c.json({ error: "Failed to fetch outfits" }, 500);
@@ -341,6 +379,7 @@ outfits.get("/", async (c) => {
       style_score: outfit.style_score || 0.8,
       confidence_score: outfit.confidence_score || 0.8,
       occasion_match: false,
+      layers: outfit.layers as OutfitLayer[] | null,
     };
 
     return transformOutfitForIOS(outfitData, outfitItems, outfit.id);
@@ -348,7 +387,7 @@ outfits.get("/", async (c) => {
 
   // Determine source - use first_outfit_auto if any outfit has that source (for iOS celebration)
   const hasFirstOutfit = preGenerated.some((o) => o.source === "first_outfit_auto");
-  const source = hasFirstOutfit ? "first_outfit_auto" : "pre_generated";
+  const source = hasLockedPlan ? "planned" : hasFirstOutfit ? "first_outfit_auto" : "pre_generated";
 
   // Cache for 30 min — pre-generated outfits don't change within a day
   c.header("Cache-Control", "private, max-age=1800");
@@ -364,6 +403,7 @@ outfits.get("/", async (c) => {
 
 /**
  * POST /generate - Generate outfits (Style Me)
+ * Optional integer `seed` makes the picks reproducible
  * Uses daily limits: Free = 2/day, Pro = unlimited
  * Uses monthly rate limits: Free = 5/month, Pro = 75/month
  */
@@ -394,7 +434,7 @@ outfits.post("/generate", styleMeLimitMiddleware, async (c) => {
   }
 
   const body = await c.req.json().catch(() => ({}));
-  let { occasion, mood, lat, lon, count = 3 } = body;
+  let { occasion, mood, lat, lon, count = 3, accessories = true, max_accessories, seed } = body;
 
   // Fall back to user profile location if not provided in request
   if (lat === undefined || lon === undefined) {
@@ -425,6 +465,9 @@ outfits.post("/generate", styleMeLimitMiddleware, async (c) => {
     lat,
     lon,
     count: Math.min(count, 5), // Max 5 outfits per generation
+    includeAccessories: accessories !== false,
+    maxAccessories: typeof max_accessories === "number" ? max_accessories : undefined,
+    seed: Number.isInteger(seed) ? seed : undefined, // Reproducible picks (e.g. for tests)
   });
 
   console.log(`[Outfits] Weather: ${weather.temperature}C (${celsiusToFahrenheit(weather.temperature)}F), ${weather.condition}`);
@@ -434,7 +477,7 @@ outfits.post("/generate", styleMeLimitMiddleware, async (c) => {
     return c.json(
       {
         error: "Could not generate outfits",
-        message: "You need at least 3 items (top, bottom, footwear) in your wardrobe",
+        message: "You need a top and bottom (or a dress) plus footwear in your wardrobe",
       },
       400
     );
@@ -574,6 +617,8 @@ outfits.post("/:id/wear", async (c) => {
       outfit_id: outfitId,
       items: outfit.items,
       occasion: outfit.occasion,
+      weather_temp: outfit.weather_temp ?? null,
+      weather_condition: outfit.weather_condition ?? null,
       worn_at: new Date().toISOString(),
       photo_url: photo_url ?? null,
       xp_awarded: xpAwarded,
@@ -989,6 +1034,50 @@ outfits.post("/:id/share", async (c) => {
   }
 });
 
+/**
+ * GET /:id/explain - Why an outfit was suggested
+ * Returns every scoring component per item and for the whole outfit, plus the
+ * rules that fired, as recorded at generation (breakdown is null for outfits
+ * generated before breakdowns were recorded)
+ */
+outfits.get("/:id/explain", async (c) => {
+  const userId = getUserId(c);
+  const outfitId = c.req.param("id");
+
+  const { data: outfit, error } = await supabaseAdmin
+    .from("generated_outfits")
+    .select(
+      "id, items, occasion, mood, style_score, color_harmony_score, taste_alignment_score, weather_score, confidence_score, weather_temp, weather_condition, score_breakdown, generated_at"
+    )
+    .eq("id", outfitId)
+    .eq("user_id", userId)
+    .single();
+
+  if (error || !outfit) {
+    return c.json({ error: "Outfit not found" }, 404);
+  }
+
+  return c.json({
+    id: outfit.id,
+    item_ids: outfit.items,
+    occasion: outfit.occasion,
+    mood: outfit.mood,
+    weather: {
+      temperature: outfit.weather_temp,
+      condition: outfit.weather_condition,
+    },
+    scores: {
+      style: outfit.style_score,
+      color_harmony: outfit.color_harmony_score,
+      taste_alignment: outfit.taste_alignment_score,
+      weather: outfit.weather_score,
+      confidence: outfit.confidence_score,
+    },
+    breakdown: (outfit.score_breakdown as OutfitScoreBreakdown | null) ?? null,
+    generated_at: outfit.generated_at,
+  });
+});
+
 /**
  * GET /saved - Get saved outfits
  */
@@ -1155,6 +1244,9 @@ outfits.post("/regenerate", async (c) => {
     lon,
     count = 3,
     previousOutfitIds = [],
+    accessories = true,
+    max_accessories,
+    seed,
   } = body;
 
   // Build constraints from feedback type
@@ -1210,6 +1302,9 @@ outfits.post("/regenerate", async (c) => {
     lon,
     count: Math.min(count, 5),
     constraints,
+    includeAccessories: accessories !== false,
+    maxAccessories: typeof max_accessories === "number" ? max_accessories : undefined,
+    seed: Number.isInteger(seed) ? seed : undefined, // Reproducible picks (e.g. for tests)
   });
 
   if (generatedOutfits.length === 0) {
@@ -1271,6 +1366,337 @@ outfits.post("/regenerate", async (c) => {
   });
 });
 
+interface PlannedOutfitRow {
+  id: string;
+  items: string[] | null;
+  target_date: string;
+  is_locked: boolean | null;
+  plan_id: string | null;
+  plan_location: PlanLocation | null;
+  occasion: string | null;
+  outfit_name: string | null;
+  vibe: string | null;
+  reasoning: string | null;
+  styling_tip: string | null;
+  color_harmony_description: string | null;
+  style_score: number | null;
+  confidence_score: number | null;
+  layers: OutfitLayer[] | null;
+  weather_temp: number | null;
+  weather_condition: string | null;
+}
+
+/**
+ * Build the iOS response for a day of a plan from a generated_outfits row
+ */
+async function transformPlannedOutfit(outfit: PlannedOutfitRow) {
+  const { data: items } = await supabaseAdmin
+    .from("wardrobe_items")
+    .select(
+      "id, category, subcategory, processed_image_url, original_image_url, colors, item_name"
+    )
+    .in("id", outfit.items || []);
+
+  const outfitData: GeneratedOutfitData = {
+    id: outfit.id,
+    item_ids: outfit.items || [],
+    name: outfit.outfit_name || "Styled Outfit",
+    vibe: outfit.vibe || "Casual",
+    reasoning: outfit.reasoning || "",
+    styling_tip: outfit.styling_tip || undefined,
+    color_harmony_description: outfit.color_harmony_description || undefined,
+    style_score: outfit.style_score || 0.8,
+    confidence_score: outfit.confidence_score || 0.8,
+    occasion_match: !!outfit.occasion,
+    layers: outfit.layers,
+  };
+
+  return {
+    date: outfit.target_date,
+    locked: !!outfit.is_locked,
+    plan_id: outfit.plan_id,
+    occasion: outfit.occasion ?? null,
+    location: outfit.plan_location ?? null,
+    weather:
+      outfit.weather_temp != null
+        ? {
+            temp_fahrenheit: celsiusToFahrenheit(outfit.weather_temp),
+            condition: outfit.weather_condition,
+          }
+        : null,
+    outfit: transformOutfitForIOS(outfitData, items || [], outfit.id),
+  };
+}
+
+/**
+ * POST /plan - Plan outfits for a date range (future days or a multi-day trip)
+ * Body: { start_date, end_date, cooldown_days?, name?, location?, days?: [{ date, location?, occasion? }] }
+ * Items don't repeat within cooldown_days of each other; locked days are kept as-is.
+ */
+outfits.post("/plan", async (c) => {
+  const userId = getUserId(c);
+
+  // Require AI consent before generating outfits
+  if (!(await hasAIConsent(userId))) {
+    return c.json({ error: "AI data consent required before processing" }, 403);
+  }
+
+  const body = await c.req.json().catch(() => ({}));
+  const {
+    start_date,
+    end_date,
+    cooldown_days = DEFAULT_PLAN_COOLDOWN_DAYS,
+    name,
+    location,
+    days = [],
+  } = body;
+
+  if (!isValidPlanDate(start_date) || !isValidPlanDate(end_date)) {
+    return c.json({ error: "start_date and end_date must be YYYY-MM-DD" }, 400);
+  }
+  if (end_date < start_date) {
+    return c.json({ error: "end_date must be on or after start_date" }, 400);
+  }
+
+  // Allow one day of slack for users ahead of UTC
+  const earliest = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString().split("T")[0];
+  if (start_date < earliest) {
+    return c.json({ error: "Cannot plan outfits for past dates" }, 400);
+  }
+
+  const dates = getDateRange(start_date, end_date);
+  if (dates.length > MAX_PLAN_DAYS) {
+    return c.json({ error: `Plans can cover at most ${MAX_PLAN_DAYS} days` }, 400);
+  }
+
+  if (typeof cooldown_days !== "number" || cooldown_days < 0 || cooldown_days > 30) {
+    return c.json({ error: "cooldown_days must be between 0 and 30" }, 400);
+  }
+
+  if (location != null && !isValidPlanLocation(location)) {
+    return c.json({ error: "location must include lat/lon or city" }, 400);
+  }
+
+  if (!Array.isArray(days)) {
+    return c.json({ error: "days must be an array" }, 400);
+  }
+
+  const dayInputs: PlanDayInput[] = [];
+  for (const day of days) {
+    if (!isValidPlanDate(day?.date) || !dates.includes(day.date)) {
+      return c.json({ error: `Invalid day date: ${day?.date}` }, 400);
+    }
+    if (day.location != null && !isValidPlanLocation(day.location)) {
+      return c.json({ error: `Invalid location for ${day.date}` }, 400);
+    }
+    if (day.occasion != null && typeof day.occasion !== "string") {
+      return c.json({ error: `Invalid occasion for ${day.date}` }, 400);
+    }
+    dayInputs.push({ date: day.date, location: day.location, occasion: day.occasion });
+  }
+
+  // Fall back to the user's saved location
+  let defaultLocation: PlanLocation | null = location ?? null;
+  if (!defaultLocation) {
+    const { data: profile } = await supabaseAdmin
+      .from("user_profiles")
+      .select("location_lat, location_lng")
+      .eq("id", userId)
+      .single();
+
+    if (profile?.location_lat && profile?.location_lng) {
+      defaultLocation = { lat: profile.location_lat, lon: profile.location_lng };
+    }
+  }
+
+  addBreadcrumb("outfits", "Creating outfit plan", { start_date, end_date });
+
+  try {
+    const plan = await createOutfitPlan({
+      userId,
+      startDate: start_date,
+      endDate: end_date,
+      cooldownDays: cooldown_days,
+      name: typeof name === "string" ? name : null,
+      days: dayInputs,
+      defaultLocation,
+    });
+
+    const { data: rows } = await supabaseAdmin
+      .from("generated_outfits")
+      .select("*")
+      .in("id", plan.days.map((d) => d.outfit_id).filter(Boolean) as string[]);
+
+    const rowsById = new Map((rows || []).map((row) => [row.id, row]));
+
+    const calendar = await Promise.all(
+      plan.days.map(async (day) => {
+        const row = day.outfit_id ? rowsById.get(day.outfit_id) : null;
+        const transformed = row ? await transformPlannedOutfit(row) : null;
+        return {
+          date: day.date,
+          locked: day.locked,
+          occasion: day.occasion,
+          location: day.location,
+          weather: formatWeatherResponse(day.weather),
+          cooldown_relaxed: day.cooldown_relaxed,
+          outfit: transformed?.outfit ?? null,
+        };
+      })
+    );
+
+    return c.json({
+      plan_id: plan.plan_id,
+      start_date,
+      end_date,
+      cooldown_days: plan.cooldown_days,
+      days: calendar,
+    });
+  } catch (error) {
+    console.error("[Outfits] Plan creation failed:", error);
+    return c.json({ error: "Failed to create outfit plan" }, 500);
+  }
+});
+
+/**
+ * GET /plan - Get planned outfits in a date range
+ * Query: start_date, end_date (YYYY-MM-DD)
+ */
+outfits.get("/plan", async (c) => {
+  const userId = getUserId(c);
+  const startDate = c.req.query("start_date");
+  const endDate = c.req.query("end_date");
+
+  if (!isValidPlanDate(startDate) || !isValidPlanDate(endDate)) {
+    return c.json({ error: "start_date and end_date must be YYYY-MM-DD" }, 400);
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from("generated_outfits")
+    .select("*")
+    .eq("user_id", userId)
+    .not("plan_id", "is", null)
+    .gte("target_date", startDate)
+    .lte("target_date", endDate)
+    .order("target_date", { ascending: true });
+
+  if (error) {
+    console.error("[Outfits] Failed to fetch plan:", error);
+    return c.json({ error: "Failed to fetch planned outfits" }, 500);
+  }
+
+  const days = await Promise.all((data || []).map(transformPlannedOutfit));
+
+  return c.json({ start_date: startDate, end_date: endDate, days });
+});
+
+/**
+ * PATCH /plan/:outfitId - Edit, lock/unlock or regenerate a planned outfit
+ * Body: { item_ids?, is_locked?, occasion?, regenerate? }
+ */
+outfits.patch("/plan/:outfitId", async (c) => {
+  const userId = getUserId(c);
+  const outfitId = c.req.param("outfitId");
+  const body = await c.req.json().catch(() => ({}));
+  const { item_ids, is_locked, occasion, regenerate } = body;
+
+  const { data: existing } = await supabaseAdmin
+    .from("generated_outfits")
+    .select("id, plan_id, is_locked, layers")
+    .eq("id", outfitId)
+    .eq("user_id", userId)
+    .single();
+
+  if (!existing?.plan_id) {
+    return c.json({ error: "Planned outfit not found" }, 404);
+  }
+
+  if (regenerate) {
+    if (existing.is_locked) {
+      return c.json({ error: "Unlock this outfit before regenerating it" }, 409);
+    }
+    if (!(await hasAIConsent(userId))) {
+      return c.json({ error: "AI data consent required before processing" }, 403);
+    }
+
+    const result = await regeneratePlannedDay(userId, outfitId);
+    if (!result) {
+      return c.json({ error: "Could not regenerate outfit for this day" }, 400);
+    }
+
+    const { data: row } = await supabaseAdmin
+      .from("generated_outfits")
+      .select("*")
+      .eq("id", result.outfitId)
+      .single();
+
+    return c.json({
+      ...(await transformPlannedOutfit(row!)),
+      cooldown_relaxed: result.cooldownRelaxed,
+    });
+  }
+
+  const updates: Record<string, unknown> = {};
+
+  if (item_ids !== undefined) {
+    if (!Array.isArray(item_ids) || item_ids.length === 0 || item_ids.some((id) => typeof id !== "string")) {
+      return c.json({ error: "item_ids must be a non-empty array of item IDs" }, 400);
+    }
+
+    // Every item must belong to the user and be active
+    const { data: ownedItems } = await supabaseAdmin
+      .from("wardrobe_items")
+      .select("id")
+      .eq("user_id", userId)
+      .eq("is_archived", false)
+      .in("id", item_ids);
+
+    if ((ownedItems?.length ?? 0) !== new Set(item_ids).size) {
+      return c.json({ error: "One or more items not found" }, 400);
+    }
+
+    updates.items = item_ids;
+    // Keep layer info only for items still in the outfit
+    const layers = ((existing.layers as OutfitLayer[] | null) || []).filter((layer) =>
+      item_ids.includes(layer.item_id)
+    );
+    updates.layers = layers.length > 0 ? layers : null;
+  }
+
+  if (is_locked !== undefined) {
+    if (typeof is_locked !== "boolean") {
+      return c.json({ error: "is_locked must be a boolean" }, 400);
+    }
+    updates.is_locked = is_locked;
+  }
+
+  if (occasion !== undefined) {
+    if (occasion !== null && typeof occasion !== "string") {
+      return c.json({ error: "occasion must be a string" }, 400);
+    }
+    updates.occasion = occasion;
+  }
+
+  if (Object.keys(updates).length === 0) {
+    return c.json({ error: "No changes provided" }, 400);
+  }
+
+  const { data: updated, error } = await supabaseAdmin
+    .from("generated_outfits")
+    .update(updates)
+    .eq("id", outfitId)
+    .eq("user_id", userId)
+    .select("*")
+    .single();
+
+  if (error || !updated) {
+    console.error("[Outfits] Failed to update planned outfit:", error);
+    return c.json({ error: "Failed to update planned outfit" }, 500);
+  }
+
+  return c.json(await transformPlannedOutfit(updated));
+});
+
 /**
  * POST /:id/verify - Verify outfit with photo proof
  * Awards +15 bonus XP (total 25 XP for verified outfit: 10 wear + 15 verify)
@@ -1399,7 +1825,7 @@ outfits.get("/moods", async (c) => {
     moods: AVAILABLE_MOODS,
     pro_required: !isPro,
     message: isPro
-      ? "Select a mood to filter outfit suggestions"
+      ? "Select a mood to steer outfit suggestions"
       : "Mood filtering is a Pro feature. Upgrade to unlock personalized moods.",
   });
 });
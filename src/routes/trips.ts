@@ -0,0 +1,281 @@
+/**
+ * Trips Routes
+ * Packing lists built from the outfits a trip needs
+ */
+
+import { Hono } from "hono";
+import { supabaseAdmin } from "../services/supabase.js";
+import { getUserId } from "../middleware/auth.js";
+import { hasAIConsent } from "../middleware/aiConsent.js";
+import { tripCreateLimit } from "../middleware/rateLimit.js";
+import { addBreadcrumb } from "../utils/sentry.js";
+import {
+  createTrip,
+  MAX_TRIP_DAYS,
+  MAX_ACTIVITIES_PER_DAY,
+  type TripActivity,
+} from "../services/packingList.js";
+import {
+  getDateRange,
+  isValidPlanDate,
+  isValidPlanLocation,
+  DEFAULT_PLAN_COOLDOWN_DAYS,
+} from "../services/outfitPlanner.js";
+import { getWardrobeCoverage } from "../services/outfitBuilder.js";
+
+type Variables = {
+  userId: string;
+  email: string;
+};
+
+const trips = new Hono<{ Variables: Variables }>();
+
+/**
+ * POST / - Create a trip and its packing list
+ * Body: { destination: { city } | { lat, lon }, start_date, end_date, activities?: [{ date, occasion }], name?, cooldown_days? }
+ */
+trips.post("/", tripCreateLimit, async (c) => {
+  const userId = getUserId(c);
+
+  // Require AI consent before generating outfits
+  if (!(await hasAIConsent(userId))) {
+    return c.json({ error: "AI data consent required before processing" }, 403);
+  }
+
+  const body = await c.req.json().catch(() => ({}));
+  const {
+    destination,
+    start_date,
+    end_date,
+    activities = [],
+    name,
+    cooldown_days = DEFAULT_PLAN_COOLDOWN_DAYS,
+  } = body;
+
+  if (!isValidPlanLocation(destination)) {
+    return c.json({ error: "destination must include lat/lon or city" }, 400);
+  }
+
+  if (!isValidPlanDate(start_date) || !isValidPlanDate(end_date)) {
+    return c.json({ error: "start_date and end_date must be YYYY-MM-DD" }, 400);
+  }
+  if (end_date < start_date) {
+    return c.json({ error: "end_date must be on or after start_date" }, 400);
+  }
+
+  const dates = getDateRange(start_date, end_date);
+  if (dates.length > MAX_TRIP_DAYS) {
+    return c.json({ error: `Trips can cover at most ${MAX_TRIP_DAYS} days` }, 400);
+  }
+
+  if (typeof cooldown_days !== "number" || cooldown_days < 0 || cooldown_days > 30) {
+    return c.json({ error: "cooldown_days must be between 0 and 30" }, 400);
+  }
+
+  if (!Array.isArray(activities)) {
+    return c.json({ error: "activities must be an array" }, 400);
+  }
+
+  const tripActivities: TripActivity[] = [];
+  for (const activity of activities) {
+    if (!isValidPlanDate(activity?.date) || !dates.includes(activity.date)) {
+      return c.json({ error: `Invalid activity date: ${activity?.date}` }, 400);
+    }
+    if (typeof activity.occasion !== "string" || activity.occasion.trim().length === 0) {
+      return c.json({ error: `Invalid occasion for ${activity.date}` }, 400);
+    }
+    tripActivities.push({ date: activity.date, occasion: activity.occasion.trim() });
+  }
+
+  const perDay = new Map<string, number>();
+  for (const activity of tripActivities) {
+    perDay.set(activity.date, (perDay.get(activity.date) || 0) + 1);
+  }
+  if ([...perDay.values()].some((n) => n > MAX_ACTIVITIES_PER_DAY)) {
+    return c.json({ error: `At most ${MAX_ACTIVITIES_PER_DAY} activities per day` }, 400);
+  }
+
+  // Check the wardrobe can make an outfit before generating one per day
+  const { data: items } = await supabaseAdmin
+    .from("wardrobe_items")
+    .select("category, subcategory")
+    .eq("user_id", userId)
+    .eq("is_archived", false)
+    .eq("processing_status", "completed");
+
+  if (!items || !getWardrobeCoverage(items).canGenerate) {
+    return c.json(
+      {
+        error: "Not enough items",
+        message: "Add at least a top, bottom, and shoes (or a dress and shoes) to plan trip outfits.",
+      },
+      400
+    );
+  }
+
+  addBreadcrumb("trips", "Creating trip", { start_date, end_date, activities: tripActivities.length });
+
+  try {
+    const trip = await createTrip({
+      userId,
+      name: typeof name === "string" ? name : null,
+      destination,
+      startDate: start_date,
+      endDate: end_date,
+      activities: tripActivities,
+      cooldownDays: cooldown_days,
+    });
+
+    if (!trip) {
+      return c.json(
+        {
+          error: "Could not build a packing list",
+          message: "Add more items to your wardrobe to plan trip outfits.",
+        },
+        400
+      );
+    }
+
+    return c.json({
+      ...trip,
+      packing_list: trip.packing_list.map((item) => ({ ...item, is_packed: false })),
+      item_count: trip.packing_list.length,
+      outfit_count: trip.outfits.length,
+    });
+  } catch (error) {
+    console.error("[Trips] Trip creation failed:", error);
+    return c.json({ error: "Failed to create trip" }, 500);
+  }
+});
+
+/**
+ * GET / - List user's trips
+ */
+trips.get("/", async (c) => {
+  const userId = getUserId(c);
+
+  const { data, error } = await supabaseAdmin
+    .from("trips")
+    .select("id, name, destination, start_date, end_date, created_at")
+    .eq("user_id", userId)
+    .order("start_date", { ascending: false });
+
+  if (error) {
+    console.error("[Trips] Failed to list trips:", error);
+    return c.json({ error: "Failed to fetch trips" }, 500);
+  }
+
+  return c.json({ trips: data || [] });
+});
+
+/**
+ * GET /:id - Get a trip with its outfits and check-off packing list
+ */
+trips.get("/:id", async (c) => {
+  const userId = getUserId(c);
+  const tripId = c.req.param("id");
+
+  const { data: trip } = await supabaseAdmin
+    .from("trips")
+    .select("*")
+    .eq("id", tripId)
+    .eq("user_id", userId)
+    .single();
+
+  if (!trip) {
+    return c.json({ error: "Trip not found" }, 404);
+  }
+
+  const { data: packingItems } = await supabaseAdmin
+    .from("trip_packing_items")
+    .select("item_id, outfit_count, is_packed, packed_at")
+    .eq("trip_id", tripId);
+
+  const itemIds = (packingItems || []).map((p) => p.item_id);
+  const { data: items } = itemIds.length
+    ? await supabaseAdmin
+        .from("wardrobe_items")
+        .select("id, category, subcategory, item_name, processed_image_url, original_image_url")
+        .in("id", itemIds)
+    : { data: [] };
+
+  const itemsMap = new Map((items || []).map((item) => [item.id, item]));
+
+  const packingList = (packingItems || [])
+    .map((p) => {
+      const item = itemsMap.get(p.item_id);
+      return {
+        item_id: p.item_id,
+        category: item?.category ?? null,
+        item_name: item?.item_name ?? null,
+        image_url: item?.processed_image_url || item?.original_image_url || null,
+        outfit_count: p.outfit_count,
+        is_packed: p.is_packed,
+        packed_at: p.packed_at,
+      };
+    })
+    .sort((a, b) => b.outfit_count - a.outfit_count);
+
+  return c.json({
+    ...trip,
+    packing_list: packingList,
+    packed_count: packingList.filter((p) => p.is_packed).length,
+    item_count: packingList.length,
+  });
+});
+
+/**
+ * PATCH /:id/items/:itemId - Check an item off (or back on) the packing list
+ * Body: { is_packed: boolean }
+ */
+trips.patch("/:id/items/:itemId", async (c) => {
+  const userId = getUserId(c);
+  const tripId = c.req.param("id");
+  const itemId = c.req.param("itemId");
+
+  const body = await c.req.json().catch(() => ({}));
+  if (typeof body.is_packed !== "boolean") {
+    return c.json({ error: "is_packed must be a boolean" }, 400);
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from("trip_packing_items")
+    .update({
+      is_packed: body.is_packed,
+      packed_at: body.is_packed ? new Date().toISOString() : null,
+    })
+    .eq("trip_id", tripId)
+    .eq("item_id", itemId)
+    .eq("user_id", userId)
+    .select("item_id, is_packed, packed_at")
+    .single();
+
+  if (error || !data) {
+    return c.json({ error: "Packing list item not found" }, 404);
+  }
+
+  return c.json(data);
+});
+
+/**
+ * DELETE /:id - Delete a trip and its packing list
+ */
+trips.delete("/:id", async (c) => {
+  const userId = getUserId(c);
+  const tripId = c.req.param("id");
+
+  const { error } = await supabaseAdmin
+    .from("trips")
+    .delete()
+    .eq("id", tripId)
+    .eq("user_id", userId);
+
+  if (error) {
+    console.error("[Trips] Failed to delete trip:", error);
+    return c.json({ error: "Failed to delete trip" }, 500);
+  }
+
+  return c.json({ success: true });
+});
+
+export default trips;
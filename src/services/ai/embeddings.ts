@@ -6,6 +6,20 @@ interface FashionSigLIPOutput {
   embedding: number[];
 }
 
+function validateEmbedding(result: FashionSigLIPOutput): number[] {
+  if (!result.embedding || !Array.isArray(result.embedding)) {
+    throw new Error("FashionSigLIP did not return valid embedding");
+  }
+
+  if (result.embedding.length !== 768) {
+    throw new Error(
+      `Expected 768-dim embedding, got ${result.embedding.length}`
+    );
+  }
+
+  return result.embedding;
+}
+
 /**
  * Generate a 768-dimensional embedding for a clothing image using FashionSigLIP
  * @param imageUrl - URL of the image to embed
@@ -20,15 +34,23 @@ export async function generateEmbedding(imageUrl: string): Promise<number[]> {
     image_url: imageUrl,
   });
 
-  if (!result.embedding || !Array.isArray(result.embedding)) {
-    throw new Error("FashionSigLIP did not return valid embedding");
-  }
+  return validateEmbedding(result);
+}
 
-  if (result.embedding.length !== 768) {
-    throw new Error(
-      `Expected 768-dim embedding, got ${result.embedding.length}`
-    );
+/**
+ * Embed a text description with FashionSigLIP's text tower, in the same space
+ * as item image embeddings (so it can be compared with them directly)
+ * @param text - Description of the clothing, e.g. "navy wool coat"
+ * @returns 768-dimensional embedding array
+ */
+export async function generateTextEmbedding(text: string): Promise<number[]> {
+  if (!FASHIONSIGLIP_ENDPOINT) {
+    throw new Error("RUNPOD_FASHIONSIGLIP_ENDPOINT not configured");
   }
 
-  return result.embedding;
+  const result = await callRunPod<FashionSigLIPOutput>(FASHIONSIGLIP_ENDPOINT, {
+    text,
+  });
+
+  return validateEmbedding(result);
 }
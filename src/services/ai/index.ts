@@ -1,10 +1,18 @@
 export { removeBackground } from "./backgroundRemoval.js";
-export { generateEmbedding } from "./embeddings.js";
+export { generateEmbedding, generateTextEmbedding } from "./embeddings.js";
 export { callRunPod } from "./runpod.js";
 export { analyzeWithFlorence } from "./visionAnalysis.js";
 export type { VisionAnalysisResult } from "./visionAnalysis.js";
-export { tagWithGemini } from "./itemTagging.js";
-export type { ItemTags } from "./itemTagging.js";
+export { detectObjects } from "./objectDetection.js";
+export type { DetectedObject } from "./objectDetection.js";
+export {
+  tagWithGemini,
+  TAG_ENUMS,
+  TAGGING_PROMPT_VERSION,
+  DEFAULT_TAGS_MODEL,
+  PRIMARY_MODEL as PRIMARY_TAGGING_MODEL,
+} from "./itemTagging.js";
+export type { ItemTags, TaggingCorrectionExample, TaggingHints, TaggingResult } from "./itemTagging.js";
 export {
   callOpenRouter,
   callOpenRouterWithFallback,
@@ -26,7 +26,43 @@ export interface ItemTags {
   length: "cropped" | "regular" | "longline";
 }
 
-const PRIMARY_MODEL = "google/gemini-2.0-flash-001";
+// Allowed values from the tagging schema (keep in sync with SYSTEM_PROMPT)
+export const TAG_ENUMS = {
+  category: ["tops", "bottoms", "dresses", "shoes", "outerwear", "accessories", "bags", "jewelry"],
+  pattern: ["solid", "striped", "plaid", "floral", "geometric", "abstract", "animal", "camo", "tie-dye", "other"],
+  occasions: ["casual", "work", "formal", "athletic", "date", "party"],
+  seasons: ["spring", "summer", "fall", "winter"],
+  style_vibes: ["minimalist", "streetwear", "preppy", "bohemian", "classic", "edgy", "romantic", "sporty"],
+  gender: ["male", "female", "unisex"],
+  fit: ["oversized", "relaxed", "regular", "fitted", "slim"],
+  length: ["cropped", "regular", "longline"],
+} as const;
+
+// A user's past fix to AI tags, shown to the model as a few-shot example
+export interface TaggingCorrectionExample {
+  description: string; // Vision caption of the corrected item
+  corrections: Array<{ field: keyof ItemTags; from: unknown; to: unknown }>;
+}
+
+// Facts already known about the item (e.g. from an imported product listing)
+export interface TaggingHints {
+  name?: string;
+  brand?: string;
+  color?: string;
+}
+
+export interface TaggingResult {
+  tags: ItemTags;
+  model: string; // Model that produced the tags, or DEFAULT_TAGS_MODEL
+  prompt_version: number;
+}
+
+// Bump whenever SYSTEM_PROMPT changes so older items can be found and retagged
+export const TAGGING_PROMPT_VERSION = 1;
+// Recorded as the model when every model failed and placeholder tags were used
+export const DEFAULT_TAGS_MODEL = "defaults";
+
+export const PRIMARY_MODEL = "google/gemini-2.0-flash-001";
 const FALLBACK_MODELS = [
   "google/gemini-2.0-flash-lite-001",
   "meta-llama/llama-3.3-70b-instruct",
@@ -38,7 +74,7 @@ const TIMEOUT_MS = 30000;
 const SYSTEM_PROMPT = `You are a fashion AI assistant. Analyze clothing items and return structured JSON.
 Output ONLY valid JSON with this exact schema:
 {
-  "category": "tops|bottoms|shoes|outerwear|accessories|bags|jewelry",
+  "category": "tops|bottoms|dresses|shoes|outerwear|accessories|bags|jewelry",
   "subcategory": "string (e.g., 't-shirt', 'jeans', 'sneakers')",
   "colors": {
     "primary": "string",
@@ -58,7 +94,8 @@ Output ONLY valid JSON with this exact schema:
 }
 
 Rules:
-- category MUST be one of: tops, bottoms, shoes, outerwear, accessories, bags, jewelry
+- category MUST be one of: tops, bottoms, dresses, shoes, outerwear, accessories, bags, jewelry
+- use "dresses" for any one-piece garment covering top and bottom (dresses, jumpsuits, rompers, playsuits, overalls) and put the specific type in subcategory
 - formality_score MUST be an integer from 1 (very casual) to 10 (very formal)
 - occasions and seasons should include ALL that apply
 - style_vibes should include 1-3 that best describe the item
@@ -66,13 +103,13 @@ Rules:
   - "male" for menswear items (men's suits, dress shirts, ties, men's shorts, etc.)
   - "female" for womenswear items (dresses, skirts, women's blouses, heels, etc.)
   - "unisex" for gender-neutral items (plain t-shirts, hoodies, jeans, sneakers, basic accessories)
-- fit classification (for tops, bottoms, outerwear):
+- fit classification (for tops, bottoms, dresses, outerwear):
   - "oversized" for loose, boxy, very relaxed fits with extra volume
   - "relaxed" for comfortable, slightly loose but not oversized
   - "regular" for standard fit, not too tight or loose
   - "fitted" for form-following, tailored fits
   - "slim" for very close to body, tight fits
-- length classification (for tops, bottoms, outerwear):
+- length classification (for tops, bottoms, dresses, outerwear):
   - "cropped" for items that end above natural length (crop tops, cropped jackets, ankle pants)
   - "regular" for standard length items
   - "longline" for items longer than standard (longline tees, maxi skirts, full-length coats)
@@ -123,25 +160,70 @@ function createDefaultTags(colors: string[]): ItemTags {
   };
 }
 
+/**
+ * Format a user's past corrections as few-shot guidance for the prompt
+ */
+function formatCorrectionExamples(examples: TaggingCorrectionExample[]): string {
+  const lines = examples.map((example) => {
+    const fixes = example.corrections
+      .map((c) => `${c.field}: ${JSON.stringify(c.from)} -> ${JSON.stringify(c.to)}`)
+      .join("; ");
+    return `- Description: ${example.description}\n  Corrected: ${fixes}`;
+  });
+
+  return `This user has corrected tags on similar items before. Follow their preferences where they apply:
+${lines.join("\n")}
+
+`;
+}
+
+/**
+ * Format known product facts for the prompt
+ */
+function formatHints(hints: TaggingHints): string {
+  const lines = [
+    hints.name && `Product name: ${hints.name}`,
+    hints.brand && `Brand: ${hints.brand}`,
+    hints.color && `Listed color: ${hints.color}`,
+  ].filter(Boolean);
+
+  return lines.length > 0 ? `\n\nFrom the product listing (treat as correct):\n${lines.join("\n")}` : "";
+}
+
+/**
+ * Known facts win over what the model inferred; the model only fills the gaps
+ */
+function applyHints(tags: ItemTags, hints: TaggingHints): ItemTags {
+  return {
+    ...tags,
+    brand: hints.brand ?? tags.brand,
+    colors: hints.color ? { ...tags.colors, primary: hints.color.toLowerCase() } : tags.colors,
+  };
+}
+
 /**
  * Tag a clothing item using Gemini via OpenRouter
  * @param caption - Raw description from vision analysis
  * @param colors - Extracted color keywords
- * @returns Structured item tags
+ * @param examples - The user's recent tag corrections, used as few-shot examples
+ * @param hints - Known product facts (name, brand, color) that override the model's guesses
+ * @returns Structured item tags plus the model and prompt version that produced them
  */
 export async function tagWithGemini(
   caption: string,
-  colors: string[]
-): Promise<ItemTags> {
+  colors: string[],
+  examples: TaggingCorrectionExample[] = [],
+  hints: TaggingHints = {}
+): Promise<TaggingResult> {
   if (!OPENROUTER_API_KEY) {
     throw new Error("OPENROUTER_API_KEY not configured");
   }
 
-  const userMessage = `Analyze this clothing item and return the JSON:
+  const userMessage = `${examples.length > 0 ? formatCorrectionExamples(examples) : ""}Analyze this clothing item and return the JSON:
 
 Description: ${caption}
 
-Detected colors: ${colors.length > 0 ? colors.join(", ") : "not detected"}
+Detected colors: ${colors.length > 0 ? colors.join(", ") : "not detected"}${formatHints(hints)}
 
 Remember: Output ONLY valid JSON, no other text.`;
 
@@ -205,7 +287,7 @@ Remember: Output ONLY valid JSON, no other text.`;
         }
 
         console.log(`[AI] Successfully tagged with ${model}`);
-        return tags;
+        return { tags: applyHints(tags, hints), model, prompt_version: TAGGING_PROMPT_VERSION };
       } catch (err) {
         const errorMessage = err instanceof Error ? err.message : "Unknown error";
         console.warn(`[AI] ${model} attempt ${attempt + 1} failed: ${errorMessage}`);
@@ -225,5 +307,9 @@ Remember: Output ONLY valid JSON, no other text.`;
     level: "warning",
     extra: { caption, colors },
   });
-  return createDefaultTags(colors);
+  return {
+    tags: applyHints(createDefaultTags(colors), hints),
+    model: DEFAULT_TAGS_MODEL,
+    prompt_version: TAGGING_PROMPT_VERSION,
+  };
 }
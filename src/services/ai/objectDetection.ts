@@ -0,0 +1,77 @@
+import Replicate from "replicate";
+
+const REPLICATE_API_TOKEN = process.env.REPLICATE_API_TOKEN;
+
+export interface DetectedObject {
+  label: string;
+  bbox: [number, number, number, number]; // x1, y1, x2, y2 in source image pixels
+}
+
+/**
+ * Parse Florence-2 object detection output.
+ * The model returns a Python-style dict string, e.g.
+ * "{'<OD>': {'bboxes': [[x1, y1, x2, y2], ...], 'labels': ['shirt', ...]}}"
+ */
+export function parseFlorenceDetections(output: unknown): DetectedObject[] {
+  let raw: unknown = output;
+  if (raw && typeof raw === "object" && "results" in raw) {
+    raw = (raw as { results: unknown }).results;
+  }
+  if (typeof raw === "string") {
+    try {
+      raw = JSON.parse(raw.replace(/'/g, '"'));
+    } catch {
+      return [];
+    }
+  }
+  if (!raw || typeof raw !== "object") return [];
+
+  const result = ((raw as Record<string, unknown>)["<OD>"] ?? raw) as {
+    bboxes?: unknown;
+    labels?: unknown;
+  };
+  if (!Array.isArray(result.bboxes) || !Array.isArray(result.labels)) return [];
+
+  const detections: DetectedObject[] = [];
+  result.bboxes.forEach((bbox, index) => {
+    const label = result.labels && (result.labels as unknown[])[index];
+    if (
+      typeof label === "string" &&
+      Array.isArray(bbox) &&
+      bbox.length === 4 &&
+      bbox.every((value) => typeof value === "number" && Number.isFinite(value))
+    ) {
+      detections.push({ label: label.trim().toLowerCase(), bbox: bbox as DetectedObject["bbox"] });
+    }
+  });
+  return detections;
+}
+
+/**
+ * Detect objects in a photo using Florence-2 Large on Replicate
+ * @param imageUrl - URL of the full photo (flat lay or mirror selfie)
+ * @returns Labelled bounding boxes in the photo's pixel space
+ */
+export async function detectObjects(imageUrl: string): Promise<DetectedObject[]> {
+  if (!REPLICATE_API_TOKEN) {
+    throw new Error("REPLICATE_API_TOKEN not configured");
+  }
+
+  const replicate = new Replicate({ auth: REPLICATE_API_TOKEN });
+
+  console.log(`[AI] Calling Florence-2 for object detection`);
+
+  const output = await replicate.run(
+    "lucataco/florence-2-large:da53547e17d45b9cfb48174b2f18af8b83ca020fa76db62136bf9c6616762595",
+    {
+      input: {
+        image: imageUrl,
+        task_input: "Object Detection",
+      },
+    }
+  );
+
+  const detections = parseFlorenceDetections(output);
+  console.log(`[AI] Florence-2 detected ${detections.length} object(s)`);
+  return detections;
+}
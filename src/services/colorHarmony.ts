@@ -76,6 +76,9 @@ const COLOR_HSL: Record<string, { h: number; s: number; l: number }> = {
   pattern: { h: 0, s: 0, l: 50 },
 };
 
+// Color names we recognise (e.g. in search queries)
+export const COLOR_NAMES = Object.keys(COLOR_HSL).filter((name) => name !== "pattern");
+
 // Neutral colors that go with almost everything
 const NEUTRALS = new Set([
   "black",
@@ -124,10 +127,31 @@ function getColorHSL(color: string): { h: number; s: number; l: number } | null
   return null;
 }
 
+/**
+ * Saturation and lightness (0-100) of a named color, or null if unknown
+ */
+export function getColorTone(color: string): { saturation: number; lightness: number } | null {
+  const hsl = getColorHSL(color);
+  return hsl ? { saturation: hsl.s, lightness: hsl.l } : null;
+}
+
+/**
+ * Lightness spread (0-100) across an outfit's primary colors: high for black + white,
+ * low for tonal outfits
+ */
+export function calculateOutfitContrast(items: ColorInfo[]): number {
+  const lightness = items
+    .map((item) => (item.primary ? getColorHSL(item.primary)?.l : undefined))
+    .filter((l): l is number => l !== undefined);
+
+  if (lightness.length < 2) return 0;
+  return Math.max(...lightness) - Math.min(...lightness);
+}
+
 /**
  * Check if a color is neutral
  */
-function isNeutral(color: string): boolean {
+export function isNeutral(color: string): boolean {
   const normalized = normalizeColor(color);
   if (NEUTRALS.has(normalized)) return true;
 
@@ -213,7 +237,7 @@ function scoreColorPair(color1: string, color2: string): number {
 export interface ColorInfo {
   primary?: string | null | undefined;
   secondary?: string[] | null | undefined;
-  accent?: string | null | undefined;
+  accent?: string[] | null | undefined;
 }
 
 /**
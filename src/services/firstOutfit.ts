@@ -1,28 +1,12 @@
 /**
  * First Outfit Auto-Generation Service
  * Automatically generates a user's first outfit when their wardrobe
- * has enough items (top + bottom + shoes)
+ * has enough items (top + bottom, or a one-piece, plus shoes)
  */
 
 import { supabaseAdmin } from "./supabase.js";
 import { generateOutfits, saveGeneratedOutfit } from "./outfitGenerator.js";
-
-// Categories that count as each slot
-const TOP_CATEGORIES = [
-  "top", "tops", "t-shirt", "t-shirts", "shirt", "shirts",
-  "blouse", "blouses", "sweater", "sweaters", "hoodie", "hoodies",
-  "cardigan", "cardigans", "polo", "polos", "tank", "tank top"
-];
-
-const BOTTOM_CATEGORIES = [
-  "bottom", "bottoms", "pants", "jeans", "shorts",
-  "skirt", "skirts", "trousers", "chinos", "joggers", "leggings"
-];
-
-const SHOE_CATEGORIES = [
-  "shoes", "footwear", "sneakers", "boots", "sandals",
-  "loafers", "heels", "flats", "oxfords", "dress shoes"
-];
+import { getWardrobeCoverage } from "./outfitBuilder.js";
 
 /**
  * Check if user has required wardrobe items and generate their first outfit
@@ -53,7 +37,7 @@ export async function checkAndGenerateFirstOutfit(userId: string): Promise<boole
     // 2. Check wardrobe composition (completed items only)
     const { data: items, error: itemsError } = await supabaseAdmin
       .from("wardrobe_items")
-      .select("category")
+      .select("category, subcategory")
       .eq("user_id", userId)
       .eq("processing_status", "completed")
       .eq("is_archived", false);
@@ -68,22 +52,18 @@ export async function checkAndGenerateFirstOutfit(userId: string): Promise<boole
       return false;
     }
 
-    const categories = items.map((i) => (i.category || "").toLowerCase());
-
-    const hasTop = categories.some((c) => TOP_CATEGORIES.includes(c));
-    const hasBottom = categories.some((c) => BOTTOM_CATEGORIES.includes(c));
-    const hasShoes = categories.some((c) => SHOE_CATEGORIES.includes(c));
+    const coverage = getWardrobeCoverage(items);
 
     console.log(
-      `[FirstOutfit] User ${userId} wardrobe: top=${hasTop}, bottom=${hasBottom}, shoes=${hasShoes}`
+      `[FirstOutfit] User ${userId} wardrobe: top=${coverage.top}, bottom=${coverage.bottom}, onepiece=${coverage.onepiece}, shoes=${coverage.footwear}`
     );
 
-    if (!hasTop || !hasBottom || !hasShoes) {
+    if (!coverage.canGenerate) {
       // Log what's missing for debugging
       const missing: string[] = [];
-      if (!hasTop) missing.push("top");
-      if (!hasBottom) missing.push("bottom");
-      if (!hasShoes) missing.push("shoes");
+      if (!coverage.onepiece && !coverage.top) missing.push("top");
+      if (!coverage.onepiece && !coverage.bottom) missing.push("bottom");
+      if (!coverage.footwear) missing.push("shoes");
       console.log(`[FirstOutfit] User ${userId} missing: ${missing.join(", ")}`);
       return false;
     }
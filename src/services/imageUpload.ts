@@ -0,0 +1,229 @@
+/**
+ * Item Image Upload
+ * Validates uploaded photos (type, size, dimensions), normalizes them to JPEG with
+ * EXIF/GPS metadata stripped (HEIC included), and stores the original plus
+ * WebP thumbnails in the wardrobe bucket. Also crops regions out of a photo.
+ */
+
+import sharp from "sharp";
+import convertHeic from "heic-convert";
+import { supabaseAdmin } from "./supabase.js";
+import { isStorageUrl } from "./itemStorage.js";
+import { safeFetch } from "../utils/safeFetch.js";
+
+export const MAX_UPLOAD_BYTES = 15 * 1024 * 1024;
+export const MIN_IMAGE_DIMENSION = 256; // Shortest side, smaller is useless for tagging
+export const MAX_IMAGE_DIMENSION = 12000; // Longest side
+export const THUMBNAIL_SIZES = [128, 256, 512] as const;
+
+// Size returned as the item's thumbnail_url
+const DEFAULT_THUMBNAIL_SIZE = 256;
+// Originals are downscaled to this before storage (plenty for the AI models)
+const MAX_STORED_DIMENSION = 2048;
+const MAX_INPUT_PIXELS = 100_000_000;
+const UPLOAD_BUCKET = "wardrobe";
+const DOWNLOAD_TIMEOUT_MS = 15 * 1000;
+
+export type ImageFormat = "jpeg" | "png" | "webp" | "heic";
+export type ThumbnailSize = (typeof THUMBNAIL_SIZES)[number];
+
+export interface NormalizedImage {
+  buffer: Buffer;
+  width: number;
+  height: number;
+  sourceFormat: ImageFormat;
+  thumbnails: Array<{ size: ThumbnailSize; buffer: Buffer }>;
+}
+
+export interface StoredImage {
+  original_image_url: string;
+  thumbnail_url: string;
+  thumbnails: Record<string, string>; // Longest side in px -> URL
+  width: number;
+  height: number;
+}
+
+export type ImageUploadError = { error: string; status: 400 | 413 | 415 };
+
+// Client-declared types we accept (the bytes are sniffed regardless)
+const ALLOWED_MIME_TYPES = new Set([
+  "image/jpeg",
+  "image/jpg",
+  "image/png",
+  "image/webp",
+  "image/heic",
+  "image/heif",
+  "application/octet-stream",
+  "",
+]);
+
+const HEIC_BRANDS = new Set(["heic", "heix", "heim", "heis", "hevc", "hevx", "mif1", "msf1"]);
+
+/**
+ * Detect the image format from its magic bytes (the client's MIME type can't be trusted)
+ */
+export function sniffImageFormat(bytes: Uint8Array): ImageFormat | null {
+  if (bytes.length < 12) return null;
+  const ascii = (start: number, end: number) => String.fromCharCode(...bytes.subarray(start, end));
+
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return "jpeg";
+  if (bytes[0] === 0x89 && ascii(1, 4) === "PNG") return "png";
+  if (ascii(0, 4) === "RIFF" && ascii(8, 12) === "WEBP") return "webp";
+  if (ascii(4, 8) === "ftyp" && HEIC_BRANDS.has(ascii(8, 12))) return "heic";
+  return null;
+}
+
+/**
+ * Re-encode as a metadata-free JPEG (capped at MAX_STORED_DIMENSION) plus WebP thumbnails
+ */
+async function encodeImage(input: Buffer, sourceFormat: ImageFormat): Promise<NormalizedImage> {
+  // rotate() bakes the EXIF orientation into the pixels; re-encoding drops all metadata (GPS included)
+  const decoded = sharp(input, { limitInputPixels: MAX_INPUT_PIXELS }).rotate();
+  const { data, info } = await decoded
+    .clone()
+    .resize(MAX_STORED_DIMENSION, MAX_STORED_DIMENSION, { fit: "inside", withoutEnlargement: true })
+    .flatten({ background: "#ffffff" })
+    .jpeg({ quality: 90, mozjpeg: true })
+    .toBuffer({ resolveWithObject: true });
+
+  const thumbnails = await Promise.all(
+    THUMBNAIL_SIZES.map(async (size) => ({
+      size,
+      buffer: await decoded
+        .clone()
+        .resize(size, size, { fit: "inside", withoutEnlargement: true })
+        .webp({ quality: 80 })
+        .toBuffer(),
+    }))
+  );
+
+  return { buffer: data, width: info.width, height: info.height, sourceFormat, thumbnails };
+}
+
+/**
+ * Validate an uploaded file and produce a metadata-free JPEG plus thumbnails
+ */
+export async function normalizeUpload(file: File): Promise<{ image: NormalizedImage } | ImageUploadError> {
+  if (!ALLOWED_MIME_TYPES.has(file.type.toLowerCase())) {
+    return { error: "Invalid file type. Allowed: JPEG, PNG, WebP, HEIC", status: 415 };
+  }
+  if (file.size === 0) {
+    return { error: "Image file is empty", status: 400 };
+  }
+  if (file.size > MAX_UPLOAD_BYTES) {
+    return { error: `Image must be at most ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB`, status: 413 };
+  }
+
+  let input: Buffer = Buffer.from(await file.arrayBuffer());
+  const sourceFormat = sniffImageFormat(input);
+  if (!sourceFormat) {
+    return { error: "Invalid file type. Allowed: JPEG, PNG, WebP, HEIC", status: 415 };
+  }
+
+  try {
+    // libvips ships without an HEVC decoder, so HEIC goes through heic-convert first
+    if (sourceFormat === "heic") {
+      input = Buffer.from(await convertHeic({ buffer: input, format: "JPEG", quality: 0.92 }));
+    }
+
+    const metadata = await sharp(input, { limitInputPixels: MAX_INPUT_PIXELS }).metadata();
+    const width = metadata.width ?? 0;
+    const height = metadata.height ?? 0;
+    if (Math.min(width, height) < MIN_IMAGE_DIMENSION) {
+      return { error: `Image must be at least ${MIN_IMAGE_DIMENSION}px on its shortest side`, status: 400 };
+    }
+    if (Math.max(width, height) > MAX_IMAGE_DIMENSION) {
+      return { error: `Image must be at most ${MAX_IMAGE_DIMENSION}px on its longest side`, status: 400 };
+    }
+
+    return { image: await encodeImage(input, sourceFormat) };
+  } catch (err) {
+    // sharp throws on truncated/corrupt data and on images over the pixel limit
+    console.error("[Upload] Failed to decode image:", err);
+    return { error: "Image could not be read", status: 400 };
+  }
+}
+
+/**
+ * Cut a region out of a normalized image (e.g. one garment of a flat lay)
+ */
+export async function cropImage(
+  image: NormalizedImage,
+  region: { left: number; top: number; width: number; height: number }
+): Promise<NormalizedImage> {
+  const crop = await sharp(image.buffer).extract(region).jpeg({ quality: 95 }).toBuffer();
+  return encodeImage(crop, "jpeg");
+}
+
+/**
+ * Download an image so it can go through the same validation as an upload.
+ * Anything outside our own storage must resolve to a public address.
+ */
+export async function downloadImage(url: string): Promise<{ file: File } | ImageUploadError> {
+  try {
+    let body: Buffer;
+    let type: string;
+
+    if (isStorageUrl(url)) {
+      const response = await fetch(url, { signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS) });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      body = Buffer.from(await response.arrayBuffer());
+      type = (response.headers.get("content-type") ?? "").split(";")[0].trim();
+    } else {
+      const result = await safeFetch(url, {
+        timeoutMs: DOWNLOAD_TIMEOUT_MS,
+        maxBytes: MAX_UPLOAD_BYTES + 1,
+        accept: "image/*",
+      });
+      body = result.body;
+      type = result.contentType;
+    }
+
+    if (body.length > MAX_UPLOAD_BYTES) {
+      return { error: `Image must be at most ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB`, status: 413 };
+    }
+    return { file: new File([new Uint8Array(body)], "image", { type: ALLOWED_MIME_TYPES.has(type) ? type : "" }) };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    if (message === "Response too large") {
+      return { error: `Image must be at most ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB`, status: 413 };
+    }
+    return { error: `Could not download image (${message})`, status: 400 };
+  }
+}
+
+async function uploadFile(path: string, buffer: Buffer, contentType: string): Promise<string> {
+  const { error } = await supabaseAdmin.storage
+    .from(UPLOAD_BUCKET)
+    .upload(path, buffer, { contentType, upsert: true });
+
+  if (error) {
+    throw new Error(`Failed to upload ${path}: ${error.message}`);
+  }
+
+  return supabaseAdmin.storage.from(UPLOAD_BUCKET).getPublicUrl(path).data.publicUrl;
+}
+
+/**
+ * Store a normalized image and its thumbnails under the user's folder
+ */
+export async function storeItemImage(userId: string, imageId: string, image: NormalizedImage): Promise<StoredImage> {
+  const original = await uploadFile(`${userId}/${imageId}.jpg`, image.buffer, "image/jpeg");
+
+  const thumbnails: Record<string, string> = {};
+  for (const thumbnail of image.thumbnails) {
+    thumbnails[thumbnail.size] = await uploadFile(
+      `${userId}/${imageId}_${thumbnail.size}.webp`,
+      thumbnail.buffer,
+      "image/webp"
+    );
+  }
+
+  return {
+    original_image_url: original,
+    thumbnail_url: thumbnails[DEFAULT_THUMBNAIL_SIZE],
+    thumbnails,
+    width: image.width,
+    height: image.height,
+  };
+}
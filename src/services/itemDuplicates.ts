@@ -0,0 +1,181 @@
+/**
+ * Item Duplicate Detection
+ * Once an item has its FashionSigLIP embedding, its nearest neighbours in the
+ * user's wardrobe are flagged as likely duplicates. The user then merges the
+ * pair (wear stats and outfit history are combined) or keeps both.
+ */
+
+import { supabaseAdmin } from "./supabase.js";
+import { deleteItemImages, ITEM_IMAGE_COLUMNS, type ItemImages } from "./itemStorage.js";
+
+// Cosine similarity above which two items are flagged
+export const DUPLICATE_SIMILARITY_THRESHOLD = 0.92;
+// Above this it's almost certainly the same photo or garment
+export const EXACT_DUPLICATE_THRESHOLD = 0.98;
+const MAX_MATCHES = 3;
+
+export type DuplicateAction = "merge" | "keep_both";
+
+export interface DuplicateCandidate {
+  id: string;
+  item_id: string;
+  duplicate_of: string;
+  similarity: number;
+  match: "exact" | "near";
+  created_at: string;
+}
+
+interface CandidateRow {
+  id: string;
+  user_id: string;
+  item_id: string;
+  duplicate_of: string;
+  similarity: number;
+  status: "pending" | "kept_both";
+  created_at: string;
+}
+
+function toCandidate(row: CandidateRow): DuplicateCandidate {
+  return {
+    id: row.id,
+    item_id: row.item_id,
+    duplicate_of: row.duplicate_of,
+    similarity: Math.round(row.similarity * 1000) / 1000,
+    match: row.similarity >= EXACT_DUPLICATE_THRESHOLD ? "exact" : "near",
+    created_at: row.created_at,
+  };
+}
+
+/**
+ * Flag the closest existing items as likely duplicates of this one.
+ * Pairs already flagged (either way round) keep their status, so "keep both" sticks.
+ */
+export async function detectDuplicates(itemId: string, userId: string): Promise<number> {
+  const { data: matches, error } = await supabaseAdmin.rpc("find_duplicate_items", {
+    p_item_id: itemId,
+    p_min_similarity: DUPLICATE_SIMILARITY_THRESHOLD,
+    p_limit: MAX_MATCHES,
+  });
+
+  if (error) {
+    throw new Error(`Duplicate search failed: ${error.message}`);
+  }
+  if (!matches || matches.length === 0) return 0;
+
+  const matchIds = (matches as Array<{ id: string }>).map((match) => match.id);
+  const { data: reversed } = await supabaseAdmin
+    .from("item_duplicate_candidates")
+    .select("item_id")
+    .eq("duplicate_of", itemId)
+    .in("item_id", matchIds);
+  const alreadyPaired = new Set((reversed || []).map((row) => row.item_id));
+
+  const rows = (matches as Array<{ id: string; similarity: number }>)
+    .filter((match) => !alreadyPaired.has(match.id))
+    .map((match) => ({
+      user_id: userId,
+      item_id: itemId,
+      duplicate_of: match.id,
+      similarity: match.similarity,
+    }));
+  if (rows.length === 0) return 0;
+
+  const { error: insertError } = await supabaseAdmin
+    .from("item_duplicate_candidates")
+    .upsert(rows, { onConflict: "item_id,duplicate_of", ignoreDuplicates: true });
+
+  if (insertError) {
+    throw new Error(`Failed to flag duplicates: ${insertError.message}`);
+  }
+
+  console.log(
+    `[Duplicates] Item ${itemId} looks like ${rows.length} existing item(s) ` +
+      `(best ${Math.max(...rows.map((row) => row.similarity)).toFixed(3)})`
+  );
+  return rows.length;
+}
+
+/**
+ * Unresolved duplicate pairs for a user, or for one item
+ */
+export async function getPendingDuplicates(userId: string, itemId?: string): Promise<DuplicateCandidate[]> {
+  let query = supabaseAdmin
+    .from("item_duplicate_candidates")
+    .select("*")
+    .eq("user_id", userId)
+    .eq("status", "pending")
+    .order("created_at", { ascending: false });
+
+  if (itemId) {
+    query = query.or(`item_id.eq.${itemId},duplicate_of.eq.${itemId}`);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to load duplicates: ${error.message}`);
+  }
+  return ((data || []) as CandidateRow[]).map(toCandidate);
+}
+
+/**
+ * Resolve a flagged pair. Merging folds one item into the other (by default the new
+ * upload into the existing item) and deletes it, which also frees its item-limit slot.
+ */
+export async function resolveDuplicate(
+  userId: string,
+  candidateId: string,
+  action: DuplicateAction,
+  keepItemId?: string
+): Promise<{ error?: string; status?: 400 | 404 | 500; kept_item_id?: string; removed_item_id?: string }> {
+  const { data: candidate } = await supabaseAdmin
+    .from("item_duplicate_candidates")
+    .select("*")
+    .eq("id", candidateId)
+    .eq("user_id", userId)
+    .single();
+
+  if (!candidate || candidate.status !== "pending") {
+    return { error: "Duplicate not found or already resolved", status: 404 };
+  }
+  const pair = candidate as CandidateRow;
+
+  if (action === "keep_both") {
+    const { error } = await supabaseAdmin
+      .from("item_duplicate_candidates")
+      .update({ status: "kept_both", resolved_at: new Date().toISOString() })
+      .eq("id", pair.id);
+
+    if (error) return { error: "Failed to resolve duplicate", status: 500 };
+    return {};
+  }
+
+  const keepId = keepItemId ?? pair.duplicate_of;
+  if (keepId !== pair.item_id && keepId !== pair.duplicate_of) {
+    return { error: "keep_item_id must be one of the pair's items", status: 400 };
+  }
+  const mergeId = keepId === pair.item_id ? pair.duplicate_of : pair.item_id;
+
+  const { data: merged } = await supabaseAdmin
+    .from("wardrobe_items")
+    .select(ITEM_IMAGE_COLUMNS)
+    .eq("id", mergeId)
+    .single();
+
+  const { error } = await supabaseAdmin.rpc("merge_wardrobe_items", {
+    p_user_id: userId,
+    p_keep_id: keepId,
+    p_merge_id: mergeId,
+  });
+
+  if (error) {
+    console.error(`[Duplicates] Failed to merge ${mergeId} into ${keepId}:`, error.message);
+    return { error: "Failed to merge items", status: 500 };
+  }
+
+  if (merged) {
+    await deleteItemImages(mergeId, merged as ItemImages);
+  }
+
+  console.log(`[Duplicates] Merged item ${mergeId} into ${keepId}`);
+  return { kept_item_id: keepId, removed_item_id: mergeId };
+}
@@ -0,0 +1,203 @@
+/**
+ * Item Listing
+ * Cursor pagination, filters and delta sync for the wardrobe list. Delta sync
+ * returns items changed since a timestamp (archived ones included, so the
+ * client can drop them) plus tombstones for deleted items.
+ */
+
+import { supabaseAdmin } from "./supabase.js";
+import { TAG_ENUMS } from "./ai/index.js";
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+// Keep in sync with the pruning in record_wardrobe_item_tombstone()
+export const TOMBSTONE_RETENTION_DAYS = 90;
+export const ITEM_STATUSES = ["pending", "processing", "completed", "failed"] as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/;
+
+// Position after the last item of a page: its sort column value and id
+interface ItemCursor {
+  value: string;
+  id: string;
+}
+
+export interface ItemListParams {
+  limit?: number; // Unset (and no cursor) returns the whole list, as older clients expect
+  cursor?: ItemCursor;
+  fields?: string[];
+  categories?: string[];
+  seasons?: string[];
+  statuses?: string[];
+  favorite?: boolean;
+  updatedSince?: string; // Delta sync: items changed after this time, oldest change first
+}
+
+export interface ItemPage {
+  rows: Record<string, unknown>[];
+  next_cursor: string | null;
+}
+
+export function encodeCursor(cursor: ItemCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+/**
+ * Decode a cursor from the client. Values are checked strictly because they
+ * end up inside a PostgREST filter string.
+ */
+export function decodeCursor(raw: string): ItemCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(raw, "base64url").toString("utf8")) as Partial<ItemCursor>;
+    if (
+      typeof cursor.value === "string" &&
+      typeof cursor.id === "string" &&
+      TIMESTAMP_PATTERN.test(cursor.value) &&
+      UUID_PATTERN.test(cursor.id)
+    ) {
+      return { value: cursor.value, id: cursor.id };
+    }
+  } catch {
+    // Fall through
+  }
+  return null;
+}
+
+function parseList(value: string | undefined): string[] {
+  return value ? [...new Set(value.split(",").map((entry) => entry.trim()).filter(Boolean))] : [];
+}
+
+/**
+ * Validate list query parameters: limit, cursor, fields, category, seasons,
+ * status, favorite, updated_since
+ */
+export function parseItemListParams(
+  query: Record<string, string | undefined>,
+  allowedFields: readonly string[]
+): ItemListParams | { error: string } {
+  const params: ItemListParams = {};
+
+  if (query.limit !== undefined) {
+    const limit = Number(query.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      return { error: `limit must be between 1 and ${MAX_PAGE_SIZE}` };
+    }
+    params.limit = limit;
+  }
+
+  if (query.cursor) {
+    const cursor = decodeCursor(query.cursor);
+    if (!cursor) return { error: "Invalid cursor" };
+    params.cursor = cursor;
+    params.limit ??= DEFAULT_PAGE_SIZE;
+  }
+
+  if (query.fields) {
+    const fields = parseList(query.fields);
+    const unknown = fields.filter((field) => !allowedFields.includes(field));
+    if (unknown.length > 0) return { error: `Unknown fields: ${unknown.join(", ")}` };
+    params.fields = fields;
+  }
+
+  const categories = parseList(query.category?.toLowerCase());
+  const invalidCategories = categories.filter((value) => !(TAG_ENUMS.category as readonly string[]).includes(value));
+  if (invalidCategories.length > 0) return { error: `Invalid category: ${invalidCategories.join(", ")}` };
+  if (categories.length > 0) params.categories = categories;
+
+  const seasons = parseList(query.seasons?.toLowerCase());
+  const invalidSeasons = seasons.filter((value) => !(TAG_ENUMS.seasons as readonly string[]).includes(value));
+  if (invalidSeasons.length > 0) return { error: `Invalid seasons: ${invalidSeasons.join(", ")}` };
+  if (seasons.length > 0) params.seasons = seasons;
+
+  const statuses = parseList(query.status?.toLowerCase());
+  const invalidStatuses = statuses.filter((value) => !(ITEM_STATUSES as readonly string[]).includes(value));
+  if (invalidStatuses.length > 0) return { error: `Invalid status: ${invalidStatuses.join(", ")}` };
+  if (statuses.length > 0) params.statuses = statuses;
+
+  if (query.favorite !== undefined) {
+    if (query.favorite !== "true" && query.favorite !== "false") {
+      return { error: "favorite must be true or false" };
+    }
+    params.favorite = query.favorite === "true";
+  }
+
+  if (query.updated_since) {
+    const since = Date.parse(query.updated_since);
+    if (Number.isNaN(since)) return { error: "updated_since must be an ISO 8601 timestamp" };
+    params.updatedSince = new Date(since).toISOString();
+  }
+
+  return params;
+}
+
+/**
+ * Whether a delta sync from this time can't be served because its tombstones may be pruned
+ */
+export function requiresFullResync(updatedSince: string, now = Date.now()): boolean {
+  return Date.parse(updatedSince) < now - TOMBSTONE_RETENTION_DAYS * DAY_MS;
+}
+
+/**
+ * One page of the user's items. The list is newest first (non-archived only);
+ * delta sync is oldest change first and includes archived items.
+ * `columns` must include id and the sort column (created_at / updated_at).
+ */
+export async function listItems(userId: string, params: ItemListParams, columns: string): Promise<ItemPage> {
+  const delta = !!params.updatedSince;
+  const sortColumn = delta ? "updated_at" : "created_at";
+  const ascending = delta;
+
+  let query = supabaseAdmin.from("wardrobe_items").select(columns).eq("user_id", userId);
+
+  query = delta ? query.gt("updated_at", params.updatedSince!) : query.eq("is_archived", false);
+  if (params.categories) query = query.in("category", params.categories);
+  if (params.seasons) query = query.overlaps("seasons", params.seasons);
+  if (params.statuses) query = query.in("processing_status", params.statuses);
+  if (params.favorite !== undefined) query = query.eq("is_favorite", params.favorite);
+
+  if (params.cursor) {
+    const op = ascending ? "gt" : "lt";
+    const { value, id } = params.cursor;
+    query = query.or(`${sortColumn}.${op}."${value}",and(${sortColumn}.eq."${value}",id.${op}.${id})`);
+  }
+
+  query = query.order(sortColumn, { ascending }).order("id", { ascending });
+  // One extra row tells us whether there's another page
+  if (params.limit) query = query.limit(params.limit + 1);
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to list items: ${error.message}`);
+  }
+
+  const rows = (data || []) as unknown as Record<string, unknown>[];
+  if (!params.limit || rows.length <= params.limit) {
+    return { rows, next_cursor: null };
+  }
+
+  const page = rows.slice(0, params.limit);
+  const last = page[page.length - 1];
+  return {
+    rows: page,
+    next_cursor: encodeCursor({ value: last[sortColumn] as string, id: last.id as string }),
+  };
+}
+
+/**
+ * Ids of the user's items deleted after a time
+ */
+export async function getDeletedItemIds(userId: string, since: string): Promise<string[]> {
+  const { data, error } = await supabaseAdmin
+    .from("wardrobe_item_tombstones")
+    .select("item_id")
+    .eq("user_id", userId)
+    .gt("deleted_at", since)
+    .order("deleted_at", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load deleted items: ${error.message}`);
+  }
+  return (data || []).map((row) => row.item_id as string);
+}
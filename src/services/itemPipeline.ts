@@ -0,0 +1,243 @@
+/**
+ * Item Processing Pipeline
+ * Stage 1: Remove background (BiRefNet)
+ * Stage 2: Vision analysis (Florence-2)
+ * Stage 3: Generate embedding (FashionSigLIP)
+ * Stage 4: Reasoning & tagging (Gemini)
+ * Then the results are written to the item and checked for duplicates.
+ *
+ * Each stage's output is checkpointed so a retry only re-runs the stages that
+ * haven't succeeded yet.
+ */
+
+import { supabaseAdmin } from "./supabase.js";
+import {
+  removeBackground,
+  generateEmbedding,
+  analyzeWithFlorence,
+  tagWithGemini,
+} from "./ai/index.js";
+import type { ItemTags, TaggingHints, VisionAnalysisResult } from "./ai/index.js";
+import { checkAndGenerateFirstOutfit } from "./firstOutfit.js";
+import { detectDuplicates } from "./itemDuplicates.js";
+import { applyTagCorrections, getCorrectionExamples, getItemCorrections } from "./tagCorrections.js";
+
+export const PROCESSING_STAGES = ["background_removal", "vision", "embedding", "tagging"] as const;
+
+export type ProcessingStage = (typeof PROCESSING_STAGES)[number];
+export type StageStatus = "pending" | "running" | "completed" | "retrying" | "failed";
+export type StageProgress = Record<ProcessingStage, StageStatus>;
+
+export interface StageResults {
+  processed_image_url?: string;
+  vision?: VisionAnalysisResult;
+  embedding?: number[];
+  tags?: ItemTags;
+  tagging_model?: string;
+  tagging_prompt_version?: number;
+}
+
+export interface PipelineInput {
+  itemId: string;
+  userId: string;
+  imageUrl: string;
+  results: StageResults;
+  // Stages to run and write to the item (defaults to the full pipeline)
+  stages?: readonly ProcessingStage[];
+}
+
+export interface PipelineHooks {
+  // Called before a stage starts
+  onStageStart(stage: ProcessingStage): Promise<void>;
+  // Called with the updated checkpoint after a stage succeeds
+  onStageComplete(stage: ProcessingStage, results: StageResults): Promise<void>;
+}
+
+/**
+ * Which stages a set of checkpoints already covers
+ */
+export function isStageDone(stage: ProcessingStage, results: StageResults): boolean {
+  switch (stage) {
+    case "background_removal":
+      return !!results.processed_image_url;
+    case "vision":
+      return !!results.vision;
+    case "embedding":
+      return Array.isArray(results.embedding) && results.embedding.length > 0;
+    case "tagging":
+      return !!results.tags;
+  }
+}
+
+/**
+ * Progress map for an item given its checkpoints and the stage in flight.
+ * Stages outside the run's stage list were done by an earlier run.
+ */
+export function buildStageProgress(
+  results: StageResults,
+  active?: { stage: ProcessingStage; status: StageStatus },
+  stages: readonly ProcessingStage[] = PROCESSING_STAGES
+): StageProgress {
+  const progress = {} as StageProgress;
+  for (const stage of PROCESSING_STAGES) {
+    progress[stage] = !stages.includes(stage) || isStageDone(stage, results) ? "completed" : "pending";
+  }
+  if (active) progress[active.stage] = active.status;
+  return progress;
+}
+
+/**
+ * Known facts for items imported from a product listing (tagging only fills the gaps)
+ */
+async function loadTaggingHints(itemId: string): Promise<TaggingHints> {
+  const { data } = await supabaseAdmin
+    .from("wardrobe_items")
+    .select("product_info")
+    .eq("id", itemId)
+    .single();
+
+  const product = data?.product_info as { name?: string | null; brand?: string | null; color?: string | null } | null;
+  return {
+    name: product?.name ?? undefined,
+    brand: product?.brand ?? undefined,
+    color: product?.color ?? undefined,
+  };
+}
+
+/**
+ * Run a single stage and return the checkpoint with its output added
+ */
+async function runStage(
+  stage: ProcessingStage,
+  input: PipelineInput,
+  results: StageResults
+): Promise<StageResults> {
+  switch (stage) {
+    case "background_removal": {
+      const processedImageUrl = await removeBackground(input.imageUrl, input.itemId);
+      console.log(`[AI] Background removed for ${input.itemId}`);
+      return { ...results, processed_image_url: processedImageUrl };
+    }
+    case "vision": {
+      const vision = await analyzeWithFlorence(results.processed_image_url!);
+      console.log(`[AI] Vision analysis complete for ${input.itemId}`);
+      return { ...results, vision };
+    }
+    case "embedding": {
+      const embedding = await generateEmbedding(results.processed_image_url!);
+      console.log(`[AI] Embedding generated for ${input.itemId}`);
+      return { ...results, embedding };
+    }
+    case "tagging": {
+      const examples = await getCorrectionExamples(input.userId);
+      const tagging = await tagWithGemini(
+        results.vision!.raw_description,
+        results.vision!.extracted_colors,
+        examples,
+        await loadTaggingHints(input.itemId)
+      );
+      console.log(`[AI] Tagging complete for ${input.itemId} (${tagging.model}, prompt v${tagging.prompt_version})`);
+      return {
+        ...results,
+        tags: tagging.tags,
+        tagging_model: tagging.model,
+        tagging_prompt_version: tagging.prompt_version,
+      };
+    }
+  }
+}
+
+/**
+ * Item columns written by the stages a run is responsible for
+ */
+async function buildItemUpdate(
+  itemId: string,
+  stages: readonly ProcessingStage[],
+  results: StageResults
+): Promise<Record<string, unknown>> {
+  const update: Record<string, unknown> = {};
+
+  if (stages.includes("background_removal")) {
+    update.processed_image_url = results.processed_image_url;
+  }
+  if (stages.includes("embedding")) {
+    update.embedding = results.embedding;
+  }
+  if (stages.includes("tagging")) {
+    // The user's manual corrections win over fresh AI tags
+    const tags = applyTagCorrections(results.tags!, await getItemCorrections(itemId));
+    Object.assign(update, {
+      category: tags.category,
+      subcategory: tags.subcategory,
+      colors: tags.colors,
+      pattern: tags.pattern,
+      materials: tags.materials,
+      occasions: tags.occasions,
+      seasons: tags.seasons,
+      formality_score: tags.formality_score,
+      style_vibes: tags.style_vibes,
+      brand: tags.brand,
+      gender: tags.gender,
+      fit: tags.fit,
+      length: tags.length,
+      tagging_model: results.tagging_model ?? null,
+      tagging_prompt_version: results.tagging_prompt_version ?? null,
+      tagged_at: new Date().toISOString(),
+    });
+  }
+
+  return update;
+}
+
+/**
+ * Run every requested stage that isn't checkpointed yet, then write the results to the item.
+ * Throws on the first failing stage; completed stages stay checkpointed via hooks.
+ * Partial runs rely on results being seeded with whatever their stages depend on.
+ */
+export async function runItemPipeline(input: PipelineInput, hooks: PipelineHooks): Promise<void> {
+  const stages = input.stages ?? PROCESSING_STAGES;
+  let results = input.results;
+
+  for (const stage of PROCESSING_STAGES) {
+    if (!stages.includes(stage) || isStageDone(stage, results)) continue;
+
+    await hooks.onStageStart(stage);
+    results = await runStage(stage, input, results);
+    await hooks.onStageComplete(stage, results);
+  }
+
+  const { error } = await supabaseAdmin
+    .from("wardrobe_items")
+    .update({
+      ...(await buildItemUpdate(input.itemId, stages, results)),
+      processing_status: "completed",
+      processing_error: null,
+      processing_stage: null,
+      processing_stages: buildStageProgress(results, undefined, stages),
+    })
+    .eq("id", input.itemId);
+
+  if (error) {
+    throw new Error(`Failed to update item: ${error.message}`);
+  }
+
+  console.log(`[AI] Item ${input.itemId} processing completed`);
+
+  // Flag likely duplicates now that the item has a (new) embedding
+  if (stages.includes("embedding")) {
+    try {
+      await detectDuplicates(input.itemId, input.userId);
+    } catch (duplicateError) {
+      console.error("[AI] Duplicate check failed:", duplicateError);
+      // Don't fail item processing if the duplicate check fails
+    }
+  }
+
+  // Check if this completes the wardrobe for first outfit generation
+  try {
+    await checkAndGenerateFirstOutfit(input.userId);
+  } catch (firstOutfitError) {
+    console.error("[AI] First outfit check failed:", firstOutfitError);
+    // Don't fail item processing if first outfit check fails
+  }
+}
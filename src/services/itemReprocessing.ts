@@ -0,0 +1,168 @@
+/**
+ * Item Reprocessing
+ * Re-runs some or all pipeline stages for an existing item without re-uploading it
+ * (no XP, no item-limit count). Stages that aren't re-run keep the item's current
+ * results; their outputs are only seeded when a re-run stage depends on them.
+ */
+
+import { supabaseAdmin } from "./supabase.js";
+import { PRIMARY_TAGGING_MODEL, TAGGING_PROMPT_VERSION } from "./ai/index.js";
+import { PROCESSING_STAGES, type ProcessingStage, type StageResults } from "./itemPipeline.js";
+import { enqueueItemProcessing, getLastStageResults } from "./processingQueue.js";
+
+export const REPROCESS_TARGETS = {
+  all: PROCESSING_STAGES,
+  background: ["background_removal"],
+  embedding: ["embedding"],
+  tags: ["tagging"],
+} as const satisfies Record<string, readonly ProcessingStage[]>;
+
+export type ReprocessTarget = keyof typeof REPROCESS_TARGETS;
+
+const DEFAULT_BULK_LIMIT = 500;
+const MAX_BULK_LIMIT = 5000;
+
+export interface ReprocessableItem {
+  id: string;
+  user_id: string;
+  original_image_url: string;
+  processed_image_url: string | null;
+}
+
+export interface ReprocessResult {
+  queued: boolean; // false = a job was already active for the item
+  stages: ProcessingStage[];
+}
+
+export interface BulkReprocessOptions {
+  beforePromptVersion?: number; // Items tagged with an older prompt (or never tagged) qualify
+  includeFallback?: boolean; // Also items tagged by a fallback model or placeholder tags
+  target?: ReprocessTarget;
+  limit?: number;
+  dryRun?: boolean;
+}
+
+export interface BulkReprocessResult {
+  matched: number;
+  queued: number;
+  already_active: number;
+  skipped_no_consent: number;
+  dry_run: boolean;
+}
+
+export const REPROCESS_ITEM_COLUMNS = "id, user_id, original_image_url, processed_image_url";
+
+export function parseReprocessTarget(value: unknown): ReprocessTarget | null {
+  if (value === undefined || value === null) return "all";
+  return typeof value === "string" && value in REPROCESS_TARGETS ? (value as ReprocessTarget) : null;
+}
+
+/**
+ * Work out which stages to run and what to seed the job with.
+ * Missing prerequisites (no processed image, no cached caption) are added to the run.
+ */
+export async function planReprocess(
+  item: ReprocessableItem,
+  target: ReprocessTarget
+): Promise<{ stages: ProcessingStage[]; seed: StageResults }> {
+  // Never got past background removal - nothing to build on
+  if (!item.processed_image_url || target === "all") {
+    return { stages: [...PROCESSING_STAGES], seed: {} };
+  }
+
+  const stages = new Set<ProcessingStage>(REPROCESS_TARGETS[target]);
+  const seed: StageResults = { processed_image_url: item.processed_image_url };
+
+  if (stages.has("tagging")) {
+    // Reuse the last caption so retagging can skip Florence
+    const vision = (await getLastStageResults(item.id))?.vision;
+    if (vision) seed.vision = vision;
+    else stages.add("vision");
+  }
+
+  return {
+    stages: PROCESSING_STAGES.filter((stage) => stages.has(stage)),
+    seed,
+  };
+}
+
+/**
+ * Queue a reprocess job for one item
+ */
+export async function reprocessItem(item: ReprocessableItem, target: ReprocessTarget): Promise<ReprocessResult> {
+  const { stages, seed } = await planReprocess(item, target);
+  const queued = await enqueueItemProcessing(item.id, item.original_image_url, item.user_id, { stages, seed });
+
+  if (queued) {
+    console.log(`[AI] Queued reprocess for item ${item.id}: ${stages.join(", ")}`);
+  }
+  return { queued, stages };
+}
+
+/**
+ * Queue reprocessing for every item tagged before a prompt version (admin only).
+ * Items belonging to users without AI consent are skipped.
+ */
+export async function bulkReprocessStaleItems(options: BulkReprocessOptions = {}): Promise<BulkReprocessResult> {
+  const beforeVersion = options.beforePromptVersion ?? TAGGING_PROMPT_VERSION;
+  const target = options.target ?? "tags";
+  const limit = Math.min(Math.max(1, options.limit ?? DEFAULT_BULK_LIMIT), MAX_BULK_LIMIT);
+
+  const staleFilters = ["tagging_prompt_version.is.null", `tagging_prompt_version.lt.${beforeVersion}`];
+  if (options.includeFallback) {
+    staleFilters.push("tagging_model.is.null", `tagging_model.neq."${PRIMARY_TAGGING_MODEL}"`);
+  }
+
+  const { data: items, error } = await supabaseAdmin
+    .from("wardrobe_items")
+    .select(REPROCESS_ITEM_COLUMNS)
+    .in("processing_status", ["completed", "failed"])
+    .eq("is_archived", false)
+    .or(staleFilters.join(","))
+    .order("created_at", { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to find items to reprocess: ${error.message}`);
+  }
+
+  const result: BulkReprocessResult = {
+    matched: items?.length ?? 0,
+    queued: 0,
+    already_active: 0,
+    skipped_no_consent: 0,
+    dry_run: !!options.dryRun,
+  };
+  if (!items || items.length === 0) return result;
+
+  // AI processing needs the owner's consent
+  const userIds = [...new Set(items.map((item) => item.user_id))];
+  const { data: consented } = await supabaseAdmin
+    .from("user_profiles")
+    .select("id")
+    .in("id", userIds)
+    .not("ai_consent_given_at", "is", null);
+  const consentedIds = new Set((consented || []).map((profile) => profile.id));
+
+  for (const item of items as ReprocessableItem[]) {
+    if (!consentedIds.has(item.user_id)) {
+      result.skipped_no_consent++;
+      continue;
+    }
+    if (options.dryRun) continue;
+
+    try {
+      const { queued } = await reprocessItem(item, target);
+      if (queued) result.queued++;
+      else result.already_active++;
+    } catch (err) {
+      console.error(`[AI] Failed to queue reprocess for item ${item.id}:`, err);
+    }
+  }
+
+  console.log(
+    `[AI] Bulk reprocess (prompt < v${beforeVersion}, ${target}): ` +
+      `${result.queued} queued, ${result.already_active} already active, ${result.skipped_no_consent} without consent`
+  );
+  return result;
+}
@@ -0,0 +1,82 @@
+/**
+ * Item Storage
+ * Cleanup of an item's images across the wardrobe (originals, thumbnails)
+ * and wardrobe-items (background-removed) buckets.
+ */
+
+import { supabaseAdmin } from "./supabase.js";
+
+export const ITEM_IMAGE_COLUMNS = "original_image_url, processed_image_url, thumbnails";
+
+export interface ItemImages {
+  original_image_url: string | null;
+  processed_image_url: string | null;
+  thumbnails?: Record<string, string> | null;
+}
+
+/**
+ * Extract storage path from a Supabase storage public URL
+ */
+export function extractStoragePath(url: string, bucket: string): string | null {
+  try {
+    const urlObj = new URL(url);
+    // URL format: .../storage/v1/object/public/{bucket}/{path}
+    const match = urlObj.pathname.match(
+      new RegExp(`/storage/v1/object/public/${bucket}/(.+)`)
+    );
+    return match ? match[1] : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Delete an item's images from storage (best effort - never throws)
+ */
+export async function deleteItemImages(itemId: string, item: ItemImages): Promise<void> {
+  try {
+    // Extract path from original_image_url (wardrobe bucket)
+    if (item.original_image_url) {
+      const originalPath = extractStoragePath(item.original_image_url, "wardrobe");
+      if (originalPath) {
+        await supabaseAdmin.storage.from("wardrobe").remove([originalPath]);
+        console.log(`[Storage] Deleted original image: ${originalPath}`);
+      }
+    }
+
+    // Thumbnails from server-side uploads (wardrobe bucket)
+    const thumbnailPaths = Object.values(item.thumbnails ?? {})
+      .map((url) => extractStoragePath(url, "wardrobe"))
+      .filter((path): path is string => !!path);
+    if (thumbnailPaths.length > 0) {
+      await supabaseAdmin.storage.from("wardrobe").remove(thumbnailPaths);
+      console.log(`[Storage] Deleted ${thumbnailPaths.length} thumbnail(s)`);
+    }
+
+    // Extract path from processed_image_url (wardrobe-items bucket)
+    if (item.processed_image_url) {
+      const processedPath = extractStoragePath(item.processed_image_url, "wardrobe-items");
+      if (processedPath) {
+        await supabaseAdmin.storage.from("wardrobe-items").remove([processedPath]);
+        console.log(`[Storage] Deleted processed image: ${processedPath}`);
+      }
+    }
+  } catch (storageErr) {
+    console.error(`[Storage] Failed to delete images for item ${itemId}:`, storageErr);
+  }
+}
+
+/**
+ * Whether a URL points at this project's public storage (safe to fetch server-side)
+ */
+export function isStorageUrl(url: string): boolean {
+  try {
+    const parsed = new URL(url);
+    return (
+      parsed.origin === new URL(process.env.SUPABASE_URL ?? "").origin &&
+      parsed.pathname.startsWith("/storage/v1/object/public/")
+    );
+  } catch {
+    return false;
+  }
+}
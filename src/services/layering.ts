@@ -0,0 +1,300 @@
+/**
+ * Layering Service
+ * Decides how many layers the weather calls for and scores
+ * base / mid / outer layer combinations as a whole
+ */
+
+import { getColdestTemperature, type WeatherData } from "./weather.js";
+import { calculateOutfitColorHarmony, type ColorInfo } from "./colorHarmony.js";
+
+export type LayerRole = "base" | "mid" | "outer";
+
+export interface LayerableItem {
+  category?: string | null;
+  subcategory?: string | null;
+  formality_score?: number | null;
+  colors?: ColorInfo | null;
+}
+
+export interface OutfitLayer {
+  item_id: string;
+  layer: LayerRole;
+  order: number; // 1 = closest to the body
+}
+
+const LAYER_ORDER: Record<LayerRole, number> = {
+  base: 1,
+  mid: 2,
+  outer: 3,
+};
+
+// Layer role by category/subcategory keyword
+const LAYER_ROLES: Record<string, LayerRole> = {
+  // Base layers - worn against the body
+  "t-shirt": "base",
+  "t-shirts": "base",
+  tee: "base",
+  tank: "base",
+  "tank top": "base",
+  camisole: "base",
+  shirt: "base",
+  shirts: "base",
+  "button-down": "base",
+  blouse: "base",
+  blouses: "base",
+  polo: "base",
+  polos: "base",
+  henley: "base",
+  turtleneck: "base",
+  bodysuit: "base",
+  top: "base",
+  tops: "base",
+
+  // Mid layers - insulation between base and outer
+  sweater: "mid",
+  sweaters: "mid",
+  pullover: "mid",
+  jumper: "mid",
+  cardigan: "mid",
+  cardigans: "mid",
+  hoodie: "mid",
+  hoodies: "mid",
+  sweatshirt: "mid",
+  "quarter-zip": "mid",
+  fleece: "mid",
+  "sweater vest": "mid",
+
+  // Outer layers - shell against the elements
+  jacket: "outer",
+  jackets: "outer",
+  "denim jacket": "outer",
+  "leather jacket": "outer",
+  "rain jacket": "outer",
+  windbreaker: "outer",
+  bomber: "outer",
+  blazer: "outer",
+  blazers: "outer",
+  coat: "outer",
+  coats: "outer",
+  overcoat: "outer",
+  "trench coat": "outer",
+  trench: "outer",
+  parka: "outer",
+  parkas: "outer",
+  puffer: "outer",
+  vest: "outer",
+  vests: "outer",
+  outerwear: "outer",
+};
+
+// Mid layers that work on their own as a top (cardigans and vests need something underneath)
+const STANDALONE_MID_LAYERS = new Set([
+  "sweater",
+  "sweaters",
+  "pullover",
+  "jumper",
+  "hoodie",
+  "hoodies",
+  "sweatshirt",
+  "quarter-zip",
+  "fleece",
+]);
+
+// Approximate insulation per garment (roughly clo-like units)
+const LAYER_WARMTH: Record<string, number> = {
+  tank: 0.5,
+  "tank top": 0.5,
+  camisole: 0.5,
+  "t-shirt": 1,
+  "t-shirts": 1,
+  tee: 1,
+  polo: 1.2,
+  shirt: 1.5,
+  shirts: 1.5,
+  blouse: 1.2,
+  henley: 1.5,
+  turtleneck: 2,
+  "sweater vest": 1.5,
+  cardigan: 2,
+  cardigans: 2,
+  hoodie: 2.5,
+  hoodies: 2.5,
+  sweatshirt: 2.5,
+  fleece: 3,
+  sweater: 3,
+  sweaters: 3,
+  pullover: 3,
+  vest: 1.5,
+  vests: 1.5,
+  blazer: 2,
+  blazers: 2,
+  windbreaker: 1.5,
+  "denim jacket": 2.5,
+  bomber: 3,
+  "leather jacket": 3,
+  jacket: 3,
+  jackets: 3,
+  "rain jacket": 2,
+  trench: 3.5,
+  "trench coat": 3.5,
+  coat: 5,
+  coats: 5,
+  overcoat: 5,
+  parka: 6,
+  parkas: 6,
+  puffer: 6,
+};
+
+const DEFAULT_WARMTH: Record<LayerRole, number> = {
+  base: 1,
+  mid: 2.5,
+  outer: 3.5,
+};
+
+// Under/over combinations that don't work even though the layer order is valid
+const LAYERING_CONFLICTS: Array<[string, string]> = [
+  ["hoodie", "blazer"],
+  ["sweatshirt", "blazer"],
+  ["fleece", "blazer"],
+  ["hoodie", "trench"],
+  ["fleece", "leather jacket"],
+];
+
+/**
+ * Find the most specific keyword from a lookup table that matches an item.
+ * Subcategory wins over category; exact matches win over partial ones.
+ */
+function lookupByItem<T>(table: Record<string, T>, item: LayerableItem): { key: string; value: T } | null {
+  const fields = [item.subcategory, item.category]
+    .map((f) => (f || "").toLowerCase().trim())
+    .filter(Boolean);
+
+  for (const field of fields) {
+    if (table[field] !== undefined) return { key: field, value: table[field] };
+  }
+
+  for (const field of fields) {
+    // Longest keyword first so "denim jacket" beats "jacket"
+    const match = Object.keys(table)
+      .filter((key) => field.includes(key))
+      .sort((a, b) => b.length - a.length)[0];
+    if (match) return { key: match, value: table[match] };
+  }
+
+  return null;
+}
+
+/**
+ * Get the layer role for an item, or null for non-layerable items (bottoms, shoes, accessories)
+ */
+export function getLayerRole(item: LayerableItem): LayerRole | null {
+  return lookupByItem(LAYER_ROLES, item)?.value ?? null;
+}
+
+/**
+ * Check if a top can be worn on its own as the base layer
+ */
+export function isStandaloneTop(item: LayerableItem): boolean {
+  const role = getLayerRole(item);
+  if (role !== "mid") return role !== "outer";
+
+  const key = lookupByItem(LAYER_ROLES, item)?.key;
+  return !!key && STANDALONE_MID_LAYERS.has(key);
+}
+
+/**
+ * Get the approximate warmth of a garment
+ */
+export function getItemWarmth(item: LayerableItem, role?: LayerRole): number {
+  const warmth = lookupByItem(LAYER_WARMTH, item)?.value;
+  if (warmth !== undefined) return warmth;
+  return DEFAULT_WARMTH[role ?? getLayerRole(item) ?? "base"];
+}
+
+/**
+ * How much total upper-body warmth the weather calls for at the coldest part of the day
+ * (outer layers come off as it warms up) - ~1 at 25C, ~4 at 15C, ~7.5 at 5C, ~11 at -5C
+ */
+export function getRequiredWarmth(weather: WeatherData): number {
+  return Math.max(1, (26 - getColdestTemperature(weather)) / 2.8);
+}
+
+/**
+ * Number of upper-body layers the weather calls for
+ */
+export function getTargetLayerCount(weather: WeatherData): 1 | 2 | 3 {
+  const temp = getColdestTemperature(weather);
+  if (temp >= 21) return 1;
+  if (temp >= 13) return 2;
+  return 3;
+}
+
+/**
+ * Check if `over` can be worn over `under`
+ */
+export function canLayerOver(under: LayerableItem, over: LayerableItem): boolean {
+  const underRole = getLayerRole(under) ?? "base";
+  const overRole = getLayerRole(over);
+  if (!overRole) return false;
+
+  // A standalone sweater worn as the base still sits at the mid position
+  if (LAYER_ORDER[overRole] <= LAYER_ORDER[underRole]) return false;
+
+  const underKey = lookupByItem(LAYER_ROLES, under)?.key ?? "";
+  const overKey = lookupByItem(LAYER_ROLES, over)?.key ?? "";
+  return !LAYERING_CONFLICTS.some(
+    ([u, o]) => underKey.includes(u) && overKey.includes(o)
+  );
+}
+
+/**
+ * Score a full layering stack (ordered base -> outer) for the weather (0-1).
+ * Considers total warmth, layer count, color harmony and formality coherence
+ * across the layers rather than each piece on its own.
+ */
+export function scoreLayering(layers: LayerableItem[], weather: WeatherData): number {
+  if (layers.length === 0) return 0;
+
+  // Every adjacent pair must be a valid under/over combination
+  for (let i = 1; i < layers.length; i++) {
+    if (!canLayerOver(layers[i - 1], layers[i])) return 0;
+  }
+
+  // Warmth match: 1 when total warmth matches what the weather needs
+  const required = getRequiredWarmth(weather);
+  const totalWarmth = layers.reduce((sum, layer, i) => {
+    const role = i === 0 ? "base" : getLayerRole(layer) ?? "outer";
+    return sum + getItemWarmth(layer, role);
+  }, 0);
+  const warmthScore = 1 - Math.min(1, Math.abs(totalWarmth - required) / required);
+
+  // Layer count match
+  const target = getTargetLayerCount(weather);
+  const countScore = 1 - Math.min(1, Math.abs(layers.length - target) * 0.5);
+
+  // Colors across the stack
+  const harmonyScore = calculateOutfitColorHarmony(layers.map((l) => l.colors || {}));
+
+  // Formality coherence: layers shouldn't jump more than a couple of points
+  const formalities = layers.map((l) => l.formality_score ?? 5);
+  const spread = Math.max(...formalities) - Math.min(...formalities);
+  const formalityScore = 1 - Math.min(1, Math.max(0, spread - 2) / 5);
+
+  return warmthScore * 0.4 + countScore * 0.2 + harmonyScore * 0.25 + formalityScore * 0.15;
+}
+
+/**
+ * Build the explicit layer order for a chosen stack
+ */
+export function buildLayerOrder(stack: {
+  base: { id: string };
+  mid?: { id: string } | null;
+  outer?: { id: string } | null;
+}): OutfitLayer[] {
+  const layers: OutfitLayer[] = [{ item_id: stack.base.id, layer: "base", order: LAYER_ORDER.base }];
+  if (stack.mid) layers.push({ item_id: stack.mid.id, layer: "mid", order: LAYER_ORDER.mid });
+  if (stack.outer) layers.push({ item_id: stack.outer.id, layer: "outer", order: LAYER_ORDER.outer });
+
+  // Renumber so order is contiguous (base=1, next=2, ...)
+  return layers.map((layer, i) => ({ ...layer, order: i + 1 }));
+}
@@ -0,0 +1,194 @@
+/**
+ * Mood Scoring Service
+ * Maps each outfit mood to a scoring profile (style vibes, formality band,
+ * color saturation/contrast and fit) that shifts candidate scores
+ */
+
+import { calculateOutfitContrast, getColorTone, isNeutral, type ColorInfo } from "./colorHarmony.js";
+import type { ItemFit } from "./heightScoring.js";
+
+export interface MoodProfile {
+  id: string;
+  name: string;
+  vibes: string[]; // Target style_vibes
+  formality: { min: number; max: number } | null; // Preferred band (null = any)
+  saturation: "muted" | "vivid" | null; // Preferred color intensity (null = any)
+  contrast: "low" | "high" | null; // Preferred lightness spread across the outfit (null = any)
+  fits: ItemFit[]; // Preferred fits
+  feel: string; // How the outfit should feel, for reasoning
+}
+
+interface MoodScoringContext {
+  style_vibes?: string[] | null;
+  formality_score?: number | null;
+  colors?: { primary?: string | null } | null;
+  fit?: string | null;
+}
+
+export const MOOD_PROFILES: Record<string, MoodProfile> = {
+  confident: {
+    id: "confident",
+    name: "Confident",
+    vibes: ["classic", "edgy", "streetwear"],
+    formality: { min: 5, max: 8 },
+    saturation: "vivid",
+    contrast: "high",
+    fits: ["fitted", "slim", "regular"],
+    feel: "sharp, sure of itself and built around a statement",
+  },
+  relaxed: {
+    id: "relaxed",
+    name: "Relaxed",
+    vibes: ["minimalist", "bohemian", "sporty"],
+    formality: { min: 1, max: 4 },
+    saturation: "muted",
+    contrast: "low",
+    fits: ["relaxed", "oversized"],
+    feel: "easy, comfortable and low-effort",
+  },
+  creative: {
+    id: "creative",
+    name: "Creative",
+    vibes: ["bohemian", "streetwear", "edgy"],
+    formality: null,
+    saturation: "vivid",
+    contrast: "high",
+    fits: ["oversized", "relaxed"],
+    feel: "expressive, with color and shape doing the talking",
+  },
+  professional: {
+    id: "professional",
+    name: "Professional",
+    vibes: ["classic", "preppy", "minimalist"],
+    formality: { min: 6, max: 9 },
+    saturation: "muted",
+    contrast: null,
+    fits: ["fitted", "regular", "slim"],
+    feel: "polished and put-together",
+  },
+  adventurous: {
+    id: "adventurous",
+    name: "Adventurous",
+    vibes: ["streetwear", "sporty", "bohemian"],
+    formality: { min: 2, max: 6 },
+    saturation: "vivid",
+    contrast: "high",
+    fits: ["relaxed", "regular"],
+    feel: "bold and ready for anything",
+  },
+  romantic: {
+    id: "romantic",
+    name: "Romantic",
+    vibes: ["romantic", "bohemian", "classic"],
+    formality: { min: 4, max: 7 },
+    saturation: "muted",
+    contrast: "low",
+    fits: ["fitted", "relaxed"],
+    feel: "soft, gentle and a little dreamy",
+  },
+  edgy: {
+    id: "edgy",
+    name: "Edgy",
+    vibes: ["edgy", "streetwear"],
+    formality: { min: 3, max: 7 },
+    saturation: null,
+    contrast: "high",
+    fits: ["slim", "oversized"],
+    feel: "dark, sharp and a little rebellious",
+  },
+  minimalist: {
+    id: "minimalist",
+    name: "Minimalist",
+    vibes: ["minimalist", "classic"],
+    formality: null,
+    saturation: "muted",
+    contrast: "low",
+    fits: ["regular", "relaxed", "fitted"],
+    feel: "clean, pared-back and quietly considered",
+  },
+};
+
+/**
+ * Scoring profile for a mood id (case-insensitive), or null for no/unknown mood
+ */
+export function getMoodProfile(mood: string | null | undefined): MoodProfile | null {
+  if (!mood) return null;
+  return MOOD_PROFILES[mood.toLowerCase().trim()] ?? null;
+}
+
+/**
+ * Get mood boost for an item
+ * Returns a value between -0.15 and +0.15 to adjust item scoring
+ */
+export function getMoodItemBoost(profile: MoodProfile | null | undefined, item: MoodScoringContext): number {
+  if (!profile) return 0;
+
+  let boost = 0;
+
+  // Style vibes: the strongest signal
+  const vibes = item.style_vibes || [];
+  if (vibes.some((vibe) => profile.vibes.includes(vibe))) {
+    boost += 0.08;
+  } else if (vibes.length > 0) {
+    boost -= 0.03;
+  }
+
+  // Formality band: small reward inside, growing penalty outside
+  if (profile.formality && item.formality_score != null) {
+    const { min, max } = profile.formality;
+    const distance = item.formality_score < min ? min - item.formality_score : Math.max(0, item.formality_score - max);
+    boost += distance === 0 ? 0.04 : -Math.min(0.08, distance * 0.03);
+  }
+
+  // Color intensity (neutrals count as muted)
+  const primary = item.colors?.primary;
+  if (profile.saturation && primary) {
+    const tone = getColorTone(primary);
+    const muted = isNeutral(primary) || (tone !== null && tone.saturation < 40);
+    const vivid = !isNeutral(primary) && tone !== null && tone.saturation >= 55;
+    if ((profile.saturation === "muted" && muted) || (profile.saturation === "vivid" && vivid)) {
+      boost += 0.03;
+    } else if (tone !== null) {
+      boost -= 0.03;
+    }
+  }
+
+  // Fit
+  if (item.fit && profile.fits.length > 0) {
+    boost += profile.fits.includes(item.fit as ItemFit) ? 0.03 : -0.02;
+  }
+
+  return Math.max(-0.15, Math.min(0.15, boost));
+}
+
+/**
+ * Calculate aggregate mood boost for an outfit: average item boost plus the
+ * outfit's color contrast against the mood's preference
+ */
+export function calculateOutfitMoodBoost(
+  profile: MoodProfile | null | undefined,
+  items: MoodScoringContext[]
+): number {
+  if (!profile || items.length === 0) return 0;
+
+  const itemBoost = items.reduce((sum, item) => sum + getMoodItemBoost(profile, item), 0) / items.length;
+
+  let contrastBoost = 0;
+  if (profile.contrast) {
+    const contrast = calculateOutfitContrast(items.map((item) => (item.colors || {}) as ColorInfo));
+    if (profile.contrast === "high") {
+      contrastBoost = contrast >= 50 ? 0.05 : contrast < 25 ? -0.03 : 0;
+    } else {
+      contrastBoost = contrast <= 30 ? 0.05 : contrast > 60 ? -0.03 : 0;
+    }
+  }
+
+  return Math.max(-0.15, Math.min(0.15, itemBoost + contrastBoost));
+}
+
+/**
+ * Sentence for the outfit reasoning naming the mood it was picked for
+ */
+export function describeMood(profile: MoodProfile): string {
+  return `Picked for a ${profile.name.toLowerCase()} mood: ${profile.feel}.`;
+}
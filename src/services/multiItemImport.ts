@@ -0,0 +1,302 @@
+/**
+ * Multi-Item Photo Import
+ * Splits one photo containing several garments (a flat lay or a mirror selfie)
+ * into separate wardrobe items. Detected regions are cropped and held as pending
+ * detections; only the ones the user confirms become wardrobe items (and count
+ * against the item limit), each going through the normal processing pipeline.
+ */
+
+import { randomUUID } from "node:crypto";
+import { supabaseAdmin } from "./supabase.js";
+import { detectObjects, type DetectedObject } from "./ai/index.js";
+import { cropImage, storeItemImage, type NormalizedImage } from "./imageUpload.js";
+import { deleteItemImages } from "./itemStorage.js";
+import { enqueueItemProcessing } from "./processingQueue.js";
+
+export const MAX_DETECTIONS = 12;
+
+// Regions smaller than this share of the photo are noise (buttons, logos, hands)
+const MIN_REGION_AREA = 0.015;
+// Same-category boxes overlapping more than this are the same garment
+const DUPLICATE_IOU = 0.6;
+// Crops get a little margin so background removal sees the garment's edges
+const CROP_PADDING = 0.04;
+
+// Florence-2 object labels -> wardrobe category (first match wins)
+const LABEL_CATEGORIES: Array<[RegExp, string]> = [
+  [/\b(dress|gown|jumpsuit|romper)\b/, "dresses"],
+  [/\b(jacket|coat|blazer|parka|trench|cardigan|vest|windbreaker|poncho)\b/, "outerwear"],
+  [/\b(shirt|t-shirt|tee|blouse|top|sweater|jumper|hoodie|sweatshirt|tank|polo|tunic|camisole)\b/, "tops"],
+  [/\b(jeans|pants|trousers|shorts|skirt|miniskirt|leggings|chinos|joggers|sweatpants)\b/, "bottoms"],
+  [/\b(shoe|shoes|sneaker|sneakers|boot|boots|sandal|sandals|heel|heels|loafer|loafers|footwear|slipper|slippers)\b/, "shoes"],
+  [/\b(handbag|bag|backpack|purse|tote|clutch|briefcase|luggage)\b/, "bags"],
+  [/\b(watch|necklace|bracelet|earring|earrings|ring|pendant|brooch)\b/, "jewelry"],
+  [/\b(hat|cap|beanie|belt|scarf|sunglasses|glasses|tie|bow tie|glove|gloves|umbrella)\b/, "accessories"],
+];
+
+export type DetectionStatus = "pending" | "confirmed" | "discarded";
+
+export interface PhotoDetection {
+  id: string;
+  label: string;
+  category: string;
+  bbox: [number, number, number, number]; // x1, y1, x2, y2 as fractions of the photo
+  crop_url: string;
+  thumbnail_url: string;
+  thumbnails: Record<string, string>;
+  status: DetectionStatus;
+  item_id: string | null;
+}
+
+export interface PhotoImport {
+  id: string;
+  user_id: string;
+  source_image_url: string;
+  detections: PhotoDetection[];
+  status: "pending" | "completed";
+  created_at: string;
+  updated_at: string;
+}
+
+export interface GarmentRegion {
+  label: string;
+  category: string;
+  bbox: [number, number, number, number]; // Source pixels
+}
+
+export function categoryForLabel(label: string): string | null {
+  const match = LABEL_CATEGORIES.find(([pattern]) => pattern.test(label));
+  return match ? match[1] : null;
+}
+
+function area([x1, y1, x2, y2]: GarmentRegion["bbox"]): number {
+  return Math.max(0, x2 - x1) * Math.max(0, y2 - y1);
+}
+
+function intersectionOverUnion(a: GarmentRegion["bbox"], b: GarmentRegion["bbox"]): number {
+  const overlap = area([Math.max(a[0], b[0]), Math.max(a[1], b[1]), Math.min(a[2], b[2]), Math.min(a[3], b[3])]);
+  return overlap / (area(a) + area(b) - overlap || 1);
+}
+
+function union(a: GarmentRegion["bbox"], b: GarmentRegion["bbox"]): GarmentRegion["bbox"] {
+  return [Math.min(a[0], b[0]), Math.min(a[1], b[1]), Math.max(a[2], b[2]), Math.max(a[3], b[3])];
+}
+
+/**
+ * Two shoe boxes side by side are one pair: boxes that touch once widened by half their width
+ */
+function isShoePair(a: GarmentRegion["bbox"], b: GarmentRegion["bbox"]): boolean {
+  const grow = (box: GarmentRegion["bbox"]): GarmentRegion["bbox"] => {
+    const pad = (box[2] - box[0]) / 2;
+    return [box[0] - pad, box[1], box[2] + pad, box[3]];
+  };
+  return intersectionOverUnion(grow(a), grow(b)) > 0;
+}
+
+/**
+ * Turn raw detections into one region per garment: unknown labels and tiny boxes
+ * are dropped, overlapping boxes of a category collapse, shoe pairs are joined.
+ * Regions come back in reading order (top to bottom, left to right).
+ */
+export function selectGarmentRegions(objects: DetectedObject[], width: number, height: number): GarmentRegion[] {
+  const candidates: GarmentRegion[] = [];
+  for (const object of objects) {
+    const category = categoryForLabel(object.label);
+    if (!category) continue;
+
+    const bbox: GarmentRegion["bbox"] = [
+      Math.max(0, Math.min(width, object.bbox[0])),
+      Math.max(0, Math.min(height, object.bbox[1])),
+      Math.max(0, Math.min(width, object.bbox[2])),
+      Math.max(0, Math.min(height, object.bbox[3])),
+    ];
+    if (area(bbox) < MIN_REGION_AREA * width * height) continue;
+    candidates.push({ label: object.label, category, bbox });
+  }
+
+  // Largest first, so the garment-sized box absorbs the partial ones
+  candidates.sort((a, b) => area(b.bbox) - area(a.bbox));
+
+  const regions: GarmentRegion[] = [];
+  for (const candidate of candidates) {
+    const sameGarment = regions.find(
+      (region) =>
+        region.category === candidate.category &&
+        (intersectionOverUnion(region.bbox, candidate.bbox) > DUPLICATE_IOU ||
+          (candidate.category === "shoes" && isShoePair(region.bbox, candidate.bbox)))
+    );
+    if (sameGarment) {
+      if (candidate.category === "shoes") sameGarment.bbox = union(sameGarment.bbox, candidate.bbox);
+      continue;
+    }
+    regions.push({ ...candidate, bbox: [...candidate.bbox] });
+  }
+
+  return regions
+    .slice(0, MAX_DETECTIONS)
+    .sort((a, b) => a.bbox[1] - b.bbox[1] || a.bbox[0] - b.bbox[0]);
+}
+
+/**
+ * Pixel crop rectangle for a region, padded and clamped to the photo
+ */
+function cropRectangle(bbox: GarmentRegion["bbox"], width: number, height: number) {
+  const padX = (bbox[2] - bbox[0]) * CROP_PADDING;
+  const padY = (bbox[3] - bbox[1]) * CROP_PADDING;
+  const left = Math.max(0, Math.floor(bbox[0] - padX));
+  const top = Math.max(0, Math.floor(bbox[1] - padY));
+  const right = Math.min(width, Math.ceil(bbox[2] + padX));
+  const bottom = Math.min(height, Math.ceil(bbox[3] + padY));
+  return { left, top, width: right - left, height: bottom - top };
+}
+
+/**
+ * Store the photo, detect its garments and store a crop per garment.
+ * Nothing is added to the wardrobe until detections are confirmed.
+ */
+export async function createPhotoImport(userId: string, image: NormalizedImage): Promise<PhotoImport> {
+  const importId = randomUUID();
+  const source = await storeItemImage(userId, `import_${importId}`, image);
+
+  const objects = await detectObjects(source.original_image_url);
+  const regions = selectGarmentRegions(objects, image.width, image.height);
+
+  const detections: PhotoDetection[] = [];
+  for (const [index, region] of regions.entries()) {
+    const crop = await cropImage(image, cropRectangle(region.bbox, image.width, image.height));
+    const stored = await storeItemImage(userId, `import_${importId}_${index + 1}`, crop);
+
+    detections.push({
+      id: randomUUID(),
+      label: region.label,
+      category: region.category,
+      bbox: [
+        region.bbox[0] / image.width,
+        region.bbox[1] / image.height,
+        region.bbox[2] / image.width,
+        region.bbox[3] / image.height,
+      ].map((value) => Math.round(value * 1000) / 1000) as PhotoDetection["bbox"],
+      crop_url: stored.original_image_url,
+      thumbnail_url: stored.thumbnail_url,
+      thumbnails: stored.thumbnails,
+      status: "pending",
+      item_id: null,
+    });
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from("item_photo_imports")
+    .insert({
+      id: importId,
+      user_id: userId,
+      source_image_url: source.original_image_url,
+      source_thumbnails: source.thumbnails,
+      detections,
+      status: detections.length > 0 ? "pending" : "completed",
+    })
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to save photo import: ${error?.message}`);
+  }
+
+  console.log(`[Import] Photo import ${importId}: ${detections.length} garment(s) from ${objects.length} object(s)`);
+  return data as PhotoImport;
+}
+
+export async function getPhotoImport(userId: string, importId: string): Promise<PhotoImport | null> {
+  const { data } = await supabaseAdmin
+    .from("item_photo_imports")
+    .select("*")
+    .eq("id", importId)
+    .eq("user_id", userId)
+    .single();
+
+  return (data as PhotoImport | null) ?? null;
+}
+
+/**
+ * Pending detections matching the requested ids (all pending ones when no ids are given)
+ */
+export function selectPendingDetections(photoImport: PhotoImport, ids?: string[]): PhotoDetection[] {
+  return photoImport.detections.filter(
+    (detection) => detection.status === "pending" && (!ids || ids.includes(detection.id))
+  );
+}
+
+async function saveDetections(photoImport: PhotoImport): Promise<PhotoImport> {
+  const status = photoImport.detections.some((detection) => detection.status === "pending") ? "pending" : "completed";
+  const { data, error } = await supabaseAdmin
+    .from("item_photo_imports")
+    .update({ detections: photoImport.detections, status, updated_at: new Date().toISOString() })
+    .eq("id", photoImport.id)
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to update photo import: ${error?.message}`);
+  }
+  return data as PhotoImport;
+}
+
+/**
+ * Create wardrobe items for the given detections and queue them for processing.
+ * The caller checks the item limit first.
+ */
+export async function confirmDetections(
+  photoImport: PhotoImport,
+  detections: PhotoDetection[],
+  names: Record<string, string> = {}
+): Promise<{ photoImport: PhotoImport; itemIds: string[] }> {
+  const { data, error } = await supabaseAdmin
+    .from("wardrobe_items")
+    .insert(
+      detections.map((detection) => ({
+        user_id: photoImport.user_id,
+        original_image_url: detection.crop_url,
+        thumbnail_url: detection.thumbnail_url,
+        thumbnails: detection.thumbnails,
+        item_name: names[detection.id] ?? null,
+        processing_status: "processing",
+        times_worn: 0,
+        is_archived: false,
+      }))
+    )
+    .select("id, original_image_url");
+
+  if (error || !data) {
+    throw new Error(`Failed to create items: ${error?.message}`);
+  }
+
+  const itemIdByUrl = new Map(data.map((item) => [item.original_image_url as string, item.id as string]));
+  for (const detection of detections) {
+    detection.status = "confirmed";
+    detection.item_id = itemIdByUrl.get(detection.crop_url) ?? null;
+  }
+
+  await Promise.all(
+    data.map((item) =>
+      enqueueItemProcessing(item.id, item.original_image_url, photoImport.user_id).catch((err) => {
+        console.error(`[AI] Failed to queue processing for ${item.id}:`, err);
+      })
+    )
+  );
+
+  return { photoImport: await saveDetections(photoImport), itemIds: data.map((item) => item.id as string) };
+}
+
+/**
+ * Drop detections the user doesn't want, deleting their crops
+ */
+export async function discardDetections(photoImport: PhotoImport, detections: PhotoDetection[]): Promise<PhotoImport> {
+  for (const detection of detections) {
+    detection.status = "discarded";
+    await deleteItemImages(detection.id, {
+      original_image_url: detection.crop_url,
+      processed_image_url: null,
+      thumbnails: detection.thumbnails,
+    });
+  }
+  return saveDetections(photoImport);
+}
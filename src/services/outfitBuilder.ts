@@ -0,0 +1,1414 @@
+/**
+ * Outfit Builder
+ * Pure outfit selection over a loaded wardrobe: slot mapping, per-item scoring,
+ * whole-outfit search, layers, accessories and score breakdowns. No database or
+ * network access, so a seeded run is reproducible.
+ */
+
+import { getColdestTemperature, isRainLikely, LARGE_TEMP_SWING, type WeatherData } from "./weather.js";
+import {
+  filterByWeather,
+  sortBySeasonalFit,
+  type ScoredItem,
+  type WardrobeItem as SeasonalWardrobeItem,
+} from "../utils/seasonalFilter.js";
+import { cosineSimilarity } from "../utils/vectorMath.js";
+import {
+  calculateOutfitColorHarmony,
+  filterByColorCompatibility,
+  calculateOutfitUndertoneBoost,
+  getUndertoneColorBoost,
+  type ColorInfo,
+  type SkinUndertone,
+} from "./colorHarmony.js";
+import type { UserContext } from "./ai/stylingTips.js";
+import {
+  getHeightSilhouetteBoost,
+  calculateOutfitHeightBoost,
+  type HeightCategory,
+} from "./heightScoring.js";
+import {
+  getLayerRole,
+  isStandaloneTop,
+  canLayerOver,
+  getTargetLayerCount,
+  scoreLayering,
+  buildLayerOrder,
+  type OutfitLayer,
+} from "./layering.js";
+import {
+  getMoodItemBoost,
+  calculateOutfitMoodBoost,
+  describeMood,
+  type MoodProfile,
+} from "./moodScoring.js";
+import { assessWeatherSuitability, calculateOutfitWeatherScore } from "./weatherSuitability.js";
+import {
+  createRandom,
+  scoreFormalityCoherence,
+  scoreVibeCoherence,
+  searchOutfitCombinations,
+} from "./outfitSearch.js";
+import { analyzePatternMix, analyzeTextureContrast, describePatternAndTexture } from "./patternMixing.js";
+
+// Category slots for outfit generation
+const OUTFIT_SLOTS = ["top", "bottom", "footwear"] as const;
+const OPTIONAL_SLOTS = ["outerwear", "accessory"] as const;
+
+// One-piece garments (dresses, jumpsuits) cover both the top and bottom slots
+const ONEPIECE_SLOT = "onepiece" as const;
+const ONEPIECE_OUTFIT_SLOTS = [ONEPIECE_SLOT, "footwear"] as const;
+
+type OutfitSlot =
+  | (typeof OUTFIT_SLOTS)[number]
+  | (typeof OPTIONAL_SLOTS)[number]
+  | typeof ONEPIECE_SLOT;
+
+// Category to slot mapping
+const CATEGORY_TO_SLOT: Record<string, OutfitSlot> = {
+  "t-shirt": "top",
+  "t-shirts": "top",
+  shirt: "top",
+  shirts: "top",
+  blouse: "top",
+  blouses: "top",
+  top: "top",
+  tops: "top",
+  sweater: "top",
+  sweaters: "top",
+  hoodie: "top",
+  hoodies: "top",
+  tank: "top",
+  "tank top": "top",
+  polo: "top",
+  polos: "top",
+  cardigan: "top",
+  cardigans: "top",
+
+  pants: "bottom",
+  jeans: "bottom",
+  trousers: "bottom",
+  shorts: "bottom",
+  skirt: "bottom",
+  skirts: "bottom",
+  bottom: "bottom",
+  bottoms: "bottom",
+  leggings: "bottom",
+  chinos: "bottom",
+  joggers: "bottom",
+
+  dress: "onepiece",
+  dresses: "onepiece",
+  jumpsuit: "onepiece",
+  jumpsuits: "onepiece",
+  romper: "onepiece",
+  rompers: "onepiece",
+  overalls: "onepiece",
+  playsuit: "onepiece",
+  playsuits: "onepiece",
+  "one-piece": "onepiece",
+  onepiece: "onepiece",
+
+  shoes: "footwear",
+  sneakers: "footwear",
+  boots: "footwear",
+  sandals: "footwear",
+  loafers: "footwear",
+  heels: "footwear",
+  flats: "footwear",
+  footwear: "footwear",
+  oxfords: "footwear",
+  "dress shoes": "footwear",
+
+  jacket: "outerwear",
+  jackets: "outerwear",
+  coat: "outerwear",
+  coats: "outerwear",
+  blazer: "outerwear",
+  blazers: "outerwear",
+  outerwear: "outerwear",
+  vest: "outerwear",
+  vests: "outerwear",
+  parka: "outerwear",
+  parkas: "outerwear",
+
+  hat: "accessory",
+  hats: "accessory",
+  scarf: "accessory",
+  scarves: "accessory",
+  belt: "accessory",
+  belts: "accessory",
+  bag: "accessory",
+  bags: "accessory",
+  jewelry: "accessory",
+  watch: "accessory",
+  watches: "accessory",
+  sunglasses: "accessory",
+  accessory: "accessory",
+  accessories: "accessory",
+};
+
+// Accessory generation
+export const DEFAULT_MAX_ACCESSORIES = 2;
+export const MAX_ACCESSORIES_LIMIT = 4;
+const MIN_ACCESSORY_HARMONY = 0.6;
+
+// Outerwear that handles rain, favoured when rain is likely during the day
+export const RAIN_READY_OUTERWEAR = ["rain", "trench", "windbreaker", "parka", "waterproof", "anorak"];
+const RAIN_READY_BOOST = 1.3;
+
+// Score multiplier for preferred items (e.g. already packed for a trip) so outfits re-combine them
+const PREFERRED_ITEM_BOOST = 2;
+
+// Style score weights for the finished outfit (undertone/height/mood boosts are added on top)
+const STYLE_SCORE_WEIGHTS = {
+  taste: 0.3,
+  color_harmony: 0.2,
+  weather: 0.2,
+  pattern: 0.05,
+  texture: 0.05,
+  occasion: 0.1,
+};
+
+// Average formality at which tops get tucked in (drives the tucking tip and belts)
+const TUCK_FORMALITY_THRESHOLD = 5;
+
+// Accessory type by category/subcategory keyword (one of each type per outfit)
+const ACCESSORY_TYPES: Record<string, string> = {
+  belt: "belt",
+  sunglasses: "sunglasses",
+  shades: "sunglasses",
+  hat: "hat",
+  cap: "hat",
+  beanie: "hat",
+  scarf: "scarf",
+  scarves: "scarf",
+  bag: "bag",
+  tote: "bag",
+  backpack: "bag",
+  clutch: "bag",
+  watch: "watch",
+  necklace: "jewelry",
+  bracelet: "jewelry",
+  earring: "jewelry",
+  ring: "jewelry",
+  jewelry: "jewelry",
+};
+
+// Formality levels for occasions
+export const OCCASION_FORMALITY: Record<string, { min: number; max: number }> = {
+  casual: { min: 1, max: 4 },
+  "smart casual": { min: 4, max: 6 },
+  business: { min: 6, max: 8 },
+  formal: { min: 8, max: 10 },
+  workout: { min: 1, max: 2 },
+  date: { min: 4, max: 7 },
+  party: { min: 4, max: 8 },
+  outdoor: { min: 1, max: 5 },
+  travel: { min: 2, max: 5 },
+};
+
+export interface WardrobeItem {
+  id: string;
+  category?: string | null;
+  subcategory?: string | null;
+  embedding?: number[] | null;
+  colors?: {
+    primary?: string | null;
+    secondary?: string[] | null;
+    accent?: string[] | null;
+  } | null;
+  formality_score?: number | null;
+  seasons?: string[] | null;
+  occasions?: string[] | null;
+  style_vibes?: string[] | null;
+  processed_image_url?: string | null;
+  original_image_url?: string | null;
+  item_name?: string | null;
+  fit?: "oversized" | "relaxed" | "regular" | "fitted" | "slim" | null;
+  length?: "cropped" | "regular" | "longline" | null;
+  materials?: string[] | null;
+  pattern?: string | null;
+  last_worn_at?: string | null;
+}
+
+// Every component behind a core-slot item's score (top, bottom, one-piece, footwear)
+export interface ItemScoreBreakdown {
+  chosen_by: "slot_search";
+  item_id: string;
+  item_name: string | null;
+  category: string | null;
+  slot: string | null;
+  taste_similarity: number | null; // Raw cosine with the taste vector (null without embedding or taste vector)
+  taste_score: number; // Cosine mapped to 0-1 (0.5 when unknown)
+  seasonal_score: number; // Season tags and weather suitability combined
+  weather_score: number; // Weather suitability from materials/garment type
+  undertone_boost: number;
+  height_boost: number;
+  mood_boost: number;
+  cooldown_multiplier: number; // 0.3 when worn in the last 3 days
+  preference_multiplier: number; // Above 1 for preferred (e.g. packed) items
+  item_score: number; // Combined score used to rank the item against its slot
+}
+
+// What a mid/outer layer was picked on: its own score, then the stack it completes
+export interface LayerScoreBreakdown {
+  chosen_by: "layering";
+  item_id: string;
+  item_name: string | null;
+  category: string | null;
+  layer: "mid" | "outer";
+  taste_score: number;
+  cooldown_multiplier: number;
+  preference_multiplier: number;
+  mood_multiplier: number;
+  rain_ready_multiplier: number; // Boost for rain-ready outerwear when rain is likely
+  item_score: number; // Product of the above
+  layering_score: number; // Warmth/order fit of the whole stack
+  pattern_fit: number; // Pattern mixing across the stack
+  stack_score: number; // (layering 70% + item scores 30%) x pattern fit, what the stack was picked on
+}
+
+// What an accessory was picked on
+export interface AccessoryScoreBreakdown {
+  chosen_by: "accessory";
+  item_id: string;
+  item_name: string | null;
+  category: string | null;
+  accessory_type: string;
+  harmony: number; // Color harmony with the outfit it joins
+  taste_score: number;
+  pattern_fit: number; // Pattern mixing with the outfit it joins
+  cooldown_multiplier: number;
+  mood_multiplier: number;
+  item_score: number; // (harmony 60% + taste 40%) x pattern fit x cooldown x mood
+}
+
+export type OutfitItemBreakdown = ItemScoreBreakdown | LayerScoreBreakdown | AccessoryScoreBreakdown;
+
+// A rule that shaped the outfit (item_id set when it's about one item)
+export interface ScoreRule {
+  rule: string;
+  detail: string;
+  item_id?: string;
+}
+
+export interface OutfitScoreBreakdown {
+  items: OutfitItemBreakdown[];
+  outfit: {
+    taste_alignment: number;
+    color_harmony: number;
+    weather: number;
+    pattern: number;
+    texture: number;
+    formality_coherence: number;
+    vibe_coherence: number;
+    occasion_match: boolean;
+    undertone_boost: number;
+    height_boost: number;
+    mood_boost: number;
+    search_score: number; // Whole-outfit objective the core combination was picked on
+    style_score: number;
+  };
+  weights: Record<string, number>;
+  rules: ScoreRule[];
+}
+
+export interface GeneratedOutfit {
+  items: WardrobeItem[];
+  item_ids: string[];
+  layers: OutfitLayer[]; // Upper-body layer order (base -> outer)
+  style_score: number;
+  color_harmony_score: number;
+  taste_alignment_score: number;
+  weather_score: number;
+  occasion_match: boolean;
+  mood?: string; // Mood the outfit was scored for
+  // Display properties
+  name: string;
+  vibe: string;
+  reasoning: string;
+  styling_tip?: string;
+  color_harmony_description?: string;
+  confidence_score: number;
+  score_breakdown: OutfitScoreBreakdown; // Served by GET /outfits/:id/explain
+}
+
+// Everything outfit selection depends on once the wardrobe is loaded
+export interface OutfitBuildOptions {
+  weather: WeatherData;
+  tasteVector: number[] | null;
+  userContext?: UserContext;
+  occasion?: string;
+  moodProfile?: MoodProfile | null;
+  excludeItemIds?: string[];
+  preferItemIds?: string[];
+  count?: number;
+  maxAccessories?: number;
+  seed?: number; // Same wardrobe + options + seed = same outfits
+  now?: number; // Clock for wear cooldowns (epoch ms, default Date.now())
+}
+
+/**
+ * Get slot type for a category
+ */
+export function getSlotForCategory(category: string | null | undefined): string | null {
+  if (!category) return null;
+  const normalized = category.toLowerCase().trim();
+  return CATEGORY_TO_SLOT[normalized] || null;
+}
+
+/**
+ * Get slot type for an item, falling back to its subcategory
+ */
+export function getSlotForItem(item: { category?: string | null; subcategory?: string | null }): string | null {
+  return getSlotForCategory(item.category) ?? getSlotForCategory(item.subcategory);
+}
+
+export interface WardrobeCoverage {
+  top: boolean;
+  bottom: boolean;
+  onepiece: boolean;
+  footwear: boolean;
+  canGenerate: boolean; // Footwear plus top + bottom, or a one-piece
+}
+
+/**
+ * Which required slots a wardrobe can fill, using the same slot mapping as generation
+ */
+export function getWardrobeCoverage(
+  items: Array<{ category?: string | null; subcategory?: string | null }>
+): WardrobeCoverage {
+  const slots = new Set(items.map(getSlotForItem));
+  const top = slots.has("top");
+  const bottom = slots.has("bottom");
+  const onepiece = slots.has(ONEPIECE_SLOT);
+  const footwear = slots.has("footwear");
+  return { top, bottom, onepiece, footwear, canGenerate: footwear && ((top && bottom) || onepiece) };
+}
+
+/**
+ * Check whether slot groups can form a base outfit:
+ * footwear plus either top + bottom or a one-piece
+ */
+function hasBaseOutfitSlots(slotGroups: Record<string, unknown[]>): boolean {
+  const has = (slot: string) => (slotGroups[slot]?.length ?? 0) > 0;
+  return has("footwear") && ((has("top") && has("bottom")) || has(ONEPIECE_SLOT));
+}
+
+/**
+ * Decide which required slots to fill for one outfit.
+ * When both separates and one-pieces are available, pick one-pieces
+ * proportionally to how many the user owns so dresses show up naturally.
+ */
+function chooseRequiredSlots(
+  slotGroups: Record<string, ScoredItem[]>,
+  excludeIds: Set<string>,
+  random: () => number = Math.random
+): readonly string[] {
+  const available = (slot: string) =>
+    (slotGroups[slot] || []).filter((item) => !excludeIds.has(item.id)).length;
+
+  const onePieces = available(ONEPIECE_SLOT);
+  const separates = Math.min(available("top"), available("bottom"));
+
+  if (onePieces === 0) return OUTFIT_SLOTS;
+  if (separates === 0) return ONEPIECE_OUTFIT_SLOTS;
+
+  return random() < onePieces / (onePieces + separates) ? ONEPIECE_OUTFIT_SLOTS : OUTFIT_SLOTS;
+}
+
+/**
+ * Group items by slot
+ */
+function groupBySlot(items: WardrobeItem[]): Record<string, WardrobeItem[]> {
+  const groups: Record<string, WardrobeItem[]> = {
+    top: [],
+    bottom: [],
+    onepiece: [],
+    footwear: [],
+    outerwear: [],
+    accessory: [],
+    unknown: [],
+  };
+
+  for (const item of items) {
+    const slot = getSlotForItem(item);
+    if (slot && groups[slot]) {
+      groups[slot].push(item);
+    } else {
+      groups.unknown.push(item);
+    }
+  }
+
+  return groups;
+}
+
+/**
+ * Score item against user taste vector
+ */
+function scoreTasteAlignment(itemEmbedding: number[] | null, tasteVector: number[] | null): number {
+  if (!itemEmbedding || !tasteVector) return 0.5;
+  const similarity = cosineSimilarity(itemEmbedding, tasteVector);
+  // Convert from [-1, 1] to [0, 1]
+  return (similarity + 1) / 2;
+}
+
+/**
+ * Pick an item using weighted random selection from top candidates.
+ * Higher scores = higher probability of selection, but not guaranteed.
+ * This adds variety to outfit generation instead of always picking the top item.
+ */
+function weightedRandomPick<T extends { score: number }>(
+  candidates: T[],
+  topN: number = 5,
+  random: () => number = Math.random
+): T {
+  if (candidates.length === 0) throw new Error("No candidates to pick from");
+  if (candidates.length === 1) return candidates[0];
+
+  const top = candidates.slice(0, Math.min(topN, candidates.length));
+
+  // Normalize scores to ensure positive values for probability calculation
+  const minScore = Math.min(...top.map((c) => c.score));
+  const adjustedScores = top.map((c) => c.score - minScore + 0.1); // Add 0.1 to avoid zero weights
+  const totalScore = adjustedScores.reduce((sum, s) => sum + s, 0);
+
+  let remaining = random() * totalScore;
+
+  for (let i = 0; i < top.length; i++) {
+    remaining -= adjustedScores[i];
+    if (remaining <= 0) return top[i];
+  }
+
+  return top[0];
+}
+
+/**
+ * Cooldown multiplier for recently worn items: 70% reduction if worn in last 3 days
+ */
+function getCooldownMultiplier(item: WardrobeItem, now: number): number {
+  const lastWorn = item.last_worn_at ? new Date(item.last_worn_at) : null;
+  const daysSinceWorn = lastWorn
+    ? Math.floor((now - lastWorn.getTime()) / (1000 * 60 * 60 * 24))
+    : Infinity;
+
+  return daysSinceWorn < 3 ? 0.3 : 1;
+}
+
+/**
+ * Multiplier favouring preferred items (already chosen elsewhere, e.g. packed for a trip)
+ */
+function getPreferenceMultiplier(item: WardrobeItem, preferIds: Set<string>): number {
+  return preferIds.has(item.id) ? PREFERRED_ITEM_BOOST : 1;
+}
+
+/**
+ * Multiplier steering items toward the requested mood (0.7 - 1.3)
+ */
+function getMoodMultiplier(item: WardrobeItem, moodProfile: MoodProfile | null): number {
+  return 1 + getMoodItemBoost(moodProfile, item) * 2;
+}
+
+/**
+ * Score an item on its own: taste 45%, season 30%, undertone 13%, height 12%,
+ * then the cooldown, preference and mood multipliers. Returns every component.
+ */
+function scoreItemComponents(
+  item: ScoredItem,
+  tasteVector: number[] | null,
+  userContext: UserContext | undefined,
+  preferIds: Set<string>,
+  moodProfile: MoodProfile | null,
+  now: number
+): ItemScoreBreakdown {
+  const embedding = item.embedding as number[] | null;
+  const taste = scoreTasteAlignment(embedding, tasteVector);
+
+  const undertone = userContext?.skinUndertone
+    ? getUndertoneColorBoost(item.colors?.primary || "", userContext.skinUndertone as SkinUndertone)
+    : 0;
+
+  const height = userContext?.heightCategory
+    ? getHeightSilhouetteBoost(userContext.heightCategory as HeightCategory, {
+        fit: item.fit,
+        length: item.length,
+        category: item.category,
+        subcategory: item.subcategory,
+      })
+    : 0;
+
+  const cooldown = getCooldownMultiplier(item, now);
+  const preference = getPreferenceMultiplier(item, preferIds);
+  const base = taste * 0.45 + item.seasonal_score * 0.3 + (undertone + 0.15) * 0.13 + (height + 0.15) * 0.12;
+
+  return {
+    chosen_by: "slot_search",
+    item_id: item.id,
+    item_name: (item as WardrobeItem).item_name ?? null,
+    category: item.category ?? null,
+    slot: getSlotForItem(item),
+    taste_similarity: embedding && tasteVector ? cosineSimilarity(embedding, tasteVector) : null,
+    taste_score: taste,
+    seasonal_score: item.seasonal_score,
+    weather_score: item.weather_score,
+    undertone_boost: undertone,
+    height_boost: height,
+    mood_boost: getMoodItemBoost(moodProfile, item),
+    cooldown_multiplier: cooldown,
+    preference_multiplier: preference,
+    item_score: base * cooldown * preference * getMoodMultiplier(item, moodProfile),
+  };
+}
+
+/**
+ * Round every number in a breakdown to 3 decimals for storage
+ */
+function roundScores<T extends object>(scores: T): T {
+  return Object.fromEntries(
+    Object.entries(scores).map(([key, value]) => [key, typeof value === "number" ? Math.round(value * 1000) / 1000 : value])
+  ) as T;
+}
+
+/**
+ * Choose mid and/or outer layers to go over the base layer.
+ * Scores every (mid, outer) combination as a stack so warmth, color and
+ * formality work across the layers, not just per item.
+ */
+function selectLayers(
+  base: WardrobeItem,
+  slotGroups: Record<string, ScoredItem[]>,
+  tasteVector: number[] | null,
+  weather: WeatherData,
+  excludeIds: Set<string>,
+  usedColors: ColorInfo[],
+  preferIds: Set<string> = new Set(),
+  moodProfile: MoodProfile | null = null,
+  random: () => number = Math.random,
+  now: number = Date.now()
+): { mid: ScoredItem | null; outer: ScoredItem | null; breakdowns: LayerScoreBreakdown[] } {
+  const none = { mid: null, outer: null, breakdowns: [] };
+  if (getTargetLayerCount(weather) < 2) return none;
+
+  type LayerCandidate = {
+    item: ScoredItem;
+    score: number;
+    components: Pick<
+      LayerScoreBreakdown,
+      "taste_score" | "cooldown_multiplier" | "preference_multiplier" | "mood_multiplier" | "rain_ready_multiplier"
+    >;
+  };
+  const eligible = (items: ScoredItem[]): LayerCandidate[] =>
+    filterByColorCompatibility(
+      items
+        .filter((item) => !excludeIds.has(item.id) && item.weather_appropriate)
+        .map((item) => ({ ...item, colors: item.colors as ColorInfo | undefined })),
+      usedColors
+    )
+      .map((item) => {
+        const components = {
+          taste_score: scoreTasteAlignment(item.embedding as number[] | null, tasteVector),
+          cooldown_multiplier: getCooldownMultiplier(item, now),
+          preference_multiplier: getPreferenceMultiplier(item, preferIds),
+          mood_multiplier: getMoodMultiplier(item, moodProfile),
+          rain_ready_multiplier: 1,
+        };
+        return {
+          item,
+          components,
+          score:
+            components.taste_score *
+            components.cooldown_multiplier *
+            components.preference_multiplier *
+            components.mood_multiplier,
+        };
+      })
+      .sort((a, b) => b.score - a.score)
+      .slice(0, 8); // Bound the number of combinations
+
+  // Only a true base layer can take a mid layer (a sweater worn alone already is one)
+  const baseRole = getLayerRole(base) ?? "base";
+  const midCandidates =
+    baseRole === "base"
+      ? eligible((slotGroups.top || []).filter((item) => getLayerRole(item) === "mid" && canLayerOver(base, item)))
+      : [];
+  const rainLikely = isRainLikely(weather);
+  const outerCandidates = eligible(slotGroups.outerwear || [])
+    .map((c) => {
+      const text = `${c.item.subcategory || ""} ${c.item.category || ""}`.toLowerCase();
+      const rainReady = RAIN_READY_OUTERWEAR.some((k) => text.includes(k));
+      return rainLikely && rainReady
+        ? {
+            ...c,
+            score: c.score * RAIN_READY_BOOST,
+            components: { ...c.components, rain_ready_multiplier: RAIN_READY_BOOST },
+          }
+        : c;
+    })
+    .sort((a, b) => b.score - a.score);
+
+  const combos: Array<{
+    mid: LayerCandidate | null;
+    outer: LayerCandidate | null;
+    layeringScore: number;
+    patternFit: number;
+    score: number;
+  }> = [];
+
+  for (const mid of [null, ...midCandidates]) {
+    for (const outer of [null, ...outerCandidates]) {
+      if (!mid && !outer) continue;
+
+      const stack = [base, mid?.item, outer?.item].filter((l): l is WardrobeItem => !!l);
+      const layeringScore = scoreLayering(stack, weather);
+      if (layeringScore === 0) continue; // Invalid under/over combination
+
+      const added = [mid, outer].filter((l): l is LayerCandidate => !!l);
+      const itemScore = added.reduce((sum, l) => sum + l.score, 0) / added.length;
+
+      // Layers can't add a clashing pattern to the stack
+      const patternFit = analyzePatternMix(stack).score;
+      combos.push({
+        mid,
+        outer,
+        layeringScore,
+        patternFit,
+        score: (layeringScore * 0.7 + itemScore * 0.3) * patternFit,
+      });
+    }
+  }
+
+  if (combos.length === 0) return none;
+
+  // Only layer up if the stack beats the base alone
+  const baseAloneScore = scoreLayering([base], weather);
+  const better = combos.filter((c) => c.score > baseAloneScore * 0.7);
+  if (better.length === 0) return none;
+
+  better.sort((a, b) => b.score - a.score);
+  const picked = weightedRandomPick(better, 3, random);
+  const breakdowns = (["mid", "outer"] as const).flatMap((layer): LayerScoreBreakdown[] => {
+    const candidate = picked[layer];
+    if (!candidate) return [];
+    return [
+      {
+        chosen_by: "layering",
+        item_id: candidate.item.id,
+        item_name: (candidate.item as WardrobeItem).item_name ?? null,
+        category: candidate.item.category ?? null,
+        layer,
+        ...candidate.components,
+        item_score: candidate.score,
+        layering_score: picked.layeringScore,
+        pattern_fit: picked.patternFit,
+        stack_score: picked.score,
+      },
+    ];
+  });
+  return { mid: picked.mid?.item ?? null, outer: picked.outer?.item ?? null, breakdowns };
+}
+
+/**
+ * Get accessory type (belt, sunglasses, hat...) for an accessory item
+ */
+function getAccessoryType(item: WardrobeItem): string {
+  const text = `${item.subcategory || ""} ${item.category || ""}`.toLowerCase();
+  const match = Object.keys(ACCESSORY_TYPES).find((key) => text.includes(key));
+  return match ? ACCESSORY_TYPES[match] : "other";
+}
+
+/**
+ * Check if the top would be tucked in (top + bottom at smart-casual formality or above)
+ */
+function isTopTucked(items: WardrobeItem[]): boolean {
+  const core = items.filter((i) => getSlotForItem(i) !== "accessory");
+  if (core.length === 0) return false;
+
+  const hasTop = core.some((i) => getSlotForItem(i) === "top");
+  const hasBottom = core.some((i) => getSlotForItem(i) === "bottom");
+  const avgFormality = core.reduce((sum, i) => sum + (i.formality_score || 5), 0) / core.length;
+
+  return hasTop && hasBottom && avgFormality >= TUCK_FORMALITY_THRESHOLD;
+}
+
+/**
+ * Check accessory-specific rules against the core outfit and weather
+ */
+function isAccessoryAllowed(type: string, coreItems: WardrobeItem[], weather: WeatherData): boolean {
+  switch (type) {
+    case "belt":
+      // Belts only show with a tucked top, or to cinch a one-piece
+      return (
+        isTopTucked(coreItems) ||
+        coreItems.some((i) => getSlotForItem(i) === ONEPIECE_SLOT)
+      );
+    case "sunglasses":
+      // Default weather is always "clear", so only trust a real lookup
+      return weather.condition === "clear" && !weather.is_default;
+    case "scarf":
+      return weather.temperature < 15;
+    default:
+      return true;
+  }
+}
+
+/**
+ * Choose up to `maxAccessories` accessories for a finished core outfit.
+ * Each candidate is scored by color harmony against the core outfit plus taste.
+ */
+function selectAccessories(
+  coreItems: WardrobeItem[],
+  candidates: ScoredItem[],
+  tasteVector: number[] | null,
+  weather: WeatherData,
+  occasion: string | undefined,
+  excludeIds: Set<string>,
+  maxAccessories: number,
+  moodProfile: MoodProfile | null = null,
+  random: () => number = Math.random,
+  now: number = Date.now()
+): { accessories: WardrobeItem[]; breakdowns: AccessoryScoreBreakdown[] } {
+  if (maxAccessories <= 0 || candidates.length === 0) return { accessories: [], breakdowns: [] };
+
+  const coreColors = coreItems.map((item) => (item.colors || {}) as ColorInfo);
+
+  const scored = candidates
+    .filter(
+      (item) =>
+        !excludeIds.has(item.id) &&
+        item.weather_appropriate &&
+        matchesOccasion(item, occasion) &&
+        isAccessoryAllowed(getAccessoryType(item), coreItems, weather)
+    )
+    .map((item) => {
+      const harmony = calculateOutfitColorHarmony([...coreColors, (item.colors || {}) as ColorInfo]);
+      const taste = scoreTasteAlignment(item.embedding as number[] | null, tasteVector);
+      // A patterned scarf on a busy outfit is one pattern too many
+      const patternFit = analyzePatternMix([...coreItems, item]).score;
+      const cooldown = getCooldownMultiplier(item, now);
+      const mood = getMoodMultiplier(item, moodProfile);
+      const score = (harmony * 0.6 + taste * 0.4) * patternFit * cooldown * mood;
+      const breakdown: AccessoryScoreBreakdown = {
+        chosen_by: "accessory",
+        item_id: item.id,
+        item_name: (item as WardrobeItem).item_name ?? null,
+        category: item.category ?? null,
+        accessory_type: getAccessoryType(item),
+        harmony,
+        taste_score: taste,
+        pattern_fit: patternFit,
+        cooldown_multiplier: cooldown,
+        mood_multiplier: mood,
+        item_score: score,
+      };
+      return { ...item, harmony, score, breakdown };
+    })
+    .filter((item) => item.harmony >= MIN_ACCESSORY_HARMONY)
+    .sort((a, b) => b.score - a.score);
+
+  const selected: WardrobeItem[] = [];
+  const breakdowns: AccessoryScoreBreakdown[] = [];
+  const usedTypes = new Set<string>();
+
+  while (selected.length < maxAccessories) {
+    const remaining = scored.filter((item) => !usedTypes.has(getAccessoryType(item)));
+    if (remaining.length === 0) break;
+
+    const { breakdown, ...pick } = weightedRandomPick(remaining, 3, random);
+    selected.push(pick);
+    breakdowns.push(breakdown);
+    usedTypes.add(getAccessoryType(pick));
+    excludeIds.add(pick.id);
+  }
+
+  return { accessories: selected, breakdowns };
+}
+
+/**
+ * Generate a vibe descriptor for the outfit
+ */
+function generateVibe(items: WardrobeItem[], styleScore: number): string {
+  const vibes = items.flatMap((item) => item.style_vibes || []);
+  const vibeCount = vibes.reduce(
+    (acc, vibe) => {
+      acc[vibe] = (acc[vibe] || 0) + 1;
+      return acc;
+    },
+    {} as Record<string, number>
+  );
+
+  const sortedVibes = Object.entries(vibeCount).sort((a, b) => b[1] - a[1]);
+  if (sortedVibes.length > 0) {
+    return sortedVibes[0][0].charAt(0).toUpperCase() + sortedVibes[0][0].slice(1);
+  }
+
+  // Fallback based on score
+  if (styleScore > 0.8) return "Stylish";
+  if (styleScore > 0.6) return "Casual";
+  return "Everyday";
+}
+
+/**
+ * Generate a name for the outfit
+ */
+function generateOutfitName(
+  items: WardrobeItem[],
+  occasion: string | undefined,
+  vibe: string
+): string {
+  const top =
+    items.find((item) => getSlotForCategory(item.category) === "top") ||
+    items.find((item) => getSlotForCategory(item.category) === ONEPIECE_SLOT);
+  const topType = top?.subcategory || top?.category || "Top";
+
+  if (occasion) {
+    return `${vibe} ${occasion.charAt(0).toUpperCase() + occasion.slice(1)} Look`;
+  }
+
+  return `${vibe} ${topType.charAt(0).toUpperCase() + topType.slice(1)} Outfit`;
+}
+
+/**
+ * Generate reasoning for why the outfit works
+ */
+function generateReasoning(
+  items: WardrobeItem[],
+  colorHarmonyScore: number,
+  tasteScore: number,
+  occasion: string | undefined,
+  moodProfile: MoodProfile | null = null
+): string {
+  const reasons: string[] = [];
+
+  if (colorHarmonyScore > 0.7) {
+    reasons.push("Colors complement each other nicely");
+  }
+
+  if (tasteScore > 0.7) {
+    reasons.push("Matches your personal style");
+  }
+
+  if (occasion) {
+    reasons.push(`Great for ${occasion} occasions`);
+  }
+
+  const isLayered = items.filter((item) => getLayerRole(item) !== null).length > 1;
+  if (isLayered) {
+    reasons.push("Layered for versatility");
+  }
+
+  if (reasons.length === 0) {
+    reasons.push("A well-balanced combination for everyday wear");
+  }
+
+  const reasoning = reasons.join(". ") + ".";
+  return moodProfile ? `${reasoning} ${describeMood(moodProfile)}` : reasoning;
+}
+
+/**
+ * Generate a practical styling tip based on outfit composition
+ */
+function generateStylingTip(
+  items: WardrobeItem[],
+  occasion: string | undefined,
+  weather: WeatherData
+): string {
+  const tips: string[] = [];
+
+  const hasTop = items.some((i) => getSlotForCategory(i.category) === "top");
+  const hasOuterwear = items.some((i) => getSlotForCategory(i.category) === "outerwear");
+  const hasOnePiece = items.some((i) => getSlotForCategory(i.category) === ONEPIECE_SLOT);
+
+  // Get average formality
+  const avgFormality = items.reduce((sum, i) => sum + (i.formality_score || 5), 0) / items.length;
+
+  // One-pieces: define the waist instead of tucking
+  if (hasOnePiece && avgFormality >= TUCK_FORMALITY_THRESHOLD) {
+    tips.push("Cinch the waist with a belt to add shape");
+  }
+
+  // Tucking tips for formal/smart casual
+  if (isTopTucked(items)) {
+    tips.push("Tuck in the top for a more polished silhouette");
+  }
+
+  // Casual sleeve rolling
+  if (hasTop && avgFormality < 5) {
+    tips.push("Roll up the sleeves for an effortless casual look");
+  }
+
+  // Layering tips
+  if (hasOuterwear && weather.temperature > 18) {
+    tips.push("Carry the jacket—perfect for when it cools down");
+  } else if (hasOuterwear && (weather.temp_swing ?? 0) >= LARGE_TEMP_SWING) {
+    tips.push("Dress in layers you can shed as the day warms up");
+  }
+
+  // Occasion-specific
+  const hasAccessory = items.some((i) => getSlotForCategory(i.category) === "accessory");
+  if (occasion === "date" && !hasAccessory) {
+    tips.push("Add a subtle accessory to elevate the look");
+  } else if (occasion === "work" || occasion === "business") {
+    tips.push("Keep accessories minimal and professional");
+  }
+
+  return tips[0] || "A versatile combination that works as-is";
+}
+
+/**
+ * Generate description of why the outfit colors work together, plus how its
+ * patterns and textures mix
+ */
+function generateColorHarmonyDescription(items: WardrobeItem[]): string {
+  return appendPatternAndTexture(describePalette(items), items);
+}
+
+/**
+ * Add the pattern/texture sentence (if any) to a color description
+ */
+export function appendPatternAndTexture(description: string, items: WardrobeItem[]): string {
+  const mix = describePatternAndTexture(items);
+  return mix ? `${description.replace(/\.\s*$/, "")}. ${mix}` : description;
+}
+
+/**
+ * Describe the outfit's color palette
+ */
+function describePalette(items: WardrobeItem[]): string {
+  const colors = items
+    .map((i) => i.colors?.primary?.toLowerCase())
+    .filter((c): c is string => !!c);
+
+  if (colors.length < 2) {
+    return "A cohesive monochromatic palette";
+  }
+
+  // Color categories
+  const neutrals = ["black", "white", "gray", "grey", "beige", "cream", "tan", "khaki", "brown", "navy"];
+  const warms = ["red", "orange", "yellow", "coral", "burgundy", "rust", "terracotta"];
+  const cools = ["blue", "green", "teal", "mint", "purple", "lavender"];
+
+  const hasNeutrals = colors.some((c) => neutrals.some((n) => c.includes(n)));
+  const hasWarms = colors.some((c) => warms.some((w) => c.includes(w)));
+  const hasCools = colors.some((c) => cools.some((cl) => c.includes(cl)));
+
+  // All neutrals
+  if (colors.every((c) => neutrals.some((n) => c.includes(n)))) {
+    if (colors.some((c) => c.includes("navy")) && colors.some((c) => c.includes("khaki") || c.includes("tan"))) {
+      return "Navy and khaki create a timeless nautical palette";
+    }
+    if (colors.some((c) => c.includes("black")) && colors.some((c) => c.includes("white"))) {
+      return "Classic black and white for sharp contrast";
+    }
+    return "Neutrals blend seamlessly for an understated elegance";
+  }
+
+  // Warm + neutral
+  if (hasWarms && hasNeutrals && !hasCools) {
+    return "Warm tones grounded by neutrals for a balanced look";
+  }
+
+  // Cool + neutral
+  if (hasCools && hasNeutrals && !hasWarms) {
+    return "Cool tones paired with neutrals keep it fresh and refined";
+  }
+
+  // Mixed warm and cool (complementary)
+  if (hasWarms && hasCools) {
+    return "Complementary warm and cool tones add visual interest";
+  }
+
+  // Earth tones
+  if (colors.every((c) => ["brown", "tan", "olive", "khaki", "rust", "beige", "cream"].some((e) => c.includes(e)))) {
+    return "Earth tones create a naturally harmonious palette";
+  }
+
+  return "Colors work together for a cohesive outfit";
+}
+
+/**
+ * Check if item matches occasion formality
+ */
+export function matchesOccasion(item: WardrobeItem, occasion: string | undefined): boolean {
+  if (!occasion) return true;
+
+  const formalityRange = OCCASION_FORMALITY[occasion.toLowerCase()];
+  if (!formalityRange) return true;
+
+  const itemFormality = item.formality_score ?? 5; // Default to middle
+  return itemFormality >= formalityRange.min && itemFormality <= formalityRange.max;
+}
+
+/**
+ * Rules that shaped an outfit, per item (cooldown, preference, weather, occasion)
+ * and for the whole outfit (layering, mood, plus any outfit-level rules passed in)
+ */
+function collectScoreRules(
+  items: ScoredItem[],
+  itemBreakdowns: OutfitItemBreakdown[],
+  layers: OutfitLayer[],
+  weather: WeatherData,
+  occasion: string | undefined,
+  moodProfile: MoodProfile | null,
+  outfitRules: ScoreRule[]
+): ScoreRule[] {
+  const rules: ScoreRule[] = [];
+  const breakdownsById = new Map(itemBreakdowns.map((breakdown) => [breakdown.item_id, breakdown]));
+
+  for (const item of items) {
+    const breakdown = breakdownsById.get(item.id);
+    const add = (rule: string, detail: string) => rules.push({ rule, detail, item_id: item.id });
+
+    if (breakdown && breakdown.cooldown_multiplier < 1) add("cooldown", "Worn in the last 3 days, so scored down");
+    if (breakdown && "preference_multiplier" in breakdown && breakdown.preference_multiplier > 1) {
+      add("preferred_item", "Already chosen elsewhere (e.g. packed), so favoured");
+    }
+    if (!item.weather_appropriate) {
+      add("weather_fallback", "Not ideal for the weather, but nothing better was available for its slot");
+    }
+    for (const note of assessWeatherSuitability(item, weather).notes) {
+      add("weather", note.charAt(0).toUpperCase() + note.slice(1));
+    }
+    if (!matchesOccasion(item, occasion)) {
+      add("occasion_mismatch", `Formality ${item.formality_score} is outside the ${occasion} range`);
+    }
+    if (breakdown?.chosen_by === "layering" && breakdown.rain_ready_multiplier > 1) {
+      add("rain_ready_outerwear", "Favoured because rain is likely");
+    }
+  }
+
+  if (layers.length > 1) {
+    rules.push({
+      rule: "layering",
+      detail: `${layers.length} layers for ${Math.round(getColdestTemperature(weather))}C at the coldest`,
+    });
+  }
+  if (moodProfile) {
+    rules.push({ rule: "mood", detail: describeMood(moodProfile) });
+  }
+
+  return [...rules, ...outfitRules];
+}
+
+/**
+ * Generate a single outfit: the required slots are searched together for the best
+ * whole-outfit combination, then layers and accessories are added around it
+ */
+function generateSingleOutfit(
+  slotGroups: Record<string, ScoredItem[]>,
+  tasteVector: number[] | null,
+  weather: WeatherData,
+  occasion: string | undefined,
+  excludeIds: Set<string>,
+  userContext?: UserContext,
+  maxAccessories: number = DEFAULT_MAX_ACCESSORIES,
+  preferIds: Set<string> = new Set(),
+  moodProfile: MoodProfile | null = null,
+  random: () => number = Math.random,
+  now: number = Date.now()
+): GeneratedOutfit | null {
+  // Separates (top + bottom) or a one-piece, always with footwear
+  const requiredSlots = chooseRequiredSlots(slotGroups, excludeIds, random);
+  const slotCandidates: Array<Array<ScoredItem & { score: number }>> = [];
+
+  // Select items for required slots
+  for (const slot of requiredSlots) {
+    const candidates = slotGroups[slot] || [];
+
+    // Filter by:
+    // 1. Not excluded
+    // 2. Occasion match
+    // 3. Weather appropriate
+    let filtered = candidates.filter(
+      (item) =>
+        !excludeIds.has(item.id) &&
+        matchesOccasion(item, occasion) &&
+        item.weather_appropriate
+    );
+
+    // The top slot is the base layer: skip open layers (cardigans, vests) that need something underneath
+    if (slot === "top") {
+      const standalone = filtered.filter((item) => isStandaloneTop(item));
+      if (standalone.length > 0) filtered = standalone;
+    }
+
+    // Debug logging
+    console.log(
+      `[OutfitGen] Slot ${slot}: ${candidates.length} candidates, ${filtered.length} after weather filter`
+    );
+
+    // FOOTWEAR FALLBACK: If no weather-appropriate footwear, use any available
+    // Better to suggest sneakers in cold weather than fail to generate an outfit
+    if (filtered.length === 0 && slot === "footwear") {
+      const fallback = candidates.filter(
+        (item) => !excludeIds.has(item.id) && matchesOccasion(item, occasion)
+      );
+      if (fallback.length > 0) {
+        console.log(
+          `[OutfitGen] No weather-appropriate footwear, falling back to ${fallback.length} available`
+        );
+        filtered = fallback;
+      }
+    }
+
+    if (filtered.length === 0) {
+      // Required slot not fillable
+      console.log(`[OutfitGen] No suitable item for slot: ${slot}`);
+      return null;
+    }
+
+    // Calculate scores for each candidate (with cooldown penalty for recently worn items)
+    const scored = filtered.map((item) => ({
+      ...item,
+      score: scoreItemComponents(item, tasteVector, userContext, preferIds, moodProfile, now).item_score,
+    }));
+    slotCandidates.push(scored);
+  }
+
+  // Search the slots together: color harmony, formality and vibe coherence and
+  // pattern mixing are judged across the whole outfit, not slot by slot
+  const combinations = searchOutfitCombinations(slotCandidates);
+  if (combinations.length === 0) {
+    console.log(`[OutfitGen] No valid combination for slots: ${requiredSlots.join(", ")}`);
+    return null;
+  }
+
+  // Weighted random selection from the top 5 combinations for variety
+  const picked = weightedRandomPick(combinations, 5, random);
+  const selectedItems: WardrobeItem[] = [...picked.items];
+  const usedColors = selectedItems.filter((item) => item.colors).map((item) => item.colors as ColorInfo);
+  for (const item of selectedItems) excludeIds.add(item.id);
+
+  // Layering: add mid and/or outer layers over the base when the weather calls for it
+  const base = selectedItems.find((item) => {
+    const slot = getSlotForItem(item);
+    return slot === "top" || slot === ONEPIECE_SLOT;
+  });
+  let layers: OutfitLayer[] = [];
+  let layerBreakdowns: LayerScoreBreakdown[] = [];
+  if (base) {
+    const { mid, outer, breakdowns } = selectLayers(
+      base,
+      slotGroups,
+      tasteVector,
+      weather,
+      excludeIds,
+      usedColors,
+      preferIds,
+      moodProfile,
+      random,
+      now
+    );
+    for (const layer of [mid, outer]) {
+      if (!layer) continue;
+      selectedItems.push(layer);
+      excludeIds.add(layer.id);
+    }
+    layers = buildLayerOrder({ base, mid, outer });
+    layerBreakdowns = breakdowns;
+  }
+
+  // Accessories: finishing touches chosen against the complete core outfit
+  const { accessories, breakdowns: accessoryBreakdowns } = selectAccessories(
+    selectedItems,
+    slotGroups.accessory || [],
+    tasteVector,
+    weather,
+    occasion,
+    excludeIds,
+    maxAccessories,
+    moodProfile,
+    random,
+    now
+  );
+  selectedItems.push(...accessories);
+
+  // Calculate scores
+  const tasteScores = selectedItems.map((item) =>
+    scoreTasteAlignment(item.embedding as number[] | null, tasteVector)
+  );
+  const avgTasteScore = tasteScores.reduce((a, b) => a + b, 0) / tasteScores.length;
+
+  const colorHarmonyScore = calculateOutfitColorHarmony(
+    selectedItems.map((item) => (item.colors || {}) as ColorInfo)
+  );
+
+  // Weather fit from what the pieces are made of (shell pieces count double in rain/wind)
+  const avgWeatherScore = calculateOutfitWeatherScore(selectedItems, weather);
+
+  const occasionMatch = selectedItems.every((item) => matchesOccasion(item, occasion));
+
+  // Calculate undertone boost for the whole outfit
+  const undertoneBoost = calculateOutfitUndertoneBoost(
+    selectedItems.map((item) => (item.colors || {}) as ColorInfo),
+    userContext?.skinUndertone as SkinUndertone | undefined
+  );
+
+  // Calculate height silhouette boost for the whole outfit
+  const heightBoost = calculateOutfitHeightBoost(
+    userContext?.heightCategory as HeightCategory | undefined,
+    selectedItems.map((item) => ({
+      fit: item.fit,
+      length: item.length,
+      category: item.category,
+      subcategory: item.subcategory,
+    }))
+  );
+
+  // Mood fit of the whole outfit (vibes, formality, saturation, fit and color contrast)
+  const moodBoost = calculateOutfitMoodBoost(moodProfile, selectedItems);
+
+  // Pattern mixing and material/texture contrast across the finished outfit
+  const patternMix = analyzePatternMix(selectedItems);
+  const textureContrast = analyzeTextureContrast(selectedItems);
+
+  // Combined style score (undertone/height/mood boosts add up to +/-0.15 each)
+  const styleScore =
+    avgTasteScore * STYLE_SCORE_WEIGHTS.taste +
+    colorHarmonyScore * STYLE_SCORE_WEIGHTS.color_harmony +
+    avgWeatherScore * STYLE_SCORE_WEIGHTS.weather +
+    patternMix.score * STYLE_SCORE_WEIGHTS.pattern +
+    textureContrast.score * STYLE_SCORE_WEIGHTS.texture +
+    (occasionMatch ? STYLE_SCORE_WEIGHTS.occasion : 0) +
+    undertoneBoost +
+    heightBoost +
+    moodBoost;
+
+  // Every component behind the scores, for GET /outfits/:id/explain. Each item
+  // reports the score it was actually picked on (slot search, layering or accessories).
+  const itemBreakdowns: OutfitItemBreakdown[] = [
+    ...picked.items.map((item) => scoreItemComponents(item, tasteVector, userContext, preferIds, moodProfile, now)),
+    ...layerBreakdowns,
+    ...accessoryBreakdowns,
+  ];
+  const formalityCoherence = scoreFormalityCoherence(selectedItems);
+  const scoreBreakdown: OutfitScoreBreakdown = {
+    items: itemBreakdowns.map((item) => roundScores(item)),
+    outfit: roundScores({
+      taste_alignment: avgTasteScore,
+      color_harmony: colorHarmonyScore,
+      weather: avgWeatherScore,
+      pattern: patternMix.score,
+      texture: textureContrast.score,
+      formality_coherence: formalityCoherence,
+      vibe_coherence: scoreVibeCoherence(selectedItems),
+      occasion_match: occasionMatch,
+      undertone_boost: undertoneBoost,
+      height_boost: heightBoost,
+      mood_boost: moodBoost,
+      search_score: picked.score,
+      style_score: styleScore,
+    }),
+    weights: STYLE_SCORE_WEIGHTS,
+    rules: collectScoreRules(selectedItems as ScoredItem[], itemBreakdowns, layers, weather, occasion, moodProfile, [
+      ...(formalityCoherence < 1
+        ? [{ rule: "formality_spread", detail: "The pieces sit at noticeably different formality levels" }]
+        : []),
+      ...patternMix.notes.map((detail) => ({ rule: "pattern_mix", detail })),
+      ...textureContrast.notes.map((detail) => ({ rule: "texture", detail })),
+    ]),
+  };
+
+  // Generate display properties
+  const vibe = generateVibe(selectedItems, styleScore);
+  const name = generateOutfitName(selectedItems, occasion, vibe);
+  const reasoning = generateReasoning(selectedItems, colorHarmonyScore, avgTasteScore, occasion, moodProfile);
+  const stylingTip = generateStylingTip(selectedItems, occasion, weather);
+  const colorHarmonyDesc = generateColorHarmonyDescription(selectedItems);
+
+  return {
+    items: selectedItems,
+    item_ids: selectedItems.map((item) => item.id),
+    layers,
+    style_score: Math.round(styleScore * 100) / 100,
+    color_harmony_score: Math.round(colorHarmonyScore * 100) / 100,
+    taste_alignment_score: Math.round(avgTasteScore * 100) / 100,
+    weather_score: Math.round(avgWeatherScore * 100) / 100,
+    occasion_match: occasionMatch,
+    mood: moodProfile?.id,
+    name,
+    vibe,
+    reasoning,
+    styling_tip: stylingTip,
+    color_harmony_description: colorHarmonyDesc,
+    confidence_score: Math.round(styleScore * 100) / 100,
+    score_breakdown: scoreBreakdown,
+  };
+}
+
+/**
+ * Pick outfits from an already-loaded wardrobe. No I/O, so the same wardrobe,
+ * context, seed and clock always give the same outfits (descriptions are added by the caller).
+ */
+export function buildOutfits(wardrobe: WardrobeItem[], options: OutfitBuildOptions): GeneratedOutfit[] {
+  const {
+    weather,
+    tasteVector,
+    userContext,
+    occasion,
+    moodProfile = null,
+    excludeItemIds = [],
+    preferItemIds = [],
+    count = 3,
+    maxAccessories = DEFAULT_MAX_ACCESSORIES,
+    seed,
+    now = Date.now(),
+  } = options;
+
+  // Filter by weather and score items
+  const scoredItems = filterByWeather(wardrobe as SeasonalWardrobeItem[], weather);
+  const sortedItems = sortBySeasonalFit(scoredItems);
+
+  // Group by slot
+  const slotGroups = groupBySlot(sortedItems) as Record<string, ScoredItem[]>;
+
+  // Debug: Log items by slot
+  console.log(
+    `[OutfitGen] Items by slot: top=${slotGroups.top?.length || 0}, bottom=${slotGroups.bottom?.length || 0}, onepiece=${slotGroups.onepiece?.length || 0}, footwear=${slotGroups.footwear?.length || 0}, outerwear=${slotGroups.outerwear?.length || 0}, accessory=${slotGroups.accessory?.length || 0}, unknown=${slotGroups.unknown?.length || 0}`
+  );
+
+  // Log unknown categories for debugging
+  if (slotGroups.unknown?.length > 0) {
+    const unknownCats = slotGroups.unknown.map((i) => i.category).join(", ");
+    console.log(`[OutfitGen] Unrecognized categories: ${unknownCats}`);
+  }
+
+  // Check if we have items in required slots (top + bottom, or a one-piece, plus footwear)
+  if (!hasBaseOutfitSlots(slotGroups)) {
+    const missing = OUTFIT_SLOTS.filter((slot) => (slotGroups[slot]?.length ?? 0) === 0);
+    console.log(`[OutfitGen] Missing items in required slots: ${missing.join(", ")}`);
+    return [];
+  }
+
+  // Generate multiple outfits
+  const outfits: GeneratedOutfit[] = [];
+  const globalExclude = new Set(excludeItemIds);
+  const preferIds = new Set(preferItemIds);
+  const random = createRandom(seed);
+
+  for (let i = 0; i < count; i++) {
+    // Each outfit uses a fresh exclude set but builds on global excludes
+    const outfit = generateSingleOutfit(
+      slotGroups,
+      tasteVector,
+      weather,
+      occasion,
+      new Set(globalExclude),
+      userContext,
+      maxAccessories,
+      preferIds,
+      moodProfile,
+      random,
+      now
+    );
+
+    if (outfit) {
+      outfits.push(outfit);
+      // Add these items to global exclude for variety
+      outfit.item_ids.forEach((id) => globalExclude.add(id));
+    }
+  }
+
+  // Sort by style score
+  return outfits.sort((a, b) => b.style_score - a.style_score);
+}
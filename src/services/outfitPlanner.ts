@@ -0,0 +1,464 @@
+/**
+ * Outfit Planner Service
+ * Plans outfits for future dates and multi-day trips using forecast weather,
+ * keeping items from repeating within a cooldown window
+ */
+
+import { supabaseAdmin } from "./supabase.js";
+import { generateOutfits, saveGeneratedOutfit } from "./outfitGenerator.js";
+import type { GeneratedOutfit } from "./outfitBuilder.js";
+import {
+  getForecastByCoords,
+  getForecastByCity,
+  getWeatherByCoords,
+  getWeatherByCity,
+  getDefaultWeather,
+  type WeatherData,
+} from "./weather.js";
+
+export const MAX_PLAN_DAYS = 14;
+export const DEFAULT_PLAN_COOLDOWN_DAYS = 3;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PlanLocation {
+  lat?: number;
+  lon?: number;
+  city?: string;
+}
+
+export interface PlanDayInput {
+  date: string; // "YYYY-MM-DD"
+  location?: PlanLocation | null;
+  occasion?: string | null;
+}
+
+export interface CreatePlanParams {
+  userId: string;
+  startDate: string;
+  endDate: string;
+  cooldownDays?: number;
+  name?: string | null;
+  days?: PlanDayInput[];
+  defaultLocation?: PlanLocation | null;
+}
+
+export interface PlannedDay {
+  date: string;
+  outfit_id: string | null;
+  locked: boolean;
+  occasion: string | null;
+  location: PlanLocation | null;
+  weather: WeatherData;
+  cooldown_relaxed: boolean; // Cooldown had to be ignored to style this day
+  item_ids: string[];
+  outfit: GeneratedOutfit | null; // Freshly generated outfit (null for locked days)
+}
+
+export interface PlanResult {
+  plan_id: string;
+  cooldown_days: number;
+  days: PlannedDay[];
+}
+
+/**
+ * Validate a "YYYY-MM-DD" date string
+ */
+export function isValidPlanDate(date: unknown): date is string {
+  return typeof date === "string" && DATE_PATTERN.test(date) && !isNaN(Date.parse(`${date}T00:00:00Z`));
+}
+
+/**
+ * Expand an inclusive date range into "YYYY-MM-DD" strings
+ */
+export function getDateRange(startDate: string, endDate: string): string[] {
+  const dates: string[] = [];
+  const end = Date.parse(`${endDate}T00:00:00Z`);
+  for (let t = Date.parse(`${startDate}T00:00:00Z`); t <= end; t += DAY_MS) {
+    dates.push(new Date(t).toISOString().split("T")[0]);
+  }
+  return dates;
+}
+
+/**
+ * Days between two "YYYY-MM-DD" dates (absolute)
+ */
+function daysBetween(a: string, b: string): number {
+  return Math.abs(Date.parse(`${a}T00:00:00Z`) - Date.parse(`${b}T00:00:00Z`)) / DAY_MS;
+}
+
+/**
+ * Check a location has usable coordinates or a city
+ */
+export function isValidPlanLocation(location: unknown): location is PlanLocation {
+  if (!location || typeof location !== "object") return false;
+  const loc = location as PlanLocation;
+  const hasCoords = typeof loc.lat === "number" && typeof loc.lon === "number";
+  const hasCity = typeof loc.city === "string" && loc.city.trim().length > 0;
+  return hasCoords || hasCity;
+}
+
+/**
+ * Get weather for a planned day: forecast if within the forecast window,
+ * otherwise current conditions at the location, otherwise neutral defaults
+ */
+export async function getWeatherForDay(
+  location: PlanLocation | null | undefined,
+  date: string
+): Promise<WeatherData> {
+  if (!location) return getDefaultWeather();
+
+  if (typeof location.lat === "number" && typeof location.lon === "number") {
+    return (
+      (await getForecastByCoords(location.lat, location.lon, date)) ||
+      (await getWeatherByCoords(location.lat, location.lon)) ||
+      getDefaultWeather()
+    );
+  }
+
+  if (location.city) {
+    return (
+      (await getForecastByCity(location.city, date)) ||
+      (await getWeatherByCity(location.city)) ||
+      getDefaultWeather()
+    );
+  }
+
+  return getDefaultWeather();
+}
+
+/**
+ * Item IDs worn on days within the cooldown window of `date`
+ */
+export function getCooldownExcludes(
+  itemsByDate: Map<string, string[]>,
+  date: string,
+  cooldownDays: number
+): string[] {
+  if (cooldownDays <= 0) return [];
+
+  const excluded = new Set<string>();
+  for (const [otherDate, itemIds] of itemsByDate) {
+    if (otherDate !== date && daysBetween(otherDate, date) < cooldownDays) {
+      itemIds.forEach((id) => excluded.add(id));
+    }
+  }
+  return [...excluded];
+}
+
+/**
+ * Get locked outfits for a user in a date range, keyed by target_date
+ */
+export async function getLockedOutfits(
+  userId: string,
+  startDate: string,
+  endDate: string
+): Promise<Map<string, { id: string; items: string[]; occasion: string | null }>> {
+  const { data, error } = await supabaseAdmin
+    .from("generated_outfits")
+    .select("id, items, occasion, target_date")
+    .eq("user_id", userId)
+    .eq("is_locked", true)
+    .gte("target_date", startDate)
+    .lte("target_date", endDate);
+
+  if (error) {
+    console.error("[Planner] Failed to fetch locked outfits:", error);
+    return new Map();
+  }
+
+  return new Map(
+    (data || []).map((row) => [
+      row.target_date as string,
+      { id: row.id, items: row.items || [], occasion: row.occasion },
+    ])
+  );
+}
+
+/**
+ * Check whether a user has a locked outfit for a given date
+ */
+export async function hasLockedOutfit(userId: string, date: string): Promise<boolean> {
+  const { count } = await supabaseAdmin
+    .from("generated_outfits")
+    .select("id", { count: "exact", head: true })
+    .eq("user_id", userId)
+    .eq("is_locked", true)
+    .eq("target_date", date);
+
+  return (count ?? 0) > 0;
+}
+
+/**
+ * Generate one outfit for a planned day, honouring the cooldown when possible
+ */
+export async function generatePlannedOutfit(
+  userId: string,
+  date: string,
+  weather: WeatherData,
+  occasion: string | null,
+  cooldownExcludes: string[]
+): Promise<{ outfit: GeneratedOutfit | null; cooldownRelaxed: boolean }> {
+  const { outfits } = await generateOutfits({
+    userId,
+    occasion: occasion ?? undefined,
+    weather,
+    excludeItemIds: cooldownExcludes,
+    count: 1,
+  });
+
+  if (outfits.length > 0) {
+    return { outfit: outfits[0], cooldownRelaxed: false };
+  }
+
+  if (cooldownExcludes.length === 0) {
+    return { outfit: null, cooldownRelaxed: false };
+  }
+
+  // Wardrobe too small to honour the cooldown - repeat items rather than leave the day empty
+  console.log(`[Planner] Relaxing cooldown for ${date} (${cooldownExcludes.length} items excluded)`);
+  const retry = await generateOutfits({
+    userId,
+    occasion: occasion ?? undefined,
+    weather,
+    count: 1,
+  });
+
+  return { outfit: retry.outfits[0] ?? null, cooldownRelaxed: true };
+}
+
+/**
+ * Save a generated outfit as part of a plan
+ */
+export async function savePlannedOutfit(
+  userId: string,
+  planId: string,
+  date: string,
+  outfit: GeneratedOutfit,
+  weather: WeatherData,
+  occasion: string | null,
+  location: PlanLocation | null
+): Promise<string | null> {
+  const outfitId = await saveGeneratedOutfit(
+    userId,
+    outfit,
+    occasion ?? undefined,
+    weather,
+    "planned",
+    date
+  );
+  if (!outfitId) return null;
+
+  // Planned outfits live until the end of their day, not 24h from generation
+  const expiresAt = new Date(Date.parse(`${date}T00:00:00Z`) + 2 * DAY_MS).toISOString();
+
+  const { error } = await supabaseAdmin
+    .from("generated_outfits")
+    .update({
+      plan_id: planId,
+      is_locked: false,
+      plan_location: location,
+      expires_at: expiresAt,
+    })
+    .eq("id", outfitId);
+
+  if (error) {
+    console.warn(`[Planner] Failed to link outfit ${outfitId} to plan ${planId}:`, error);
+  }
+
+  return outfitId;
+}
+
+/**
+ * Create an outfit plan: one outfit per day across the date range.
+ * Locked outfits already in the range are kept and count towards the cooldown.
+ */
+export async function createOutfitPlan(params: CreatePlanParams): Promise<PlanResult> {
+  const {
+    userId,
+    startDate,
+    endDate,
+    cooldownDays = DEFAULT_PLAN_COOLDOWN_DAYS,
+    name = null,
+    days = [],
+    defaultLocation = null,
+  } = params;
+
+  const dates = getDateRange(startDate, endDate);
+  console.log(`[Planner] Planning ${dates.length} days (${startDate} -> ${endDate}) for user ${userId}`);
+
+  const { data: plan, error } = await supabaseAdmin
+    .from("outfit_plans")
+    .insert({
+      user_id: userId,
+      name,
+      start_date: startDate,
+      end_date: endDate,
+      cooldown_days: cooldownDays,
+    })
+    .select("id")
+    .single();
+
+  if (error || !plan) {
+    throw new Error(`Failed to create plan: ${error?.message || "unknown error"}`);
+  }
+
+  // Re-planning a range replaces earlier unlocked planned outfits for those dates
+  const { error: clearError } = await supabaseAdmin
+    .from("generated_outfits")
+    .delete()
+    .eq("user_id", userId)
+    .eq("is_locked", false)
+    .not("plan_id", "is", null)
+    .gte("target_date", startDate)
+    .lte("target_date", endDate);
+
+  if (clearError) {
+    console.warn("[Planner] Failed to clear previous planned outfits:", clearError);
+  }
+
+  const dayInputs = new Map(days.map((d) => [d.date, d]));
+  const locked = await getLockedOutfits(userId, startDate, endDate);
+
+  // Items already committed per date (locked days count in both directions)
+  const itemsByDate = new Map<string, string[]>();
+  for (const [date, outfit] of locked) {
+    itemsByDate.set(date, outfit.items);
+  }
+
+  const plannedDays: PlannedDay[] = [];
+
+  for (const date of dates) {
+    const input = dayInputs.get(date);
+    const location = input?.location ?? defaultLocation;
+    const occasion = input?.occasion ?? null;
+    const weather = await getWeatherForDay(location, date);
+
+    const lockedOutfit = locked.get(date);
+    if (lockedOutfit) {
+      console.log(`[Planner] ${date} is locked, keeping outfit ${lockedOutfit.id}`);
+      plannedDays.push({
+        date,
+        outfit_id: lockedOutfit.id,
+        locked: true,
+        occasion: lockedOutfit.occasion,
+        location,
+        weather,
+        cooldown_relaxed: false,
+        item_ids: lockedOutfit.items,
+        outfit: null,
+      });
+      continue;
+    }
+
+    const excludes = getCooldownExcludes(itemsByDate, date, cooldownDays);
+    const { outfit, cooldownRelaxed } = await generatePlannedOutfit(
+      userId,
+      date,
+      weather,
+      occasion,
+      excludes
+    );
+
+    let outfitId: string | null = null;
+    if (outfit) {
+      outfitId = await savePlannedOutfit(userId, plan.id, date, outfit, weather, occasion, location);
+      itemsByDate.set(date, outfit.item_ids);
+    } else {
+      console.log(`[Planner] Could not generate an outfit for ${date}`);
+    }
+
+    plannedDays.push({
+      date,
+      outfit_id: outfitId,
+      locked: false,
+      occasion,
+      location,
+      weather,
+      cooldown_relaxed: cooldownRelaxed,
+      item_ids: outfit?.item_ids ?? [],
+      outfit,
+    });
+  }
+
+  console.log(
+    `[Planner] Plan ${plan.id}: ${plannedDays.filter((d) => d.outfit_id).length}/${dates.length} days styled`
+  );
+
+  return { plan_id: plan.id, cooldown_days: cooldownDays, days: plannedDays };
+}
+
+/**
+ * Regenerate a single unlocked planned outfit, respecting the plan's cooldown
+ * against the other days in the plan
+ */
+export async function regeneratePlannedDay(
+  userId: string,
+  outfitId: string
+): Promise<{ outfitId: string; outfit: GeneratedOutfit; cooldownRelaxed: boolean } | null> {
+  const { data: existing } = await supabaseAdmin
+    .from("generated_outfits")
+    .select("id, plan_id, target_date, occasion, plan_location, is_locked")
+    .eq("id", outfitId)
+    .eq("user_id", userId)
+    .single();
+
+  if (!existing?.plan_id || !existing.target_date || existing.is_locked) return null;
+
+  const { data: plan } = await supabaseAdmin
+    .from("outfit_plans")
+    .select("id, cooldown_days")
+    .eq("id", existing.plan_id)
+    .single();
+
+  const cooldownDays = plan?.cooldown_days ?? DEFAULT_PLAN_COOLDOWN_DAYS;
+  const date = existing.target_date as string;
+
+  // Other outfits in this plan plus any locked outfits nearby
+  const windowStart = new Date(Date.parse(`${date}T00:00:00Z`) - cooldownDays * DAY_MS).toISOString().split("T")[0];
+  const windowEnd = new Date(Date.parse(`${date}T00:00:00Z`) + cooldownDays * DAY_MS).toISOString().split("T")[0];
+
+  const { data: neighbours } = await supabaseAdmin
+    .from("generated_outfits")
+    .select("id, items, target_date")
+    .eq("user_id", userId)
+    .or(`plan_id.eq.${existing.plan_id},is_locked.eq.true`)
+    .gte("target_date", windowStart)
+    .lte("target_date", windowEnd)
+    .neq("id", outfitId);
+
+  const itemsByDate = new Map<string, string[]>();
+  for (const row of neighbours || []) {
+    const items = itemsByDate.get(row.target_date) || [];
+    itemsByDate.set(row.target_date, [...items, ...(row.items || [])]);
+  }
+
+  const location = (existing.plan_location as PlanLocation | null) ?? null;
+  const weather = await getWeatherForDay(location, date);
+  const { outfit, cooldownRelaxed } = await generatePlannedOutfit(
+    userId,
+    date,
+    weather,
+    existing.occasion,
+    getCooldownExcludes(itemsByDate, date, cooldownDays)
+  );
+
+  if (!outfit) return null;
+
+  const newId = await savePlannedOutfit(
+    userId,
+    existing.plan_id,
+    date,
+    outfit,
+    weather,
+    existing.occasion,
+    location
+  );
+  if (!newId) return null;
+
+  // Replace the old planned outfit
+  await supabaseAdmin.from("generated_outfits").delete().eq("id", outfitId).eq("user_id", userId);
+
+  return { outfitId: newId, outfit, cooldownRelaxed };
+}
@@ -0,0 +1,165 @@
+/**
+ * Outfit Search Service
+ * Beam search over candidate tuples (one item per required slot) so the whole
+ * outfit is optimized together: color harmony, formality and style-vibe coherence,
+ * pattern mixing, texture contrast and the per-item scores (taste, season, undertone, height...).
+ */
+
+import { calculateOutfitColorHarmony, type ColorInfo } from "./colorHarmony.js";
+import { analyzePatternMix, analyzeTextureContrast } from "./patternMixing.js";
+
+export interface SearchItem {
+  id: string;
+  category?: string | null;
+  subcategory?: string | null;
+  colors?: ColorInfo | null;
+  formality_score?: number | null;
+  style_vibes?: string[] | null;
+  pattern?: string | null;
+  materials?: string[] | null;
+}
+
+export interface OutfitCoherence {
+  color_harmony: number;
+  formality: number;
+  vibe: number;
+  pattern: number;
+  texture: number;
+}
+
+export interface ScoredCombination<T> {
+  items: T[];
+  item_score: number; // Average per-item score
+  coherence: OutfitCoherence;
+  score: number;
+}
+
+export interface BeamSearchOptions {
+  beamWidth?: number; // Partial outfits kept after each slot
+  candidatesPerSlot?: number; // Best-scoring items considered per slot
+}
+
+export const DEFAULT_BEAM_WIDTH = 10;
+export const DEFAULT_CANDIDATES_PER_SLOT = 15;
+
+// Objective weights (sum to 1)
+const OBJECTIVE_WEIGHTS = {
+  item: 0.35,
+  color_harmony: 0.25,
+  formality: 0.1,
+  vibe: 0.1,
+  pattern: 0.1,
+  texture: 0.1,
+};
+
+// Formality range (1-10 scale) that still reads as one outfit
+const FORMALITY_SPREAD_TOLERANCE = 2;
+
+/**
+ * Random source: seeded (mulberry32) for reproducible outfits, Math.random otherwise
+ */
+export function createRandom(seed?: number): () => number {
+  if (seed === undefined) return Math.random;
+
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Formality coherence: 1 while the pieces sit within a couple of points, falling to 0 at the extremes
+ */
+export function scoreFormalityCoherence(items: SearchItem[]): number {
+  const scores = items.map((item) => item.formality_score).filter((f): f is number => f != null);
+  if (scores.length < 2) return 1;
+
+  const spread = Math.max(...scores) - Math.min(...scores);
+  return Math.max(0, 1 - Math.max(0, spread - FORMALITY_SPREAD_TOLERANCE) / 6);
+}
+
+/**
+ * Style-vibe coherence: share of tagged items carrying the outfit's dominant vibe
+ */
+export function scoreVibeCoherence(items: SearchItem[]): number {
+  const tagged = items.filter((item) => (item.style_vibes?.length ?? 0) > 0);
+  if (tagged.length < 2) return 1;
+
+  const counts = new Map<string, number>();
+  for (const item of tagged) {
+    for (const vibe of new Set(item.style_vibes)) {
+      counts.set(vibe, (counts.get(vibe) ?? 0) + 1);
+    }
+  }
+  return Math.max(...counts.values()) / tagged.length;
+}
+
+/**
+ * How well a set of items works together as one outfit
+ */
+export function scoreOutfitCoherence(items: SearchItem[]): OutfitCoherence {
+  return {
+    color_harmony: calculateOutfitColorHarmony(items.map((item) => (item.colors || {}) as ColorInfo)),
+    formality: scoreFormalityCoherence(items),
+    vibe: scoreVibeCoherence(items),
+    pattern: analyzePatternMix(items).score,
+    texture: analyzeTextureContrast(items).score,
+  };
+}
+
+function scoreCombination<T extends SearchItem>(items: T[], itemScores: Map<string, number>): ScoredCombination<T> {
+  const itemScore = items.reduce((sum, item) => sum + (itemScores.get(item.id) ?? 0), 0) / items.length;
+  const coherence = scoreOutfitCoherence(items);
+  const score =
+    itemScore * OBJECTIVE_WEIGHTS.item +
+    coherence.color_harmony * OBJECTIVE_WEIGHTS.color_harmony +
+    coherence.formality * OBJECTIVE_WEIGHTS.formality +
+    coherence.vibe * OBJECTIVE_WEIGHTS.vibe +
+    coherence.pattern * OBJECTIVE_WEIGHTS.pattern +
+    coherence.texture * OBJECTIVE_WEIGHTS.texture;
+
+  return { items, item_score: itemScore, coherence, score };
+}
+
+/**
+ * Beam search over one item per slot. Each slot's candidates carry their own
+ * per-item score; partial outfits are ranked by the whole-outfit objective after
+ * every slot. Returns complete outfits, best first (empty if a slot has no candidates).
+ */
+export function searchOutfitCombinations<T extends SearchItem & { score: number }>(
+  slotCandidates: T[][],
+  options: BeamSearchOptions = {}
+): ScoredCombination<T>[] {
+  const beamWidth = options.beamWidth ?? DEFAULT_BEAM_WIDTH;
+  const perSlot = options.candidatesPerSlot ?? DEFAULT_CANDIDATES_PER_SLOT;
+  if (slotCandidates.some((candidates) => candidates.length === 0)) return [];
+
+  const itemScores = new Map<string, number>();
+  const slots = slotCandidates.map((candidates) => {
+    const top = [...candidates].sort((a, b) => b.score - a.score).slice(0, perSlot);
+    for (const item of top) itemScores.set(item.id, item.score);
+    return top;
+  });
+
+  let beam: ScoredCombination<T>[] = [{ items: [], item_score: 0, coherence: scoreOutfitCoherence([]), score: 0 }];
+  for (const candidates of slots) {
+    const expanded: ScoredCombination<T>[] = [];
+    for (const partial of beam) {
+      for (const item of candidates) {
+        // An item can only fill one slot
+        if (partial.items.some((chosen) => chosen.id === item.id)) continue;
+        expanded.push(scoreCombination([...partial.items, item], itemScores));
+      }
+    }
+    if (expanded.length === 0) return [];
+
+    expanded.sort((a, b) => b.score - a.score);
+    beam = expanded.slice(0, beamWidth);
+  }
+
+  return beam;
+}
@@ -0,0 +1,295 @@
+/**
+ * Packing List Service
+ * Builds a minimal capsule of wardrobe items that covers every outfit of a trip.
+ * Outfits are generated day by day, favouring items already packed so the same
+ * bottoms, shoes and outerwear get re-combined across several outfits.
+ */
+
+import { supabaseAdmin } from "./supabase.js";
+import { generateOutfits } from "./outfitGenerator.js";
+import {
+  getSlotForCategory,
+  OCCASION_FORMALITY,
+  type GeneratedOutfit,
+  type WardrobeItem,
+} from "./outfitBuilder.js";
+import {
+  getCooldownExcludes,
+  getDateRange,
+  getWeatherForDay,
+  DEFAULT_PLAN_COOLDOWN_DAYS,
+  type PlanLocation,
+} from "./outfitPlanner.js";
+import { getLayerRole } from "./layering.js";
+import type { WeatherData } from "./weather.js";
+
+export const MAX_TRIP_DAYS = 21;
+export const MAX_ACTIVITIES_PER_DAY = 3;
+
+// Slots that shouldn't repeat within the cooldown (worn against the body); everything else is re-combined freely
+const NO_REPEAT_SLOTS = new Set(["top", "onepiece"]);
+
+// Packing list order (largest items first)
+const SLOT_ORDER = ["outerwear", "onepiece", "top", "bottom", "footwear", "accessory"];
+
+export interface TripActivity {
+  date: string; // "YYYY-MM-DD"
+  occasion: string;
+}
+
+export interface CreateTripParams {
+  userId: string;
+  name?: string | null;
+  destination: PlanLocation;
+  startDate: string;
+  endDate: string;
+  activities?: TripActivity[];
+  cooldownDays?: number;
+}
+
+export interface TripOutfit {
+  date: string;
+  occasion: string | null;
+  item_ids: string[];
+  name: string;
+  occasion_match: boolean;
+  cooldown_relaxed: boolean;
+  weather: { temperature: number; condition: string };
+}
+
+export interface PackingItem {
+  item_id: string;
+  slot: string;
+  category: string | null;
+  item_name: string | null;
+  image_url: string | null;
+  outfit_count: number;
+  outfits: number[]; // Indices into the trip's outfits
+}
+
+export interface OccasionCoverage {
+  occasion: string;
+  formality: { min: number; max: number } | null;
+  dates: string[];
+  covered: boolean; // Every outfit for this occasion fits its formality range
+}
+
+export interface TripResult {
+  trip_id: string;
+  outfits: TripOutfit[];
+  packing_list: PackingItem[];
+  category_counts: Record<string, number>;
+  coverage: OccasionCoverage[];
+  uncovered_dates: string[]; // Days/activities no outfit could be built for
+}
+
+/**
+ * Get the outfit slot for an item, falling back to its raw category
+ */
+function getPackingSlot(item: WardrobeItem): string {
+  return (
+    getSlotForCategory(item.category) ||
+    getSlotForCategory(item.subcategory) ||
+    (item.category || "other").toLowerCase()
+  );
+}
+
+/**
+ * Position of a slot in the packing list
+ */
+function slotRank(slot: string): number {
+  const rank = SLOT_ORDER.indexOf(slot);
+  return rank === -1 ? SLOT_ORDER.length : rank;
+}
+
+/**
+ * Generate one trip outfit, favouring packed items and honouring the top cooldown when possible
+ */
+async function generateTripOutfit(
+  userId: string,
+  weather: WeatherData,
+  occasion: string | null,
+  excludeIds: string[],
+  packedIds: string[]
+): Promise<{ outfit: GeneratedOutfit | null; cooldownRelaxed: boolean }> {
+  const params = {
+    userId,
+    occasion: occasion ?? undefined,
+    weather,
+    preferItemIds: packedIds,
+    includeDescriptions: false,
+    count: 1,
+  };
+
+  const { outfits } = await generateOutfits({ ...params, excludeItemIds: excludeIds });
+  if (outfits.length > 0 || excludeIds.length === 0) {
+    return { outfit: outfits[0] ?? null, cooldownRelaxed: false };
+  }
+
+  // Not enough tops to avoid repeats - re-wear rather than leave the day uncovered
+  const retry = await generateOutfits(params);
+  return { outfit: retry.outfits[0] ?? null, cooldownRelaxed: retry.outfits.length > 0 };
+}
+
+/**
+ * Summarize which occasions the capsule covers, using OCCASION_FORMALITY ranges
+ */
+function buildCoverage(outfits: TripOutfit[]): OccasionCoverage[] {
+  const byOccasion = new Map<string, TripOutfit[]>();
+  for (const outfit of outfits) {
+    if (!outfit.occasion) continue;
+    const key = outfit.occasion.toLowerCase();
+    byOccasion.set(key, [...(byOccasion.get(key) || []), outfit]);
+  }
+
+  return [...byOccasion.entries()].map(([occasion, group]) => ({
+    occasion,
+    formality: OCCASION_FORMALITY[occasion] ?? null,
+    dates: [...new Set(group.map((o) => o.date))],
+    covered: group.every((o) => o.occasion_match),
+  }));
+}
+
+/**
+ * Create a trip: generate outfits for every day/activity and save the packing list.
+ * Returns null (and saves nothing) when no outfit could be built.
+ */
+export async function createTrip(params: CreateTripParams): Promise<TripResult | null> {
+  const {
+    userId,
+    name = null,
+    destination,
+    startDate,
+    endDate,
+    activities = [],
+    cooldownDays = DEFAULT_PLAN_COOLDOWN_DAYS,
+  } = params;
+
+  const dates = getDateRange(startDate, endDate);
+  console.log(`[Trips] Building capsule for ${dates.length} days (${startDate} -> ${endDate}) for user ${userId}`);
+
+  const packed = new Map<string, WardrobeItem>();
+  const topsByDate = new Map<string, string[]>();
+  const outfits: TripOutfit[] = [];
+  const itemOutfits = new Map<string, number[]>();
+  const uncovered: string[] = [];
+
+  for (const date of dates) {
+    const weather = await getWeatherForDay(destination, date);
+    const dayOccasions = activities.filter((a) => a.date === date).map((a) => a.occasion);
+    const occasions: Array<string | null> = dayOccasions.length > 0 ? dayOccasions : [null];
+
+    for (const occasion of occasions) {
+      // Tops worn nearby are off-limits, as are tops already used earlier the same day
+      const excludes = [
+        ...getCooldownExcludes(topsByDate, date, cooldownDays),
+        ...(topsByDate.get(date) || []),
+      ];
+
+      const { outfit, cooldownRelaxed } = await generateTripOutfit(
+        userId,
+        weather,
+        occasion,
+        excludes,
+        [...packed.keys()]
+      );
+
+      if (!outfit) {
+        console.log(`[Trips] No outfit for ${date}${occasion ? ` (${occasion})` : ""}`);
+        uncovered.push(occasion ? `${date}:${occasion}` : date);
+        continue;
+      }
+
+      const index = outfits.length;
+      outfits.push({
+        date,
+        occasion,
+        item_ids: outfit.item_ids,
+        name: outfit.name,
+        occasion_match: outfit.occasion_match,
+        cooldown_relaxed: cooldownRelaxed,
+        weather: { temperature: weather.temperature, condition: weather.condition },
+      });
+
+      for (const item of outfit.items) {
+        packed.set(item.id, item);
+        itemOutfits.set(item.id, [...(itemOutfits.get(item.id) || []), index]);
+        // Sweaters and cardigans layer over several outfits like outerwear does
+        if (NO_REPEAT_SLOTS.has(getPackingSlot(item)) && getLayerRole(item) !== "mid") {
+          topsByDate.set(date, [...(topsByDate.get(date) || []), item.id]);
+        }
+      }
+    }
+  }
+
+  if (outfits.length === 0) {
+    console.log(`[Trips] No outfits could be built for user ${userId}, not saving trip`);
+    return null;
+  }
+
+  const packingList: PackingItem[] = [...packed.values()]
+    .map((item) => ({
+      item_id: item.id,
+      slot: getPackingSlot(item),
+      category: item.category ?? null,
+      item_name: item.item_name ?? null,
+      image_url: item.processed_image_url || item.original_image_url || null,
+      outfit_count: itemOutfits.get(item.id)?.length ?? 0,
+      outfits: itemOutfits.get(item.id) || [],
+    }))
+    .sort((a, b) => {
+      const slotDiff = slotRank(a.slot) - slotRank(b.slot);
+      return slotDiff !== 0 ? slotDiff : b.outfit_count - a.outfit_count;
+    });
+
+  const categoryCounts: Record<string, number> = {};
+  for (const item of packingList) {
+    categoryCounts[item.slot] = (categoryCounts[item.slot] || 0) + 1;
+  }
+
+  const { data: trip, error } = await supabaseAdmin
+    .from("trips")
+    .insert({
+      user_id: userId,
+      name,
+      destination,
+      start_date: startDate,
+      end_date: endDate,
+      activities,
+      outfits,
+    })
+    .select("id")
+    .single();
+
+  if (error || !trip) {
+    throw new Error(`Failed to create trip: ${error?.message || "unknown error"}`);
+  }
+
+  if (packingList.length > 0) {
+    const { error: itemsError } = await supabaseAdmin.from("trip_packing_items").insert(
+      packingList.map((item) => ({
+        trip_id: trip.id,
+        user_id: userId,
+        item_id: item.item_id,
+        outfit_count: item.outfit_count,
+      }))
+    );
+
+    if (itemsError) {
+      console.error(`[Trips] Failed to save packing list for trip ${trip.id}:`, itemsError);
+    }
+  }
+
+  console.log(
+    `[Trips] Trip ${trip.id}: ${packingList.length} items cover ${outfits.length} outfits (${uncovered.length} uncovered)`
+  );
+
+  return {
+    trip_id: trip.id,
+    outfits,
+    packing_list: packingList,
+    category_counts: categoryCounts,
+    coverage: buildCoverage(outfits),
+    uncovered_dates: uncovered,
+  };
+}
@@ -0,0 +1,235 @@
+/**
+ * Pattern Mixing Service
+ * Pattern compatibility (one loud pattern at most, patterns at different scales,
+ * a shared color tying patterned pieces together) and material/texture contrast
+ * (denim on denim, leather accents, stacked sheen, texture variety).
+ */
+
+import type { ColorInfo } from "./colorHarmony.js";
+
+export interface PatternMixItem {
+  category?: string | null;
+  subcategory?: string | null;
+  pattern?: string | null;
+  materials?: string[] | null;
+  colors?: ColorInfo | null;
+}
+
+export interface MixAnalysis {
+  score: number; // 0 - 1
+  notes: string[]; // Explanations for the outfit description, most important first
+}
+
+type PatternScale = "small" | "medium" | "large";
+
+// Loud patterns dominate an outfit; scale is the typical repeat size
+const PATTERN_TRAITS: Record<string, { loud: boolean; scale: PatternScale }> = {
+  striped: { loud: false, scale: "small" },
+  geometric: { loud: false, scale: "small" },
+  plaid: { loud: false, scale: "medium" },
+  other: { loud: false, scale: "medium" },
+  floral: { loud: true, scale: "medium" },
+  abstract: { loud: true, scale: "large" },
+  animal: { loud: true, scale: "large" },
+  camo: { loud: true, scale: "large" },
+  "tie-dye": { loud: true, scale: "large" },
+};
+
+type TextureFamily = "denim" | "leather" | "knit" | "sheen" | "textured" | "smooth";
+
+// Material keyword -> texture family (first match wins, so "faux leather" is leather)
+const TEXTURE_FAMILIES: Array<[string, TextureFamily]> = [
+  ["denim", "denim"],
+  ["leather", "leather"],
+  ["suede", "leather"],
+  ["knit", "knit"],
+  ["wool", "knit"],
+  ["cashmere", "knit"],
+  ["merino", "knit"],
+  ["mohair", "knit"],
+  ["satin", "sheen"],
+  ["silk", "sheen"],
+  ["velvet", "sheen"],
+  ["sequin", "sheen"],
+  ["tweed", "textured"],
+  ["corduroy", "textured"],
+  ["boucle", "textured"],
+  ["fleece", "textured"],
+  ["cotton", "smooth"],
+  ["linen", "smooth"],
+  ["jersey", "smooth"],
+  ["polyester", "smooth"],
+  ["nylon", "smooth"],
+  ["rayon", "smooth"],
+  ["viscose", "smooth"],
+];
+
+const ACCENT_CATEGORIES = new Set(["shoes", "accessories", "bags", "jewelry", "outerwear"]);
+
+function label(item: PatternMixItem): string {
+  return (item.subcategory || item.category || "piece").toLowerCase();
+}
+
+function getPattern(item: PatternMixItem): string | null {
+  const pattern = item.pattern?.toLowerCase().trim();
+  return pattern && pattern !== "solid" ? pattern : null;
+}
+
+function itemColors(item: PatternMixItem): Set<string> {
+  const colors = [item.colors?.primary, ...(item.colors?.secondary || []), ...(item.colors?.accent || [])];
+  return new Set(colors.filter((c): c is string => !!c).map((c) => c.toLowerCase().trim()));
+}
+
+function isPlural(noun: string): boolean {
+  return noun.endsWith("s") && !noun.endsWith("ss");
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function listNames(names: string[]): string {
+  return names.length <= 1 ? names.join("") : `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}`;
+}
+
+/**
+ * Get the texture family of an item from its materials, or null when untagged
+ */
+export function getTextureFamily(item: PatternMixItem): TextureFamily | null {
+  for (const material of item.materials || []) {
+    const text = material.toLowerCase();
+    const match = TEXTURE_FAMILIES.find(([keyword]) => text.includes(keyword));
+    if (match) return match[1];
+  }
+  return null;
+}
+
+/**
+ * Score how the outfit's patterns mix
+ */
+export function analyzePatternMix(items: PatternMixItem[]): MixAnalysis {
+  const patterned = items
+    .map((item) => ({ item, pattern: getPattern(item) }))
+    .filter((p): p is { item: PatternMixItem; pattern: string } => !!p.pattern);
+
+  if (patterned.length === 0) return { score: 1, notes: [] };
+  if (patterned.length === 1) {
+    const [{ item, pattern }] = patterned;
+    return { score: 1, notes: [`The ${pattern} ${label(item)} is the one pattern, with everything else kept quiet`] };
+  }
+
+  let score = 1;
+  const notes: string[] = [];
+  const traits = (pattern: string) => PATTERN_TRAITS[pattern] ?? PATTERN_TRAITS.other;
+
+  // Rule 1: at most one loud pattern
+  const loud = patterned.filter((p) => traits(p.pattern).loud);
+  if (loud.length > 1) {
+    score -= 0.35 * (loud.length - 1);
+    notes.push(`${capitalize(listNames(loud.map((p) => p.pattern)))} are ${loud.length === 2 ? "both" : "all"} bold patterns competing for attention`);
+  }
+
+  // Rule 2: more than two patterns gets busy
+  if (patterned.length > 2) {
+    score -= 0.2 * (patterned.length - 2);
+    notes.push(`${patterned.length} patterns make the look busy`);
+  }
+
+  // Rules 3 and 4, per pair: different scales, and a shared color to tie them together
+  for (let i = 0; i < patterned.length; i++) {
+    for (let j = i + 1; j < patterned.length; j++) {
+      const a = patterned[i];
+      const b = patterned[j];
+      const sameScale = traits(a.pattern).scale === traits(b.pattern).scale;
+      const bColors = itemColors(b.item);
+      const shared = [...itemColors(a.item)].find((color) => bColors.has(color));
+
+      if (sameScale) {
+        score -= 0.15;
+        notes.push(`The ${a.pattern} and ${b.pattern} are a similar scale, so they blur together`);
+      }
+      if (!shared) {
+        score -= 0.15;
+        notes.push(`The ${a.pattern} and ${b.pattern} pieces share no color to tie them together`);
+      }
+      if (!sameScale && shared && loud.length <= 1) {
+        notes.push(`The ${a.pattern} and ${b.pattern} mix at different scales, tied together by ${shared}`);
+      }
+    }
+  }
+
+  return { score: Math.max(0, Math.min(1, score)), notes };
+}
+
+/**
+ * Score the outfit's material/texture contrast
+ */
+export function analyzeTextureContrast(items: PatternMixItem[]): MixAnalysis {
+  const textured = items
+    .map((item) => ({ item, family: getTextureFamily(item) }))
+    .filter((t): t is { item: PatternMixItem; family: TextureFamily } => !!t.family);
+
+  let score = 0.8; // Neutral when materials are unknown
+  const notes: string[] = [];
+  const ofFamily = (family: TextureFamily) => textured.filter((t) => t.family === family).map((t) => t.item);
+
+  // Denim on denim: contrasting washes work, a matching wash reads as a mismatched suit
+  const denim = ofFamily("denim");
+  if (denim.length >= 3) {
+    score -= 0.3;
+    notes.push("Head-to-toe denim is a lot of one fabric");
+  } else if (denim.length === 2) {
+    const washes = new Set(denim.map((item) => item.colors?.primary?.toLowerCase().trim()).filter(Boolean));
+    if (washes.size < 2) {
+      score -= 0.3;
+      notes.push("Denim on denim in the same wash looks like a mismatched suit");
+    } else {
+      score += 0.05;
+      notes.push("Denim on denim works thanks to the contrasting washes");
+    }
+  }
+
+  // Leather: an accent adds edge, top-to-bottom leather is heavy
+  const leather = ofFamily("leather");
+  const leatherTop = leather.some((item) => item.category === "tops");
+  const leatherBottom = leather.some((item) => item.category === "bottoms");
+  if (leatherTop && leatherBottom) {
+    score -= 0.2;
+    notes.push("Leather from top to bottom is heavy");
+  } else {
+    const accent = leather.length <= 2 ? leather.find((item) => ACCENT_CATEGORIES.has(item.category || "")) : undefined;
+    if (accent) {
+      score += 0.1;
+      const name = label(accent);
+      notes.push(`The leather ${name} ${isPlural(name) ? "add" : "adds"} a textural accent`);
+    }
+  }
+
+  // Shiny fabrics compete with each other
+  if (ofFamily("sheen").length >= 2) {
+    score -= 0.15;
+    notes.push("Two shiny fabrics compete for attention");
+  }
+
+  // Texture variety
+  const families = new Set(textured.map((t) => t.family));
+  if (families.size >= 3) {
+    score += 0.1;
+    notes.push(`A mix of ${listNames([...families].filter((f) => f !== "smooth"))} textures adds depth`);
+  } else if (textured.length >= 3 && families.size === 1 && !families.has("denim")) {
+    score -= 0.1;
+    notes.push(`All-${[...families][0]} fabrics make the look a little flat`);
+  }
+
+  return { score: Math.max(0, Math.min(1, score)), notes };
+}
+
+/**
+ * The main pattern and texture notes for the outfit, or null when there's nothing to say
+ */
+export function describePatternAndTexture(items: PatternMixItem[]): string | null {
+  const notes = [analyzePatternMix(items).notes[0], analyzeTextureContrast(items).notes[0]].filter(
+    (note): note is string => !!note
+  );
+  return notes.length > 0 ? notes.join(". ") : null;
+}
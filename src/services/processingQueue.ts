@@ -0,0 +1,373 @@
+/**
+ * Item Processing Queue
+ * Database-backed job queue for the item pipeline. Jobs survive restarts,
+ * retry with exponential backoff, and resume from their last checkpointed stage.
+ * Each worker runs at most ITEM_PROCESSING_CONCURRENCY jobs at once.
+ */
+
+import { hostname } from "node:os";
+import { randomUUID } from "node:crypto";
+import { supabaseAdmin } from "./supabase.js";
+import {
+  buildStageProgress,
+  runItemPipeline,
+  type ProcessingStage,
+  type StageResults,
+} from "./itemPipeline.js";
+
+const DEFAULT_CONCURRENCY = 2;
+const DEFAULT_POLL_SECONDS = 5;
+const DEFAULT_MAX_ATTEMPTS = 5;
+
+// A running job's lock expires if its worker stops heartbeating
+const LEASE_SECONDS = 180;
+const HEARTBEAT_MS = 30 * 1000;
+
+// Retry backoff: 30s, 1m, 2m, 4m ... capped at 30m
+const RETRY_BASE_MS = 30 * 1000;
+const RETRY_MAX_MS = 30 * 60 * 1000;
+
+export interface ItemProcessingJob {
+  id: string;
+  item_id: string;
+  user_id: string;
+  image_url: string;
+  status: "queued" | "running" | "completed" | "failed";
+  current_stage: ProcessingStage | null;
+  stages: ProcessingStage[] | null; // null = full pipeline
+  stage_results: StageResults;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string;
+  locked_by: string | null;
+  locked_at: string | null;
+  last_error: string | null;
+}
+
+export interface EnqueueOptions {
+  // Stages to (re)run; results for the others come from seed (defaults to the full pipeline)
+  stages?: ProcessingStage[];
+  seed?: StageResults;
+}
+
+export interface ProcessingQueueStats {
+  worker_id: string;
+  running: number;
+  concurrency: number;
+  started: boolean;
+}
+
+const workerId = `${hostname()}-${process.pid}-${randomUUID().slice(0, 8)}`;
+const running = new Set<string>();
+let pollTimer: ReturnType<typeof setInterval> | null = null;
+let polling = false;
+
+function getConcurrency(): number {
+  const value = Number(process.env.ITEM_PROCESSING_CONCURRENCY);
+  return Number.isInteger(value) && value > 0 ? value : DEFAULT_CONCURRENCY;
+}
+
+function getPollMs(): number {
+  const value = Number(process.env.ITEM_PROCESSING_POLL_SECONDS);
+  return (Number.isFinite(value) && value > 0 ? value : DEFAULT_POLL_SECONDS) * 1000;
+}
+
+/**
+ * Delay before the next attempt (attempts = attempts made so far)
+ */
+export function getRetryDelayMs(attempts: number): number {
+  return Math.min(RETRY_MAX_MS, RETRY_BASE_MS * Math.pow(2, Math.max(0, attempts - 1)));
+}
+
+/**
+ * Queue an item for processing. Returns false if the item already has an active job
+ * (that job is kept). Completed items stay "completed" while they're reprocessed.
+ */
+export async function enqueueItemProcessing(
+  itemId: string,
+  imageUrl: string,
+  userId: string,
+  options: EnqueueOptions = {}
+): Promise<boolean> {
+  const seed = options.seed ?? {};
+  const { error } = await supabaseAdmin.from("item_processing_jobs").insert({
+    item_id: itemId,
+    user_id: userId,
+    image_url: imageUrl,
+    stages: options.stages ?? null,
+    stage_results: seed,
+    max_attempts: DEFAULT_MAX_ATTEMPTS,
+  });
+
+  // 23505 = unique violation on the one-active-job-per-item index
+  if (error?.code === "23505") return false;
+  if (error) {
+    throw new Error(`Failed to queue item ${itemId}: ${error.message}`);
+  }
+
+  await supabaseAdmin
+    .from("wardrobe_items")
+    .update({ processing_stage: null, processing_stages: buildStageProgress(seed, undefined, options.stages) })
+    .eq("id", itemId);
+  await supabaseAdmin
+    .from("wardrobe_items")
+    .update({ processing_status: "processing", processing_error: null })
+    .eq("id", itemId)
+    .neq("processing_status", "completed");
+
+  // Pick it up right away instead of waiting for the next poll
+  if (pollTimer) {
+    pollQueue().catch((err) => console.error("[Queue] Poll failed:", err));
+  }
+  return true;
+}
+
+/**
+ * Checkpointed results from the item's most recent completed job
+ */
+export async function getLastStageResults(itemId: string): Promise<StageResults | null> {
+  const { data } = await supabaseAdmin
+    .from("item_processing_jobs")
+    .select("stage_results")
+    .eq("item_id", itemId)
+    .eq("status", "completed")
+    .order("completed_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return (data?.stage_results as StageResults | undefined) ?? null;
+}
+
+async function updateItemProgress(
+  job: ItemProcessingJob,
+  results: StageResults,
+  active?: { stage: ProcessingStage; status: "running" | "retrying" | "failed" }
+): Promise<void> {
+  await supabaseAdmin
+    .from("wardrobe_items")
+    .update({
+      processing_stage: active?.status === "running" ? active.stage : null,
+      processing_stages: buildStageProgress(results, active, job.stages ?? undefined),
+    })
+    .eq("id", job.item_id);
+}
+
+/**
+ * Record a failed attempt: schedule a retry, or mark the job and item failed
+ */
+async function handleJobFailure(job: ItemProcessingJob, results: StageResults, err: unknown): Promise<void> {
+  const message = err instanceof Error ? err.message : "Unknown error";
+  const stage = job.current_stage ?? undefined;
+  const exhausted = job.attempts >= job.max_attempts;
+
+  console.error(
+    `[Queue] Job ${job.id} (item ${job.item_id}) failed at ${stage ?? "save"} ` +
+      `(attempt ${job.attempts}/${job.max_attempts}): ${message}`
+  );
+
+  await supabaseAdmin
+    .from("item_processing_jobs")
+    .update({
+      status: exhausted ? "failed" : "queued",
+      stage_results: results,
+      last_error: message,
+      locked_by: null,
+      locked_at: null,
+      next_attempt_at: new Date(Date.now() + getRetryDelayMs(job.attempts)).toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", job.id);
+
+  if (exhausted) {
+    await supabaseAdmin
+      .from("wardrobe_items")
+      .update({
+        processing_error: message,
+        processing_stage: null,
+        processing_stages: buildStageProgress(
+          results,
+          stage ? { stage, status: "failed" } : undefined,
+          job.stages ?? undefined
+        ),
+      })
+      .eq("id", job.item_id);
+    // A failed reprocess leaves a completed item usable with its previous results
+    await supabaseAdmin
+      .from("wardrobe_items")
+      .update({ processing_status: "failed" })
+      .eq("id", job.item_id)
+      .neq("processing_status", "completed");
+  } else {
+    await updateItemProgress(job, results, stage ? { stage, status: "retrying" } : undefined);
+  }
+}
+
+/**
+ * Run one claimed job through the pipeline, checkpointing after every stage
+ */
+async function runJob(job: ItemProcessingJob): Promise<void> {
+  let results: StageResults = job.stage_results || {};
+
+  // Keep the lease alive while long RunPod calls are in flight
+  const heartbeat = setInterval(() => {
+    supabaseAdmin
+      .from("item_processing_jobs")
+      .update({ locked_at: new Date().toISOString() })
+      .eq("id", job.id)
+      .eq("locked_by", workerId)
+      .then(({ error }) => {
+        if (error) console.error(`[Queue] Heartbeat failed for job ${job.id}:`, error.message);
+      });
+  }, HEARTBEAT_MS);
+
+  try {
+    console.log(`[AI] Processing item ${job.item_id} (job ${job.id}, attempt ${job.attempts})`);
+
+    await runItemPipeline(
+      {
+        itemId: job.item_id,
+        userId: job.user_id,
+        imageUrl: job.image_url,
+        results,
+        stages: job.stages ?? undefined,
+      },
+      {
+        onStageStart: async (stage) => {
+          job.current_stage = stage;
+          await supabaseAdmin
+            .from("item_processing_jobs")
+            .update({ current_stage: stage, updated_at: new Date().toISOString() })
+            .eq("id", job.id);
+          await updateItemProgress(job, results, { stage, status: "running" });
+        },
+        onStageComplete: async (_stage, updated) => {
+          results = updated;
+          await supabaseAdmin
+            .from("item_processing_jobs")
+            .update({ stage_results: results, updated_at: new Date().toISOString() })
+            .eq("id", job.id);
+        },
+      }
+    );
+
+    job.current_stage = null;
+    await supabaseAdmin
+      .from("item_processing_jobs")
+      .update({
+        status: "completed",
+        current_stage: null,
+        stage_results: results,
+        locked_by: null,
+        locked_at: null,
+        last_error: null,
+        completed_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", job.id);
+  } catch (err) {
+    await handleJobFailure(job, results, err);
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+/**
+ * Claim as many due jobs as there are free slots and start them
+ */
+async function pollQueue(): Promise<void> {
+  if (polling) return;
+  polling = true;
+
+  try {
+    const free = getConcurrency() - running.size;
+    if (free <= 0) return;
+
+    const { data, error } = await supabaseAdmin.rpc("claim_item_processing_jobs", {
+      p_worker_id: workerId,
+      p_limit: free,
+      p_lease_seconds: LEASE_SECONDS,
+    });
+
+    if (error) {
+      console.error("[Queue] Failed to claim jobs:", error.message);
+      return;
+    }
+
+    for (const job of (data || []) as ItemProcessingJob[]) {
+      running.add(job.id);
+      runJob(job)
+        .catch((err) => console.error(`[Queue] Job ${job.id} crashed:`, err))
+        .finally(() => {
+          running.delete(job.id);
+          // A slot just freed up - check for more work
+          pollQueue().catch((err) => console.error("[Queue] Poll failed:", err));
+        });
+    }
+  } finally {
+    polling = false;
+  }
+}
+
+/**
+ * Re-queue items left in "processing" with no active job
+ * (e.g. uploaded before the queue existed, or the job row was lost)
+ */
+export async function sweepOrphanedItems(): Promise<number> {
+  const { data: items, error } = await supabaseAdmin
+    .from("wardrobe_items")
+    .select("id, user_id, original_image_url")
+    .eq("processing_status", "processing");
+
+  if (error) {
+    console.error("[Queue] Orphan sweep failed:", error.message);
+    return 0;
+  }
+  if (!items || items.length === 0) return 0;
+
+  const { data: activeJobs } = await supabaseAdmin
+    .from("item_processing_jobs")
+    .select("item_id")
+    .in("item_id", items.map((item) => item.id))
+    .in("status", ["queued", "running"]);
+
+  const active = new Set((activeJobs || []).map((job) => job.item_id));
+  const orphans = items.filter((item) => !active.has(item.id));
+
+  for (const item of orphans) {
+    try {
+      await enqueueItemProcessing(item.id, item.original_image_url, item.user_id);
+    } catch (err) {
+      console.error(`[Queue] Failed to re-queue orphaned item ${item.id}:`, err);
+    }
+  }
+
+  if (orphans.length > 0) {
+    console.log(`[Queue] Re-queued ${orphans.length} orphaned item(s)`);
+  }
+  return orphans.length;
+}
+
+/**
+ * Start this process's worker: sweep orphans, then poll for due jobs.
+ * Jobs held by crashed workers are reclaimed once their lease expires.
+ */
+export async function startProcessingWorker(): Promise<void> {
+  if (pollTimer) return;
+
+  console.log(`[Queue] Starting item processing worker ${workerId} (concurrency ${getConcurrency()})`);
+  pollTimer = setInterval(() => {
+    pollQueue().catch((err) => console.error("[Queue] Poll failed:", err));
+  }, getPollMs());
+
+  await sweepOrphanedItems();
+  await pollQueue();
+}
+
+export function getProcessingQueueStats(): ProcessingQueueStats {
+  return {
+    worker_id: workerId,
+    running: running.size,
+    concurrency: getConcurrency(),
+    started: pollTimer !== null,
+  };
+}
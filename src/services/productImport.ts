@@ -0,0 +1,457 @@
+/**
+ * Product Import
+ * Adds wardrobe items from a product page URL or a pasted order confirmation email.
+ * Parsing is pure (HTML in, products out) so it runs offline against saved pages:
+ *   1. schema.org JSON-LD (Product / ProductGroup, and Order markup in emails)
+ *   2. Open Graph / product meta tags
+ *   3. For emails without markup: table blocks holding a product image and a price
+ * Each product's image is downloaded into our storage and the item goes through the
+ * normal pipeline, with name/brand/color passed to tagging as known facts.
+ */
+
+import { randomUUID } from "node:crypto";
+import { supabaseAdmin } from "./supabase.js";
+import { downloadImage, normalizeUpload, storeItemImage } from "./imageUpload.js";
+import { enqueueItemProcessing } from "./processingQueue.js";
+import { parsePurchaseInfo } from "./wardrobeValue.js";
+import { safeFetch } from "../utils/safeFetch.js";
+
+export const MAX_IMPORT_PRODUCTS = 10;
+const MAX_PAGE_BYTES = 3 * 1024 * 1024;
+
+export interface ImportedProduct {
+  name: string | null;
+  brand: string | null;
+  image_url: string | null;
+  price: number | null;
+  currency: string | null;
+  color: string | null;
+  retailer: string | null;
+  product_url: string | null;
+  purchase_date: string | null; // YYYY-MM-DD, from order emails
+}
+
+export interface ProductImportResult {
+  product: ImportedProduct;
+  item_id: string | null;
+  error: string | null;
+}
+
+type JsonNode = Record<string, unknown>;
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  "US$": "USD",
+  $: "USD",
+  "C$": "CAD",
+  "A$": "AUD",
+  "£": "GBP",
+  "€": "EUR",
+  "¥": "JPY",
+  "₹": "INR",
+};
+
+// Images in emails that are never the product
+const NON_PRODUCT_IMAGE = /logo|icon|spacer|pixel|tracking|social|facebook|instagram|twitter|tiktok|pinterest|youtube|badge|banner|footer|header|arrow/i;
+
+const PRICE_PATTERN =
+  /(US\$|C\$|A\$|\$|£|€|¥|₹)\s?(\d{1,3}(?:[,.\s]\d{3})*(?:[.,]\d{1,2})?|\d+(?:[.,]\d{1,2})?)|(\d{1,3}(?:[,.]\d{3})*(?:[.,]\d{1,2})?)\s?(USD|EUR|GBP|CAD|AUD|JPY)\b/;
+
+// ================================================
+// HTML helpers (no DOM available - regexes over well-formed-enough markup)
+// ================================================
+
+export function decodeEntities(text: string): string {
+  const named: Record<string, string> = {
+    amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " ",
+    pound: "£", euro: "€", yen: "¥", ndash: "–", mdash: "—",
+    lsquo: "'", rsquo: "'", ldquo: '"', rdquo: '"', hellip: "…", reg: "®", trade: "™", copy: "©",
+  };
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code.toLowerCase().startsWith("#x")) return String.fromCodePoint(parseInt(code.slice(2), 16));
+    if (code.startsWith("#")) return String.fromCodePoint(parseInt(code.slice(1), 10));
+    return named[code.toLowerCase()] ?? entity;
+  });
+}
+
+function parseAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of tag.matchAll(/([\w:-]+)\s*=\s*("([^"]*)"|'([^']*)'|([^\s>]+))/g)) {
+    attributes[match[1].toLowerCase()] = decodeEntities(match[3] ?? match[4] ?? match[5] ?? "");
+  }
+  return attributes;
+}
+
+function stripTags(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<(script|style)\b[\s\S]*?<\/\1>/gi, " ")
+      .replace(/<br\s*\/?>|<\/(p|div|td|tr|li|h\d)>/gi, "\n")
+      .replace(/<[^>]+>/g, " ")
+  )
+    .split("\n")
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .filter(Boolean)
+    .join("\n");
+}
+
+function resolveUrl(url: string | null | undefined, base?: string): string | null {
+  if (!url) return null;
+  try {
+    return new URL(url.startsWith("//") ? `https:${url}` : url, base).toString();
+  } catch {
+    return null;
+  }
+}
+
+function clean(value: unknown): string | null {
+  if (typeof value !== "string" && typeof value !== "number") return null;
+  const text = decodeEntities(String(value)).replace(/\s+/g, " ").trim();
+  return text.length > 0 ? text : null;
+}
+
+/**
+ * "1,234.56", "1.234,56" and "49" -> number
+ */
+export function parsePrice(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value !== "string") return null;
+
+  const digits = value.replace(/[^\d.,]/g, "");
+  if (!digits) return null;
+  // The last separator is the decimal point only if 1-2 digits follow it
+  const decimal = digits.match(/[.,](\d{1,2})$/);
+  const whole = (decimal ? digits.slice(0, -decimal[0].length) : digits).replace(/[.,\s]/g, "");
+  const price = Number(decimal ? `${whole}.${decimal[1]}` : whole);
+  return Number.isFinite(price) ? price : null;
+}
+
+/**
+ * First price in a piece of text, with its currency
+ */
+export function findPrice(text: string): { price: number; currency: string } | null {
+  const match = text.match(PRICE_PATTERN);
+  if (!match) return null;
+
+  const price = parsePrice(match[2] ?? match[3]);
+  const currency = match[4] ?? CURRENCY_SYMBOLS[match[1]];
+  return price !== null && currency ? { price, currency } : null;
+}
+
+function hostnameOf(url?: string): string | null {
+  if (!url) return null;
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return null;
+  }
+}
+
+// ================================================
+// JSON-LD
+// ================================================
+
+function extractJsonLd(html: string): JsonNode[] {
+  const nodes: JsonNode[] = [];
+  const visit = (value: unknown) => {
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+    } else if (value && typeof value === "object") {
+      const node = value as JsonNode;
+      nodes.push(node);
+      if (node["@graph"]) visit(node["@graph"]);
+    }
+  };
+
+  for (const match of html.matchAll(/<script[^>]*type\s*=\s*["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi)) {
+    try {
+      visit(JSON.parse(match[1].trim()));
+    } catch {
+      // Broken JSON-LD is common; the meta tag fallback still applies
+    }
+  }
+  return nodes;
+}
+
+function hasType(node: JsonNode, ...types: string[]): boolean {
+  const type = node["@type"];
+  const list = Array.isArray(type) ? type : [type];
+  return list.some((entry) => typeof entry === "string" && types.includes(entry.replace(/^.*[/#]/, "")));
+}
+
+function nameOf(value: unknown): string | null {
+  if (Array.isArray(value)) return nameOf(value[0]);
+  if (value && typeof value === "object") return clean((value as JsonNode).name);
+  return clean(value);
+}
+
+function imageOf(value: unknown, base?: string): string | null {
+  if (Array.isArray(value)) return imageOf(value[0], base);
+  if (value && typeof value === "object") {
+    const node = value as JsonNode;
+    return imageOf(node.url ?? node.contentUrl, base);
+  }
+  return typeof value === "string" ? resolveUrl(value, base) : null;
+}
+
+function offerOf(value: unknown): { price: number | null; currency: string | null; seller: string | null } {
+  const offer = (Array.isArray(value) ? value[0] : value) as JsonNode | undefined;
+  if (!offer || typeof offer !== "object") return { price: null, currency: null, seller: null };
+
+  const specification = (Array.isArray(offer.priceSpecification)
+    ? offer.priceSpecification[0]
+    : offer.priceSpecification) as JsonNode | undefined;
+
+  return {
+    price: parsePrice(offer.price ?? offer.lowPrice ?? specification?.price),
+    currency: clean(offer.priceCurrency ?? specification?.priceCurrency)?.toUpperCase() ?? null,
+    seller: nameOf(offer.seller),
+  };
+}
+
+function productFromJsonLd(node: JsonNode, base?: string): ImportedProduct {
+  // A ProductGroup's variants carry the image/offer when the group doesn't
+  const variant = (Array.isArray(node.hasVariant) ? node.hasVariant[0] : undefined) as JsonNode | undefined;
+  const offer = offerOf(node.offers ?? variant?.offers);
+
+  return {
+    name: clean(node.name),
+    brand: nameOf(node.brand),
+    image_url: imageOf(node.image ?? variant?.image, base),
+    price: offer.price,
+    currency: offer.currency,
+    color: clean(node.color ?? variant?.color),
+    retailer: offer.seller,
+    product_url: resolveUrl(clean(node.url), base) ?? base ?? null,
+    purchase_date: null,
+  };
+}
+
+/**
+ * Products of a schema.org Order (Gmail order markup)
+ */
+function productsFromOrder(order: JsonNode, base?: string): ImportedProduct[] {
+  const seller = nameOf(order.seller ?? order.merchant);
+  const orderDate = clean(order.orderDate)?.slice(0, 10) ?? null;
+  const offers = [order.acceptedOffer, order.orderedItem].flat().filter(Boolean) as JsonNode[];
+
+  return offers.flatMap((entry) => {
+    const product = (entry.itemOffered ?? entry.orderedItem ?? entry) as JsonNode;
+    if (!product || typeof product !== "object" || !product.name) return [];
+
+    const parsed = productFromJsonLd(product, base);
+    const offer = offerOf(entry);
+    return [
+      {
+        ...parsed,
+        price: parsed.price ?? offer.price,
+        currency: parsed.currency ?? offer.currency ?? clean(order.priceCurrency)?.toUpperCase() ?? null,
+        retailer: parsed.retailer ?? seller,
+        product_url: resolveUrl(clean(product.url), base),
+        purchase_date: orderDate,
+      },
+    ];
+  });
+}
+
+// ================================================
+// Meta tags and email tables
+// ================================================
+
+function extractMeta(html: string): Record<string, string> {
+  const meta: Record<string, string> = {};
+  for (const match of html.matchAll(/<meta\b[^>]*>/gi)) {
+    const attributes = parseAttributes(match[0]);
+    const key = (attributes.property ?? attributes.name ?? attributes.itemprop)?.toLowerCase();
+    if (key && attributes.content && !(key in meta)) meta[key] = attributes.content;
+  }
+  return meta;
+}
+
+function productFromMeta(meta: Record<string, string>, base?: string): ImportedProduct | null {
+  const image = meta["og:image:secure_url"] ?? meta["og:image"] ?? meta["twitter:image"];
+  if (!image) return null;
+
+  return {
+    name: clean(meta["og:title"] ?? meta["twitter:title"]),
+    brand: clean(meta["product:brand"] ?? meta["og:brand"] ?? meta.brand),
+    image_url: resolveUrl(image, base),
+    price: parsePrice(meta["product:price:amount"] ?? meta["og:price:amount"]),
+    currency: clean(meta["product:price:currency"] ?? meta["og:price:currency"])?.toUpperCase() ?? null,
+    color: clean(meta["product:color"] ?? meta.color),
+    retailer: clean(meta["og:site_name"]),
+    product_url: resolveUrl(meta["og:url"], base) ?? base ?? null,
+    purchase_date: null,
+  };
+}
+
+/**
+ * Order emails without markup: each innermost table holding one product image and a price
+ */
+function productsFromEmailTables(html: string, base?: string): ImportedProduct[] {
+  const products: ImportedProduct[] = [];
+
+  for (const match of html.matchAll(/<table\b[^>]*>((?:(?!<table\b)[\s\S])*?)<\/table>/gi)) {
+    const block = match[1];
+    const images = [...block.matchAll(/<img\b[^>]*>/gi)]
+      .map((tag) => parseAttributes(tag[0]))
+      .filter((img) => {
+        const size = Math.min(Number(img.width ?? Infinity), Number(img.height ?? Infinity));
+        return img.src && size >= 60 && !NON_PRODUCT_IMAGE.test(`${img.src} ${img.alt ?? ""}`);
+      });
+    if (images.length !== 1) continue;
+
+    const text = stripTags(block);
+    const price = findPrice(text);
+    if (!price) continue;
+
+    const lines = text.split("\n");
+    const alt = clean(images[0].alt);
+    const name =
+      (alt && alt.length >= 3 && !/^(product|item|image)( image)?$/i.test(alt) ? alt : null) ??
+      lines.find((line) => /[a-z]{3}/i.test(line) && !PRICE_PATTERN.test(line) && line.length <= 120) ??
+      null;
+    const color = text.match(/\bcolou?r\s*:\s*([a-z][a-z \-/]{1,30})/i)?.[1].trim() ?? null;
+
+    products.push({
+      name,
+      brand: clean(text.match(/\bbrand\s*:\s*([^\n]{2,40})/i)?.[1]),
+      image_url: resolveUrl(images[0].src, base),
+      price: price.price,
+      currency: price.currency,
+      color,
+      retailer: null,
+      product_url: null,
+      purchase_date: null,
+    });
+  }
+  return products;
+}
+
+/**
+ * Extract products from a product page or an order confirmation email
+ * @param html - Page or email HTML
+ * @param pageUrl - Where the page came from (resolves relative URLs, fallback retailer)
+ */
+export function parseProductHtml(html: string, pageUrl?: string): ImportedProduct[] {
+  const nodes = extractJsonLd(html);
+  const meta = extractMeta(html);
+
+  let products = [
+    ...nodes.filter((node) => hasType(node, "Order")).flatMap((order) => productsFromOrder(order, pageUrl)),
+    ...nodes
+      .filter((node) => hasType(node, "Product", "ProductGroup", "IndividualProduct"))
+      .map((node) => productFromJsonLd(node, pageUrl)),
+  ];
+
+  const fromMeta = productFromMeta(meta, pageUrl);
+  if (products.length === 0 && fromMeta) {
+    products = [fromMeta];
+  } else if (products.length === 1 && fromMeta) {
+    // Structured data is authoritative; meta tags fill what it left out
+    const [product] = products;
+    products = [
+      {
+        name: product.name ?? fromMeta.name,
+        brand: product.brand ?? fromMeta.brand,
+        image_url: product.image_url ?? fromMeta.image_url,
+        price: product.price ?? fromMeta.price,
+        currency: product.currency ?? fromMeta.currency,
+        color: product.color ?? fromMeta.color,
+        retailer: product.retailer ?? fromMeta.retailer,
+        product_url: product.product_url ?? fromMeta.product_url,
+        purchase_date: product.purchase_date,
+      },
+    ];
+  }
+  if (products.length === 0) {
+    products = productsFromEmailTables(html, pageUrl);
+  }
+
+  const retailer = clean(meta["og:site_name"]) ?? hostnameOf(pageUrl);
+  const seen = new Set<string>();
+  return products
+    .filter((product) => product.image_url)
+    .map((product) => ({ ...product, retailer: product.retailer ?? retailer }))
+    .filter((product) => {
+      const key = `${product.name}|${product.image_url}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, MAX_IMPORT_PRODUCTS);
+}
+
+// ================================================
+// Import
+// ================================================
+
+/**
+ * Download a product page (public addresses only)
+ */
+export async function fetchProductPage(url: string): Promise<{ html: string; url: string }> {
+  const page = await safeFetch(url, { maxBytes: MAX_PAGE_BYTES, accept: "text/html,application/xhtml+xml" });
+  if (page.contentType && !page.contentType.includes("html")) {
+    throw new Error(`Expected an HTML page, got ${page.contentType}`);
+  }
+  return { html: page.body.toString("utf8"), url: page.url };
+}
+
+/**
+ * Create one wardrobe item per product and queue it for processing.
+ * The caller checks consent and the item limit first.
+ */
+export async function importProducts(userId: string, products: ImportedProduct[]): Promise<ProductImportResult[]> {
+  const results: ProductImportResult[] = [];
+
+  for (const product of products) {
+    const download = await downloadImage(product.image_url!);
+    const normalized = "error" in download ? download : await normalizeUpload(download.file);
+    if ("error" in normalized) {
+      results.push({ product, item_id: null, error: normalized.error });
+      continue;
+    }
+
+    // Listing prices are best effort - drop anything that doesn't validate
+    const purchase = parsePurchaseInfo({
+      purchase_price: product.price ?? undefined,
+      currency: product.price !== null ? product.currency ?? undefined : undefined,
+      purchase_date: product.purchase_date ?? undefined,
+      retailer: product.retailer?.slice(0, 100) ?? undefined,
+    });
+
+    try {
+      const image = await storeItemImage(userId, randomUUID(), normalized.image);
+      const { data, error } = await supabaseAdmin
+        .from("wardrobe_items")
+        .insert({
+          user_id: userId,
+          original_image_url: image.original_image_url,
+          thumbnail_url: image.thumbnail_url,
+          thumbnails: image.thumbnails,
+          item_name: product.name?.slice(0, 200) ?? null,
+          brand: product.brand,
+          product_info: product,
+          ...(purchase.info ?? {}),
+          processing_status: "processing",
+          times_worn: 0,
+          is_archived: false,
+        })
+        .select("id")
+        .single();
+
+      if (error || !data) {
+        throw new Error(error?.message ?? "Insert failed");
+      }
+
+      await enqueueItemProcessing(data.id, image.original_image_url, userId).catch((err) => {
+        console.error(`[AI] Failed to queue processing for ${data.id}:`, err);
+      });
+      results.push({ product, item_id: data.id, error: null });
+    } catch (err) {
+      console.error(`[Import] Failed to import product "${product.name}":`, err);
+      results.push({ product, item_id: null, error: "Failed to create item" });
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,179 @@
+/**
+ * Visual Similarity Search
+ * Finds the wardrobe items that look closest to an existing item ("more like
+ * this") or to an uploaded photo ("search by photo"), ranked by cosine
+ * similarity of their FashionSigLIP embeddings.
+ */
+
+import { randomUUID } from "node:crypto";
+import { supabaseAdmin } from "./supabase.js";
+import { generateEmbedding, TAG_ENUMS } from "./ai/index.js";
+import { storeItemImage, type NormalizedImage } from "./imageUpload.js";
+import { deleteItemImages } from "./itemStorage.js";
+
+export const DEFAULT_SIMILAR_LIMIT = 20;
+export const MAX_SIMILAR_LIMIT = 50;
+
+export interface SimilarityFilters {
+  categories?: string[];
+  seasons?: string[];
+  minSimilarity?: number;
+  limit?: number;
+}
+
+export interface SimilarItem {
+  item: Record<string, unknown>;
+  similarity: number;
+}
+
+/**
+ * Comma-separated query value, checked against the allowed tag values
+ */
+function parseList(
+  value: string | undefined,
+  allowed: readonly string[],
+  name: string
+): string[] | { error: string } | undefined {
+  if (!value) return undefined;
+
+  const values = [...new Set(value.split(",").map((entry) => entry.trim().toLowerCase()).filter(Boolean))];
+  const invalid = values.filter((entry) => !allowed.includes(entry));
+  if (invalid.length > 0) {
+    return { error: `Invalid ${name}: ${invalid.join(", ")}` };
+  }
+  return values.length > 0 ? values : undefined;
+}
+
+/**
+ * Validate ?category=&seasons=&min_similarity=&limit= query parameters
+ */
+export function parseSimilarityFilters(query: Record<string, string | undefined>): SimilarityFilters | { error: string } {
+  const categories = parseList(query.category, TAG_ENUMS.category, "category");
+  if (categories && "error" in categories) return categories;
+
+  const seasons = parseList(query.seasons, TAG_ENUMS.seasons, "seasons");
+  if (seasons && "error" in seasons) return seasons;
+
+  const filters: SimilarityFilters = { categories, seasons };
+
+  if (query.min_similarity !== undefined) {
+    const minSimilarity = Number(query.min_similarity);
+    if (!Number.isFinite(minSimilarity) || minSimilarity < 0 || minSimilarity > 1) {
+      return { error: "min_similarity must be between 0 and 1" };
+    }
+    filters.minSimilarity = minSimilarity;
+  }
+
+  if (query.limit !== undefined) {
+    const limit = Number(query.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SIMILAR_LIMIT) {
+      return { error: `limit must be between 1 and ${MAX_SIMILAR_LIMIT}` };
+    }
+    filters.limit = limit;
+  }
+
+  return filters;
+}
+
+/**
+ * Load item rows for ranked search matches, keeping the ranking order
+ */
+export async function loadRankedItems(
+  userId: string,
+  matches: Array<{ id: string; similarity: number | null }>
+): Promise<Array<{ item: Record<string, unknown>; similarity: number | null }>> {
+  if (matches.length === 0) return [];
+
+  const { data: rows, error } = await supabaseAdmin
+    .from("wardrobe_items")
+    .select("*")
+    .in("id", matches.map((match) => match.id))
+    .eq("user_id", userId);
+
+  if (error) {
+    throw new Error(`Failed to load items: ${error.message}`);
+  }
+
+  const byId = new Map((rows || []).map((row) => [row.id as string, row as Record<string, unknown>]));
+  return matches
+    .filter((match) => byId.has(match.id))
+    .map((match) => ({
+      item: byId.get(match.id)!,
+      similarity: match.similarity == null ? null : Math.round(match.similarity * 1000) / 1000,
+    }));
+}
+
+/**
+ * Nearest items for an item id or a query embedding, with their rows loaded
+ */
+async function searchSimilar(
+  userId: string,
+  source: { itemId: string } | { embedding: number[] },
+  filters: SimilarityFilters
+): Promise<SimilarItem[]> {
+  const { data: matches, error } = await supabaseAdmin.rpc("search_similar_items", {
+    p_user_id: userId,
+    p_item_id: "itemId" in source ? source.itemId : null,
+    // pgvector parses the JSON array text form
+    p_embedding: "embedding" in source ? JSON.stringify(source.embedding) : null,
+    p_categories: filters.categories ?? null,
+    p_seasons: filters.seasons ?? null,
+    p_min_similarity: filters.minSimilarity ?? 0,
+    p_limit: filters.limit ?? DEFAULT_SIMILAR_LIMIT,
+  });
+
+  if (error) {
+    throw new Error(`Similarity search failed: ${error.message}`);
+  }
+
+  const ranked = await loadRankedItems(userId, (matches || []) as Array<{ id: string; similarity: number }>);
+  return ranked.map((result) => ({ item: result.item, similarity: result.similarity! }));
+}
+
+/**
+ * Items that look like one of the user's items. Returns null when the item
+ * doesn't exist; an item without an embedding yet has no matches.
+ */
+export async function findSimilarItems(
+  userId: string,
+  itemId: string,
+  filters: SimilarityFilters = {}
+): Promise<SimilarItem[] | null> {
+  const { data: item } = await supabaseAdmin
+    .from("wardrobe_items")
+    .select("id")
+    .eq("id", itemId)
+    .eq("user_id", userId)
+    .single();
+
+  if (!item) return null;
+  return searchSimilar(userId, { itemId }, filters);
+}
+
+/**
+ * Items that look like a photo. The photo is only stored long enough for the
+ * embedding model to fetch it.
+ */
+export async function searchByPhoto(
+  userId: string,
+  image: NormalizedImage,
+  filters: SimilarityFilters = {}
+): Promise<SimilarItem[]> {
+  const searchId = `search_${randomUUID()}`;
+  const stored = await storeItemImage(userId, searchId, image);
+
+  let embedding: number[];
+  try {
+    embedding = await generateEmbedding(stored.original_image_url);
+  } finally {
+    await deleteItemImages(searchId, {
+      original_image_url: stored.original_image_url,
+      processed_image_url: null,
+      thumbnails: stored.thumbnails,
+    });
+  }
+
+  const results = await searchSimilar(userId, { embedding }, filters);
+  console.log(`[Search] Photo search for ${userId}: ${results.length} match(es)`);
+  return results;
+}
@@ -0,0 +1,299 @@
+/**
+ * Tag Corrections
+ * Users can override any AI tag. Each override is stored as a correction record that
+ * survives reprocessing (it's re-applied on top of fresh tags), and a user's recent
+ * corrections become few-shot examples for their future tagging calls.
+ */
+
+import { supabaseAdmin } from "./supabase.js";
+import { TAG_ENUMS } from "./ai/index.js";
+import type { ItemTags, TaggingCorrectionExample } from "./ai/index.js";
+import { getLastStageResults } from "./processingQueue.js";
+
+export const EDITABLE_TAG_FIELDS = [
+  "category",
+  "subcategory",
+  "colors",
+  "pattern",
+  "materials",
+  "occasions",
+  "seasons",
+  "formality_score",
+  "style_vibes",
+  "brand",
+  "gender",
+  "fit",
+  "length",
+] as const satisfies ReadonlyArray<keyof ItemTags>;
+
+export type EditableTagField = (typeof EDITABLE_TAG_FIELDS)[number];
+export type TagEdits = Partial<Pick<ItemTags, EditableTagField>>;
+type ItemColors = ItemTags["colors"];
+
+const MAX_EXAMPLES = 5;
+const MAX_EXAMPLE_ROWS = 50;
+const MAX_TEXT_LENGTH = 100;
+const MAX_LIST_LENGTH = 10;
+
+interface CorrectionRow {
+  item_id: string;
+  field: EditableTagField;
+  previous_value: unknown;
+  corrected_value: unknown;
+  description: string | null;
+  created_at: string;
+}
+
+type ParseResult<T> = { value: T; error?: undefined } | { value?: undefined; error: string };
+
+function parseEnum<K extends keyof typeof TAG_ENUMS>(field: K, value: unknown): ParseResult<(typeof TAG_ENUMS)[K][number]> {
+  const allowed: readonly string[] = TAG_ENUMS[field];
+  const normalized = typeof value === "string" ? value.trim().toLowerCase() : null;
+  if (!normalized || !allowed.includes(normalized)) {
+    return { error: `${field} must be one of: ${allowed.join(", ")}` };
+  }
+  return { value: normalized as (typeof TAG_ENUMS)[K][number] };
+}
+
+function parseEnumList<K extends keyof typeof TAG_ENUMS>(
+  field: K,
+  value: unknown,
+  allowEmpty: boolean
+): ParseResult<string[]> {
+  if (!Array.isArray(value)) return { error: `${field} must be an array` };
+  const result: string[] = [];
+  for (const entry of value) {
+    const parsed = parseEnum(field, entry);
+    if (parsed.error !== undefined) return parsed;
+    if (!result.includes(parsed.value)) result.push(parsed.value);
+  }
+  if (!allowEmpty && result.length === 0) return { error: `${field} cannot be empty` };
+  return { value: result };
+}
+
+function parseText(field: string, value: unknown): ParseResult<string> {
+  if (typeof value !== "string" || !value.trim() || value.trim().length > MAX_TEXT_LENGTH) {
+    return { error: `${field} must be a non-empty string of at most ${MAX_TEXT_LENGTH} characters` };
+  }
+  return { value: value.trim() };
+}
+
+function parseTextList(field: string, value: unknown): ParseResult<string[]> {
+  // Accept the comma-separated form the API returns (e.g. material: "cotton, linen")
+  const list = typeof value === "string" ? value.split(",") : value;
+  if (!Array.isArray(list) || list.length > MAX_LIST_LENGTH) {
+    return { error: `${field} must be an array of at most ${MAX_LIST_LENGTH} strings` };
+  }
+  const result: string[] = [];
+  for (const entry of list) {
+    if (typeof entry === "string" && !entry.trim()) continue;
+    const parsed = parseText(field, entry);
+    if (parsed.error !== undefined) return parsed;
+    const normalized = parsed.value.toLowerCase();
+    if (!result.includes(normalized)) result.push(normalized);
+  }
+  return { value: result };
+}
+
+/**
+ * Validate tag edits from a request body against the tagging schema.
+ * Accepts the response aliases too (formality, material, primary_color, secondary_colors, accent_colors).
+ * Color fields are returned separately so they can be merged into the item's current colors.
+ */
+export function parseTagEdits(
+  body: Record<string, unknown>
+): { edits: TagEdits; colors: Partial<ItemColors>; error?: undefined } | { error: string } {
+  const edits: TagEdits = {};
+  const colors: Partial<ItemColors> = {};
+  const fail = (error: string) => ({ error });
+
+  for (const field of ["category", "pattern", "gender", "fit", "length"] as const) {
+    if (body[field] === undefined) continue;
+    const parsed = parseEnum(field, body[field]);
+    if (parsed.error !== undefined) return fail(parsed.error);
+    Object.assign(edits, { [field]: parsed.value });
+  }
+
+  for (const [field, allowEmpty] of [["occasions", false], ["seasons", false], ["style_vibes", true]] as const) {
+    if (body[field] === undefined) continue;
+    const parsed = parseEnumList(field, body[field], allowEmpty);
+    if (parsed.error !== undefined) return fail(parsed.error);
+    edits[field] = parsed.value;
+  }
+
+  if (body.subcategory !== undefined) {
+    const parsed = parseText("subcategory", body.subcategory);
+    if (parsed.error !== undefined) return fail(parsed.error);
+    edits.subcategory = parsed.value.toLowerCase();
+  }
+
+  if (body.brand !== undefined) {
+    if (body.brand === null) {
+      edits.brand = null;
+    } else {
+      const parsed = parseText("brand", body.brand);
+      if (parsed.error !== undefined) return fail(parsed.error);
+      edits.brand = parsed.value;
+    }
+  }
+
+  const formality = body.formality_score ?? body.formality;
+  if (formality !== undefined) {
+    if (!Number.isInteger(formality) || (formality as number) < 1 || (formality as number) > 10) {
+      return fail("formality_score must be an integer from 1 to 10");
+    }
+    edits.formality_score = formality as number;
+  }
+
+  const materials = body.materials ?? body.material;
+  if (materials !== undefined) {
+    const parsed = parseTextList("materials", materials);
+    if (parsed.error !== undefined) return fail(parsed.error);
+    edits.materials = parsed.value;
+  }
+
+  // Colors: either a colors object or the flattened response fields
+  const colorInput = (typeof body.colors === "object" && body.colors !== null ? body.colors : {}) as Record<
+    string,
+    unknown
+  >;
+  if (body.colors !== undefined && (typeof body.colors !== "object" || body.colors === null || Array.isArray(body.colors))) {
+    return fail("colors must be an object");
+  }
+  const primary = colorInput.primary ?? body.primary_color;
+  const secondary = colorInput.secondary ?? body.secondary_colors;
+  const accent = colorInput.accent ?? body.accent_colors;
+
+  if (primary !== undefined) {
+    const parsed = parseText("primary_color", primary);
+    if (parsed.error !== undefined) return fail(parsed.error);
+    colors.primary = parsed.value.toLowerCase();
+  }
+  for (const [key, value] of [["secondary", secondary], ["accent", accent]] as const) {
+    if (value === undefined) continue;
+    const parsed = parseTextList(`${key}_colors`, value);
+    if (parsed.error !== undefined) return fail(parsed.error);
+    colors[key] = parsed.value;
+  }
+
+  return { edits, colors };
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * Fields whose edited value differs from the item's current value
+ */
+export function diffTagEdits(current: Record<string, unknown>, edits: TagEdits): EditableTagField[] {
+  return EDITABLE_TAG_FIELDS.filter((field) => edits[field] !== undefined && !sameValue(current[field], edits[field]));
+}
+
+/**
+ * Merge partial color edits into the item's current colors
+ */
+export function mergeColors(current: unknown, edits: Partial<ItemColors>): ItemColors {
+  const base = (current && typeof current === "object" ? current : {}) as Partial<ItemColors>;
+  return {
+    primary: edits.primary ?? base.primary ?? "unknown",
+    secondary: edits.secondary ?? base.secondary ?? [],
+    accent: edits.accent ?? base.accent ?? [],
+  };
+}
+
+/**
+ * Store a correction record for each changed field
+ */
+export async function recordTagCorrections(
+  userId: string,
+  itemId: string,
+  current: Record<string, unknown>,
+  edits: TagEdits
+): Promise<EditableTagField[]> {
+  const changed = diffTagEdits(current, edits);
+  if (changed.length === 0) return changed;
+
+  // Keep the caption with the correction so it can serve as a few-shot example later
+  const caption = (await getLastStageResults(itemId))?.vision?.raw_description;
+  const description =
+    caption || [current.item_name, current.subcategory, current.category].filter(Boolean).join(", ") || null;
+
+  const { error } = await supabaseAdmin.from("item_tag_corrections").insert(
+    changed.map((field) => ({
+      user_id: userId,
+      item_id: itemId,
+      field,
+      previous_value: current[field] ?? null,
+      corrected_value: edits[field],
+      description,
+    }))
+  );
+
+  if (error) {
+    console.error(`[Tags] Failed to record corrections for item ${itemId}:`, error.message);
+  }
+  return changed;
+}
+
+/**
+ * Latest correction per field for an item
+ */
+export async function getItemCorrections(itemId: string): Promise<TagEdits> {
+  const { data, error } = await supabaseAdmin
+    .from("item_tag_corrections")
+    .select("field, corrected_value, created_at")
+    .eq("item_id", itemId)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to load tag corrections: ${error.message}`);
+  }
+
+  const corrections: TagEdits = {};
+  for (const row of (data || []) as Pick<CorrectionRow, "field" | "corrected_value">[]) {
+    if (!(row.field in corrections)) Object.assign(corrections, { [row.field]: row.corrected_value });
+  }
+  return corrections;
+}
+
+/**
+ * Re-apply user corrections on top of freshly generated tags
+ */
+export function applyTagCorrections(tags: ItemTags, corrections: TagEdits): ItemTags {
+  return { ...tags, ...corrections };
+}
+
+/**
+ * The user's most recent corrections, grouped per item, as few-shot examples
+ */
+export async function getCorrectionExamples(userId: string): Promise<TaggingCorrectionExample[]> {
+  const { data, error } = await supabaseAdmin
+    .from("item_tag_corrections")
+    .select("item_id, field, previous_value, corrected_value, description, created_at")
+    .eq("user_id", userId)
+    .not("description", "is", null)
+    .order("created_at", { ascending: false })
+    .limit(MAX_EXAMPLE_ROWS);
+
+  if (error) {
+    console.error(`[Tags] Failed to load correction examples for user ${userId}:`, error.message);
+    return [];
+  }
+
+  const byItem = new Map<string, TaggingCorrectionExample>();
+  for (const row of (data || []) as CorrectionRow[]) {
+    let example = byItem.get(row.item_id);
+    if (!example) {
+      if (byItem.size >= MAX_EXAMPLES) continue;
+      example = { description: row.description!, corrections: [] };
+      byItem.set(row.item_id, example);
+    }
+    // Only the latest correction per field counts
+    if (!example.corrections.some((c) => c.field === row.field)) {
+      example.corrections.push({ field: row.field, from: row.previous_value, to: row.corrected_value });
+    }
+  }
+
+  return [...byItem.values()];
+}
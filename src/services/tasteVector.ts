@@ -55,30 +55,8 @@ export async function initializeTasteVector(
 
   console.log(`[Taste] Query returned ${dislikedData?.length ?? 0} disliked rows`);
 
-  // Parse embeddings - Supabase returns halfvec as string "[0.1,0.2,...]"
-  const parseEmbedding = (e: { embedding: unknown }): number[] | null => {
-    if (!e.embedding) return null;
-
-    // If already an array, use it
-    if (Array.isArray(e.embedding)) {
-      return e.embedding as number[];
-    }
-
-    // If string (halfvec format), parse it
-    if (typeof e.embedding === "string") {
-      try {
-        const parsed = JSON.parse(e.embedding);
-        if (Array.isArray(parsed)) return parsed;
-      } catch {
-        console.error(
-          "[Taste] Failed to parse embedding string:",
-          e.embedding.slice(0, 50)
-        );
-      }
-    }
-
-    return null;
-  };
+  const parseEmbedding = (e: { embedding: unknown }): number[] | null =>
+    parseVector(e.embedding);
 
   const likedEmbeddings = (likedData || [])
     .map(parseEmbedding)
@@ -129,6 +107,12 @@ export async function initializeTasteVector(
     throw new Error(`Failed to initialize taste vector: ${error.message}`);
   }
 
+  await recordTasteSnapshot(
+    userId,
+    normalized,
+    likedImageIds.length + dislikedImageIds.length
+  );
+
   console.log(`[Taste] Taste vector initialized for user ${userId}`);
 }
 
@@ -176,12 +160,13 @@ export async function updateTasteVector(
   const normalized = normalizeVector(newVector);
 
   // Save updated vector
+  const interactionCount = (current.interaction_count || 0) + 1;
   const { error } = await supabaseAdmin
     .from("user_taste_vectors")
     .update({
       taste_vector: normalized,
       last_updated: new Date().toISOString(),
-      interaction_count: (current.interaction_count || 0) + 1,
+      interaction_count: interactionCount,
     })
     .eq("user_id", userId);
 
@@ -191,9 +176,60 @@ export async function updateTasteVector(
     console.log(
       `[Taste] Updated taste vector for user ${userId} (${interactionType}, weight=${weight})`
     );
+    await recordTasteSnapshot(userId, normalized, interactionCount);
+  }
+}
+
+/**
+ * Save today's taste vector to the snapshot history (one row per user per day).
+ * Non-critical: failures are logged, never thrown.
+ */
+async function recordTasteSnapshot(
+  userId: string,
+  vector: number[],
+  interactionCount: number
+): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from("user_taste_vector_snapshots")
+    .upsert(
+      {
+        user_id: userId,
+        snapshot_date: new Date().toISOString().split("T")[0],
+        taste_vector: vector,
+        interaction_count: interactionCount,
+      },
+      { onConflict: "user_id,snapshot_date" }
+    );
+
+  if (error) {
+    console.error(`[Taste] Failed to record taste snapshot:`, error);
   }
 }
 
+/**
+ * Parse a stored vector - Supabase returns halfvec as string "[0.1,0.2,...]"
+ */
+export function parseVector(value: unknown): number[] | null {
+  if (!value) return null;
+
+  // If already an array, use it
+  if (Array.isArray(value)) {
+    return value as number[];
+  }
+
+  // If string (halfvec format), parse it
+  if (typeof value === "string") {
+    try {
+      const parsed = JSON.parse(value);
+      if (Array.isArray(parsed)) return parsed;
+    } catch {
+      console.error("[Taste] Failed to parse embedding string:", value.slice(0, 50));
+    }
+  }
+
+  return null;
+}
+
 /**
  * Get user's taste vector.
  */
@@ -220,26 +256,6 @@ export async function hasCompletedOnboarding(userId: string): Promise<boolean> {
   return !!data;
 }
 
-/**
- * Calculate cosine similarity between two vectors.
- */
-export function cosineSimilarity(a: number[], b: number[]): number {
-  if (a.length !== b.length) return 0;
-
-  let dotProduct = 0;
-  let normA = 0;
-  let normB = 0;
-
-  for (let i = 0; i < a.length; i++) {
-    dotProduct += a[i] * b[i];
-    normA += a[i] * a[i];
-    normB += b[i] * b[i];
-  }
-
-  const magnitude = Math.sqrt(normA) * Math.sqrt(normB);
-  return magnitude === 0 ? 0 : dotProduct / magnitude;
-}
-
 // Vector math utilities
 
 function averageVectors(vectors: number[][]): number[] {
@@ -0,0 +1,495 @@
+/**
+ * Wardrobe Analytics
+ * Pro dashboard metrics built from outfit_history, generated_outfits and wardrobe_items:
+ * wear frequency, utilization, versatility, taste drift and weather-vs-choice.
+ */
+
+import { supabaseAdmin } from "./supabase.js";
+import { parseVector } from "./tasteVector.js";
+import { cosineSimilarity } from "../utils/vectorMath.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TOP_N = 10;
+const MAX_SNAPSHOTS = 180;
+
+export const ANALYTICS_WINDOWS = {
+  "7d": 7,
+  "30d": 30,
+  "90d": 90,
+  "365d": 365,
+  all: null,
+} as const;
+
+export type AnalyticsWindow = keyof typeof ANALYTICS_WINDOWS;
+export const DEFAULT_WINDOW: AnalyticsWindow = "30d";
+
+// Utilization is always reported for these windows regardless of the selected one
+const UTILIZATION_DAYS = [30, 90] as const;
+
+// Temperature bands (Celsius) for the weather-vs-choice breakdown
+const TEMPERATURE_BANDS: Array<{ band: string; max: number }> = [
+  { band: "cold", max: 10 },
+  { band: "cool", max: 18 },
+  { band: "mild", max: 25 },
+  { band: "hot", max: Infinity },
+];
+
+export interface AnalyticsItem {
+  id: string;
+  item_name: string | null;
+  category: string | null;
+  colors: { primary?: string } | null;
+  style_vibes: string[] | null;
+  processed_image_url: string | null;
+  times_worn: number | null;
+  last_worn_at: string | null;
+  created_at: string | null;
+}
+
+export interface HistoryEntry {
+  id: string;
+  outfit_id: string | null;
+  items: string[] | null;
+  worn_at: string;
+  weather_temp: number | null;
+  weather_condition: string | null;
+}
+
+export interface GeneratedEntry {
+  id: string;
+  items: string[] | null;
+  weather_temp: number | null;
+  weather_condition: string | null;
+  is_worn: boolean | null;
+  generated_at: string;
+}
+
+export interface TasteSnapshot {
+  snapshot_date: string;
+  taste_vector: unknown;
+  interaction_count: number | null;
+}
+
+export interface AnalyticsData {
+  items: AnalyticsItem[];
+  history: HistoryEntry[];
+  generated: GeneratedEntry[];
+}
+
+export interface CountEntry {
+  key: string;
+  wears: number;
+  share: number; // Fraction of all item-wears in the window
+}
+
+export interface ItemWearEntry {
+  id: string;
+  name: string;
+  category: string | null;
+  image_url: string | null;
+  wears: number;
+}
+
+export interface WearFrequency {
+  window: AnalyticsWindow;
+  outfits_worn: number;
+  by_item: ItemWearEntry[];
+  by_category: CountEntry[];
+  by_color: CountEntry[];
+  by_vibe: CountEntry[];
+}
+
+export interface VersatilityEntry {
+  id: string;
+  name: string;
+  category: string | null;
+  image_url: string | null;
+  distinct_outfits_worn: number;
+  distinct_outfits_suggested: number;
+}
+
+export interface WeatherChoiceEntry {
+  band: string;
+  outfits_suggested: number;
+  outfits_worn: number;
+  wear_rate: number | null; // Worn / suggested
+  top_categories: string[];
+  conditions: Record<string, number>;
+}
+
+export interface TasteDriftPoint {
+  date: string;
+  interaction_count: number;
+  similarity_to_previous: number | null;
+  similarity_to_current: number;
+}
+
+export interface TasteDrift {
+  total_drift: number | null; // 1 - similarity between the first and latest snapshot
+  recent_drift: number | null; // Same, over the last 30 days
+  points: TasteDriftPoint[];
+  vibe_trend: Array<{ month: string; vibes: CountEntry[] }>;
+}
+
+function round3(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function itemName(item: AnalyticsItem): string {
+  return item.item_name || item.category || "Item";
+}
+
+/**
+ * Parse a window query param, falling back to the default
+ */
+export function parseAnalyticsWindow(value: string | undefined): AnalyticsWindow | null {
+  if (!value) return DEFAULT_WINDOW;
+  return value in ANALYTICS_WINDOWS ? (value as AnalyticsWindow) : null;
+}
+
+/**
+ * Start of a window (null = all time)
+ */
+export function windowStart(window: AnalyticsWindow, now: Date = new Date()): Date | null {
+  const days = ANALYTICS_WINDOWS[window];
+  return days === null ? null : new Date(now.getTime() - days * DAY_MS);
+}
+
+/**
+ * Load everything the dashboard needs for one user.
+ * History is loaded for at least 90 days so utilization is always available.
+ */
+export async function loadAnalyticsData(
+  userId: string,
+  window: AnalyticsWindow,
+  now: Date = new Date()
+): Promise<AnalyticsData> {
+  const selected = windowStart(window, now);
+  const utilizationStart = new Date(now.getTime() - Math.max(...UTILIZATION_DAYS) * DAY_MS);
+  const since = selected && selected > utilizationStart ? utilizationStart : selected;
+
+  let historyQuery = supabaseAdmin
+    .from("outfit_history")
+    .select("id, outfit_id, items, worn_at, weather_temp, weather_condition")
+    .eq("user_id", userId)
+    .order("worn_at", { ascending: true });
+  let generatedQuery = supabaseAdmin
+    .from("generated_outfits")
+    .select("id, items, weather_temp, weather_condition, is_worn, generated_at")
+    .eq("user_id", userId);
+
+  if (since) {
+    historyQuery = historyQuery.gte("worn_at", since.toISOString());
+    generatedQuery = generatedQuery.gte("generated_at", since.toISOString());
+  }
+
+  const [itemsResult, historyResult, generatedResult] = await Promise.all([
+    supabaseAdmin
+      .from("wardrobe_items")
+      .select("id, item_name, category, colors, style_vibes, processed_image_url, times_worn, last_worn_at, created_at")
+      .eq("user_id", userId)
+      .eq("is_archived", false)
+      .eq("processing_status", "completed"),
+    historyQuery,
+    generatedQuery,
+  ]);
+
+  const error = itemsResult.error || historyResult.error || generatedResult.error;
+  if (error) {
+    throw new Error(`Failed to load analytics data: ${error.message}`);
+  }
+
+  return {
+    items: (itemsResult.data || []) as AnalyticsItem[],
+    history: (historyResult.data || []) as HistoryEntry[],
+    generated: (generatedResult.data || []) as GeneratedEntry[],
+  };
+}
+
+/**
+ * Load the taste vector snapshot history, oldest first
+ */
+export async function loadTasteSnapshots(userId: string): Promise<TasteSnapshot[]> {
+  const { data, error } = await supabaseAdmin
+    .from("user_taste_vector_snapshots")
+    .select("snapshot_date, taste_vector, interaction_count")
+    .eq("user_id", userId)
+    .order("snapshot_date", { ascending: false })
+    .limit(MAX_SNAPSHOTS);
+
+  if (error) {
+    throw new Error(`Failed to load taste history: ${error.message}`);
+  }
+
+  return ((data || []) as TasteSnapshot[]).reverse();
+}
+
+function historyInWindow(history: HistoryEntry[], start: Date | null): HistoryEntry[] {
+  return start ? history.filter((entry) => new Date(entry.worn_at) >= start) : history;
+}
+
+function toCountEntries(counts: Map<string, number>, total: number): CountEntry[] {
+  return [...counts.entries()]
+    .map(([key, wears]) => ({ key, wears, share: total > 0 ? round3(wears / total) : 0 }))
+    .sort((a, b) => b.wears - a.wears);
+}
+
+function increment(counts: Map<string, number>, key: string, by = 1): void {
+  counts.set(key, (counts.get(key) || 0) + by);
+}
+
+/**
+ * Wear counts by item, category, primary color and vibe over a window
+ */
+export function calculateWearFrequency(
+  data: AnalyticsData,
+  window: AnalyticsWindow,
+  now: Date = new Date()
+): WearFrequency {
+  const itemsById = new Map(data.items.map((item) => [item.id, item]));
+  const history = historyInWindow(data.history, windowStart(window, now));
+
+  const byItem = new Map<string, number>();
+  for (const entry of history) {
+    for (const id of entry.items || []) {
+      if (itemsById.has(id)) increment(byItem, id);
+    }
+  }
+
+  const byCategory = new Map<string, number>();
+  const byColor = new Map<string, number>();
+  const byVibe = new Map<string, number>();
+  let totalWears = 0;
+  for (const [id, wears] of byItem) {
+    const item = itemsById.get(id)!;
+    totalWears += wears;
+    increment(byCategory, item.category || "uncategorized", wears);
+    if (item.colors?.primary) increment(byColor, item.colors.primary.toLowerCase(), wears);
+    for (const vibe of item.style_vibes || []) increment(byVibe, vibe, wears);
+  }
+
+  const vibeTotal = [...byVibe.values()].reduce((sum, n) => sum + n, 0);
+
+  return {
+    window,
+    outfits_worn: history.length,
+    by_item: [...byItem.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, TOP_N)
+      .map(([id, wears]) => {
+        const item = itemsById.get(id)!;
+        return {
+          id,
+          name: itemName(item),
+          category: item.category,
+          image_url: item.processed_image_url,
+          wears,
+        };
+      }),
+    by_category: toCountEntries(byCategory, totalWears),
+    by_color: toCountEntries(byColor, totalWears),
+    by_vibe: toCountEntries(byVibe, vibeTotal),
+  };
+}
+
+/**
+ * Percentage of the active wardrobe worn in the last 30 and 90 days.
+ * Counts both logged outfits and items marked worn directly (last_worn_at).
+ */
+export function calculateUtilization(
+  data: AnalyticsData,
+  now: Date = new Date()
+): Record<string, { items_worn: number; total_items: number; percent: number }> {
+  const result: Record<string, { items_worn: number; total_items: number; percent: number }> = {};
+  const total = data.items.length;
+
+  for (const days of UTILIZATION_DAYS) {
+    const start = new Date(now.getTime() - days * DAY_MS);
+    const worn = new Set<string>();
+
+    for (const entry of historyInWindow(data.history, start)) {
+      for (const id of entry.items || []) worn.add(id);
+    }
+
+    let itemsWorn = 0;
+    for (const item of data.items) {
+      if (worn.has(item.id) || (item.last_worn_at && new Date(item.last_worn_at) >= start)) itemsWorn++;
+    }
+
+    result[`last_${days}_days`] = {
+      items_worn: itemsWorn,
+      total_items: total,
+      percent: total > 0 ? Math.round((itemsWorn / total) * 100) : 0,
+    };
+  }
+
+  return result;
+}
+
+function outfitKey(items: string[]): string {
+  return [...items].sort().join(",");
+}
+
+/**
+ * Most and least versatile items, measured by the distinct outfits they appeared in.
+ * Worn outfits count first; suggested outfits break ties.
+ */
+export function calculateVersatility(
+  data: AnalyticsData,
+  window: AnalyticsWindow,
+  now: Date = new Date()
+): { most_versatile: VersatilityEntry[]; least_versatile: VersatilityEntry[] } {
+  const start = windowStart(window, now);
+  const worn = new Map<string, Set<string>>();
+  const suggested = new Map<string, Set<string>>();
+
+  const collect = (target: Map<string, Set<string>>, items: string[] | null) => {
+    if (!items || items.length === 0) return;
+    const key = outfitKey(items);
+    for (const id of items) {
+      if (!target.has(id)) target.set(id, new Set());
+      target.get(id)!.add(key);
+    }
+  };
+
+  for (const entry of historyInWindow(data.history, start)) collect(worn, entry.items);
+  for (const entry of data.generated) {
+    if (!start || new Date(entry.generated_at) >= start) collect(suggested, entry.items);
+  }
+
+  const entries: VersatilityEntry[] = data.items.map((item) => ({
+    id: item.id,
+    name: itemName(item),
+    category: item.category,
+    image_url: item.processed_image_url,
+    distinct_outfits_worn: worn.get(item.id)?.size || 0,
+    distinct_outfits_suggested: suggested.get(item.id)?.size || 0,
+  }));
+
+  const byVersatility = (a: VersatilityEntry, b: VersatilityEntry) =>
+    b.distinct_outfits_worn - a.distinct_outfits_worn ||
+    b.distinct_outfits_suggested - a.distinct_outfits_suggested;
+
+  const sorted = [...entries].sort(byVersatility);
+  const most = sorted.filter((e) => e.distinct_outfits_worn > 0 || e.distinct_outfits_suggested > 0).slice(0, TOP_N);
+  const mostIds = new Set(most.map((e) => e.id));
+
+  return {
+    most_versatile: most,
+    least_versatile: sorted
+      .reverse()
+      .filter((e) => !mostIds.has(e.id))
+      .slice(0, TOP_N),
+  };
+}
+
+function temperatureBand(temp: number): string {
+  return TEMPERATURE_BANDS.find((b) => temp < b.max)!.band;
+}
+
+/**
+ * How often suggestions get worn per temperature band, and what gets chosen
+ */
+export function calculateWeatherChoices(
+  data: AnalyticsData,
+  window: AnalyticsWindow,
+  now: Date = new Date()
+): WeatherChoiceEntry[] {
+  const start = windowStart(window, now);
+  const itemsById = new Map(data.items.map((item) => [item.id, item]));
+  const generatedById = new Map(data.generated.map((outfit) => [outfit.id, outfit]));
+
+  const bands = new Map(
+    TEMPERATURE_BANDS.map(({ band }) => [
+      band,
+      { suggested: 0, worn: 0, categories: new Map<string, number>(), conditions: new Map<string, number>() },
+    ])
+  );
+
+  for (const outfit of data.generated) {
+    if (outfit.weather_temp == null) continue;
+    if (start && new Date(outfit.generated_at) < start) continue;
+    bands.get(temperatureBand(outfit.weather_temp))!.suggested++;
+  }
+
+  for (const entry of historyInWindow(data.history, start)) {
+    // Older history rows didn't record weather - fall back to the outfit it came from
+    const source = entry.outfit_id ? generatedById.get(entry.outfit_id) : undefined;
+    const temp = entry.weather_temp ?? source?.weather_temp ?? null;
+    if (temp == null) continue;
+
+    const stats = bands.get(temperatureBand(temp))!;
+    stats.worn++;
+    const condition = entry.weather_condition ?? source?.weather_condition;
+    if (condition) increment(stats.conditions, condition);
+    for (const id of entry.items || []) {
+      const category = itemsById.get(id)?.category;
+      if (category) increment(stats.categories, category);
+    }
+  }
+
+  return TEMPERATURE_BANDS.map(({ band }) => {
+    const stats = bands.get(band)!;
+    return {
+      band,
+      outfits_suggested: stats.suggested,
+      outfits_worn: stats.worn,
+      wear_rate: stats.suggested > 0 ? round3(Math.min(1, stats.worn / stats.suggested)) : null,
+      top_categories: [...stats.categories.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, 3)
+        .map(([category]) => category),
+      conditions: Object.fromEntries(stats.conditions),
+    };
+  });
+}
+
+/**
+ * Taste drift from the snapshot history, plus the monthly mix of vibes actually worn
+ */
+export function calculateTasteDrift(
+  snapshots: TasteSnapshot[],
+  data: AnalyticsData,
+  now: Date = new Date()
+): TasteDrift {
+  const parsed = snapshots
+    .map((snapshot) => ({ ...snapshot, vector: parseVector(snapshot.taste_vector) }))
+    .filter((s): s is TasteSnapshot & { vector: number[] } => s.vector !== null);
+
+  const latest = parsed[parsed.length - 1]?.vector;
+  const points: TasteDriftPoint[] = parsed.map((snapshot, i) => ({
+    date: snapshot.snapshot_date,
+    interaction_count: snapshot.interaction_count || 0,
+    similarity_to_previous: i > 0 ? round3(cosineSimilarity(parsed[i - 1].vector, snapshot.vector)) : null,
+    similarity_to_current: round3(cosineSimilarity(snapshot.vector, latest!)),
+  }));
+
+  const recentStart = new Date(now.getTime() - 30 * DAY_MS).toISOString().split("T")[0];
+  // Taste as it stood 30 days ago (or the oldest snapshot if history is newer than that)
+  const recentBase = [...parsed].reverse().find((s) => s.snapshot_date <= recentStart) ?? parsed[0];
+
+  // Vibe mix per month from worn outfits
+  const itemsById = new Map(data.items.map((item) => [item.id, item]));
+  const months = new Map<string, Map<string, number>>();
+  for (const entry of data.history) {
+    const month = entry.worn_at.slice(0, 7);
+    if (!months.has(month)) months.set(month, new Map());
+    for (const id of entry.items || []) {
+      for (const vibe of itemsById.get(id)?.style_vibes || []) increment(months.get(month)!, vibe);
+    }
+  }
+
+  return {
+    total_drift: parsed.length > 1 ? round3(1 - cosineSimilarity(parsed[0].vector, latest!)) : null,
+    recent_drift: recentBase && recentBase !== parsed[parsed.length - 1]
+      ? round3(1 - cosineSimilarity(recentBase.vector, latest!))
+      : null,
+    points,
+    vibe_trend: [...months.entries()]
+      .sort((a, b) => a[0].localeCompare(b[0]))
+      .map(([month, counts]) => {
+        const total = [...counts.values()].reduce((sum, n) => sum + n, 0);
+        return { month, vibes: toCountEntries(counts, total).slice(0, 5) };
+      }),
+  };
+}
@@ -0,0 +1,392 @@
+/**
+ * Wardrobe Gap Analysis
+ * Runs the generator's slot, occasion and weather rules over a wardrobe to find
+ * what it can't cover, and suggests the single items that would unlock the
+ * most new outfit combinations.
+ */
+
+import {
+  getSlotForCategory,
+  matchesOccasion,
+  OCCASION_FORMALITY,
+  RAIN_READY_OUTERWEAR,
+  type WardrobeItem,
+} from "./outfitBuilder.js";
+import { colorsAreCompatible, isNeutral } from "./colorHarmony.js";
+import { filterByWeather } from "../utils/seasonalFilter.js";
+import type { SeasonSuggestion, WeatherData } from "./weather.js";
+
+type CoreSlot = "top" | "bottom" | "footwear" | "onepiece";
+type GapSlot = CoreSlot | "outerwear";
+
+export type GapType = "missing_slot" | "occasion" | "rain" | "neutral_bottoms" | "season";
+export type GapSeverity = "high" | "medium" | "low";
+
+export interface SuggestedItem {
+  name: string; // e.g. "navy chinos"
+  category: string;
+  subcategory: string;
+  color: string;
+  formality: number;
+}
+
+export interface WardrobeGap {
+  type: GapType;
+  severity: GapSeverity;
+  context: string | null; // Occasion or season the gap applies to
+  title: string;
+  suggestion: string; // "Add navy chinos"
+  item: SuggestedItem;
+  unlocks: number; // New outfit combinations the suggested item would add
+}
+
+export interface GapAnalysis {
+  item_count: number;
+  combinations: number; // Color-compatible core outfits the wardrobe can make today
+  gaps: WardrobeGap[];
+}
+
+// Fewer weather-appropriate outfits than this and a season counts as thin
+const MIN_SEASON_COMBINATIONS = 6;
+const MAX_GAPS = 10;
+
+// Representative conditions per season for running the weather filter
+const SEASON_TEMPERATURES: Record<Exclude<SeasonSuggestion, "all">, number> = {
+  summer: 28,
+  spring: 18,
+  fall: 10,
+  winter: 0,
+};
+
+const SEVERITY_RANK: Record<GapSeverity, number> = { high: 0, medium: 1, low: 2 };
+
+// Go-to item per slot by formality (first entry whose maxFormality covers the target)
+const SLOT_SUGGESTIONS: Record<GapSlot, Array<SuggestedItem & { maxFormality: number }>> = {
+  top: [
+    { maxFormality: 2, name: "performance tee", category: "tops", subcategory: "t-shirt", color: "black", formality: 1 },
+    { maxFormality: 4, name: "white t-shirt", category: "tops", subcategory: "t-shirt", color: "white", formality: 3 },
+    { maxFormality: 7, name: "light blue oxford shirt", category: "tops", subcategory: "shirt", color: "light blue", formality: 6 },
+    { maxFormality: 10, name: "white dress shirt", category: "tops", subcategory: "shirt", color: "white", formality: 8 },
+  ],
+  bottom: [
+    { maxFormality: 2, name: "black joggers", category: "bottoms", subcategory: "joggers", color: "black", formality: 1 },
+    { maxFormality: 4, name: "dark denim jeans", category: "bottoms", subcategory: "jeans", color: "denim", formality: 4 },
+    { maxFormality: 7, name: "navy chinos", category: "bottoms", subcategory: "chinos", color: "navy", formality: 6 },
+    { maxFormality: 10, name: "charcoal dress trousers", category: "bottoms", subcategory: "trousers", color: "charcoal", formality: 8 },
+  ],
+  footwear: [
+    { maxFormality: 2, name: "running shoes", category: "shoes", subcategory: "sneakers", color: "gray", formality: 1 },
+    { maxFormality: 4, name: "white sneakers", category: "shoes", subcategory: "sneakers", color: "white", formality: 3 },
+    { maxFormality: 7, name: "brown loafers", category: "shoes", subcategory: "loafers", color: "brown", formality: 6 },
+    { maxFormality: 10, name: "black oxford shoes", category: "shoes", subcategory: "oxfords", color: "black", formality: 9 },
+  ],
+  onepiece: [
+    { maxFormality: 4, name: "black jersey dress", category: "dresses", subcategory: "dress", color: "black", formality: 4 },
+    { maxFormality: 10, name: "black midi dress", category: "dresses", subcategory: "dress", color: "black", formality: 8 },
+  ],
+  outerwear: [
+    { maxFormality: 10, name: "navy rain jacket", category: "outerwear", subcategory: "rain jacket", color: "navy", formality: 4 },
+  ],
+};
+
+// Seasonal go-tos override the formality table
+const SEASON_SUGGESTIONS: Partial<Record<SeasonSuggestion, Partial<Record<CoreSlot, SuggestedItem>>>> = {
+  summer: {
+    top: { name: "white linen shirt", category: "tops", subcategory: "shirt", color: "white", formality: 4 },
+    bottom: { name: "beige shorts", category: "bottoms", subcategory: "shorts", color: "beige", formality: 3 },
+    footwear: { name: "tan sandals", category: "shoes", subcategory: "sandals", color: "tan", formality: 3 },
+  },
+  winter: {
+    top: { name: "grey wool sweater", category: "tops", subcategory: "sweater", color: "grey", formality: 5 },
+    bottom: { name: "charcoal wool trousers", category: "bottoms", subcategory: "trousers", color: "charcoal", formality: 6 },
+    footwear: { name: "brown leather boots", category: "shoes", subcategory: "boots", color: "brown", formality: 5 },
+  },
+};
+
+// Neutral bottoms to suggest when none are owned, in order of preference
+const NEUTRAL_BOTTOMS: SuggestedItem[] = [
+  { name: "navy chinos", category: "bottoms", subcategory: "chinos", color: "navy", formality: 6 },
+  { name: "black trousers", category: "bottoms", subcategory: "trousers", color: "black", formality: 6 },
+  { name: "beige chinos", category: "bottoms", subcategory: "chinos", color: "beige", formality: 5 },
+  { name: "grey trousers", category: "bottoms", subcategory: "trousers", color: "grey", formality: 6 },
+];
+
+const SLOT_LABELS: Record<GapSlot, string> = {
+  top: "tops",
+  bottom: "bottoms",
+  footwear: "footwear",
+  onepiece: "dresses",
+  outerwear: "outerwear",
+};
+
+type SlotGroups = Record<CoreSlot, WardrobeItem[]>;
+
+function getCoreSlot(item: WardrobeItem): GapSlot | null {
+  const slot = getSlotForCategory(item.category) || getSlotForCategory(item.subcategory);
+  return slot === "top" || slot === "bottom" || slot === "footwear" || slot === "onepiece" || slot === "outerwear"
+    ? slot
+    : null;
+}
+
+function groupCoreSlots(items: WardrobeItem[]): SlotGroups {
+  const groups: SlotGroups = { top: [], bottom: [], footwear: [], onepiece: [] };
+  for (const item of items) {
+    const slot = getCoreSlot(item);
+    if (slot && slot !== "outerwear") groups[slot].push(item);
+  }
+  return groups;
+}
+
+function primaryColor(item: WardrobeItem): string | null {
+  return item.colors?.primary || null;
+}
+
+/**
+ * Pairwise color check matching the generator's color filter (unknown colors pass)
+ */
+function compatible(a: WardrobeItem, b: WardrobeItem): boolean {
+  const colorA = primaryColor(a);
+  const colorB = primaryColor(b);
+  if (!colorA || !colorB) return true;
+  return colorsAreCompatible(colorA, colorB);
+}
+
+/**
+ * Count color-compatible core outfits: top + bottom + footwear, or one-piece + footwear
+ */
+function countCombinations(groups: SlotGroups): number {
+  let count = 0;
+
+  for (const top of groups.top) {
+    for (const bottom of groups.bottom) {
+      if (!compatible(top, bottom)) continue;
+      for (const shoe of groups.footwear) {
+        if (compatible(top, shoe) && compatible(bottom, shoe)) count++;
+      }
+    }
+  }
+
+  for (const onepiece of groups.onepiece) {
+    for (const shoe of groups.footwear) {
+      if (compatible(onepiece, shoe)) count++;
+    }
+  }
+
+  return count;
+}
+
+function toWardrobeItem(suggested: SuggestedItem): WardrobeItem {
+  return {
+    id: `suggested:${suggested.name}`,
+    category: suggested.category,
+    subcategory: suggested.subcategory,
+    colors: { primary: suggested.color },
+    formality_score: suggested.formality,
+  };
+}
+
+/**
+ * New combinations gained by adding one suggested item to a slot
+ */
+function countUnlocked(groups: SlotGroups, slot: CoreSlot, suggested: SuggestedItem): number {
+  const withItem = { ...groups, [slot]: [...groups[slot], toWardrobeItem(suggested)] };
+  return countCombinations(withItem) - countCombinations(groups);
+}
+
+/**
+ * Pick the go-to item for a slot at a target formality
+ */
+function suggestForSlot(slot: GapSlot, formality: number): SuggestedItem {
+  const options = SLOT_SUGGESTIONS[slot];
+  const { maxFormality: _max, ...item } = options.find((o) => formality <= o.maxFormality) ?? options[options.length - 1];
+  return item;
+}
+
+/**
+ * Slots that block separates outfits (top + bottom + footwear)
+ */
+function missingSeparatesSlots(groups: SlotGroups): CoreSlot[] {
+  return (["top", "bottom", "footwear"] as const).filter((slot) => groups[slot].length === 0);
+}
+
+/**
+ * Best single addition for a set of slot groups: the slot whose go-to item unlocks the most
+ */
+function bestAddition(
+  groups: SlotGroups,
+  formality: number,
+  pick: (slot: CoreSlot) => SuggestedItem = (slot) => suggestForSlot(slot, formality)
+): { slot: CoreSlot; item: SuggestedItem; unlocks: number } | null {
+  const missing = missingSeparatesSlots(groups);
+  const candidates: CoreSlot[] = missing.length > 0 ? missing : ["top", "bottom", "footwear"];
+
+  let best: { slot: CoreSlot; item: SuggestedItem; unlocks: number } | null = null;
+  for (const slot of candidates) {
+    const item = pick(slot);
+
+    // With several slots empty one item alone unlocks nothing - count as if the others were filled too
+    const others = missing.filter((m) => m !== slot);
+    const filled = others.reduce(
+      (g, other) => ({ ...g, [other]: [...g[other], toWardrobeItem(pick(other))] }),
+      groups
+    );
+    const unlocks = countUnlocked(filled, slot, item);
+
+    if (!best || unlocks > best.unlocks) best = { slot, item, unlocks };
+  }
+  return best;
+}
+
+function seasonWeather(season: keyof typeof SEASON_TEMPERATURES): WeatherData {
+  const temperature = SEASON_TEMPERATURES[season];
+  return {
+    temperature,
+    feels_like: temperature,
+    humidity: 50,
+    condition: "clear",
+    description: `typical ${season} day`,
+    wind_speed: 3,
+    is_rainy: false,
+    is_snowy: false,
+    season_suggestion: season,
+  };
+}
+
+function addArticle(name: string): string {
+  // Plurals (chinos, sneakers, trousers) read naturally without an article
+  if (name.endsWith("s")) return name;
+  return /^[aeiou]/i.test(name) ? `an ${name}` : `a ${name}`;
+}
+
+function gap(
+  type: GapType,
+  severity: GapSeverity,
+  context: string | null,
+  title: string,
+  item: SuggestedItem,
+  unlocks: number
+): WardrobeGap {
+  return { type, severity, context, title, suggestion: `Add ${addArticle(item.name)}`, item, unlocks };
+}
+
+/**
+ * Analyze a wardrobe for gaps and prioritized shopping suggestions
+ */
+export function analyzeWardrobeGaps(items: WardrobeItem[]): GapAnalysis {
+  const groups = groupCoreSlots(items);
+  const combinations = countCombinations(groups);
+  const gaps: WardrobeGap[] = [];
+
+  // 1. Core slots with nothing in them
+  const missing = missingSeparatesSlots(groups);
+  if (missing.length > 0) {
+    const best = bestAddition(groups, 4);
+    for (const slot of missing) {
+      const item = suggestForSlot(slot, 4);
+      gaps.push(
+        gap(
+          "missing_slot",
+          "high",
+          null,
+          `No ${SLOT_LABELS[slot]} in your wardrobe`,
+          item,
+          best?.slot === slot ? best.unlocks : countUnlocked(groups, slot, item)
+        )
+      );
+    }
+  }
+
+  // 2. Occasions the wardrobe can't dress for (formality ranges from OCCASION_FORMALITY)
+  for (const [occasion, range] of Object.entries(OCCASION_FORMALITY)) {
+    const occasionGroups = groupCoreSlots(items.filter((item) => matchesOccasion(item, occasion)));
+    const occasionCombos = countCombinations(occasionGroups);
+    if (occasionCombos > 0) continue;
+
+    const target = Math.round((range.min + range.max) / 2);
+    const best = bestAddition(occasionGroups, target);
+    if (!best) continue;
+
+    const empty = missingSeparatesSlots(occasionGroups);
+    const slotLabel = SLOT_LABELS[empty.includes(best.slot) ? best.slot : empty[0] ?? best.slot];
+    gaps.push(
+      gap(
+        "occasion",
+        "high",
+        occasion,
+        `Nothing ${occasion}-appropriate in ${slotLabel}`,
+        best.item,
+        best.unlocks
+      )
+    );
+  }
+
+  // 3. Rain-ready outerwear
+  const outerwear = items.filter((item) => getCoreSlot(item) === "outerwear");
+  const hasRainLayer = outerwear.some((item) => {
+    const text = `${item.subcategory || ""} ${item.category || ""}`.toLowerCase();
+    return RAIN_READY_OUTERWEAR.some((keyword) => text.includes(keyword));
+  });
+  if (!hasRainLayer && combinations > 0) {
+    // Every current outfit becomes wearable on a rainy day
+    gaps.push(
+      gap(
+        "rain",
+        outerwear.length === 0 ? "high" : "medium",
+        "rain",
+        "No rain-appropriate outerwear",
+        suggestForSlot("outerwear", 4),
+        combinations
+      )
+    );
+  }
+
+  // 4. Colorful palette with no neutral bottoms to anchor it
+  const bottomColors = groups.bottom.map(primaryColor).filter((c): c is string => !!c);
+  if (groups.bottom.length > 0 && bottomColors.length > 0 && !bottomColors.some((c) => isNeutral(c))) {
+    const owned = new Set(bottomColors.map((c) => c.toLowerCase()));
+    const item = NEUTRAL_BOTTOMS.find((b) => !owned.has(b.color)) ?? NEUTRAL_BOTTOMS[0];
+    gaps.push(
+      gap(
+        "neutral_bottoms",
+        "medium",
+        null,
+        "No neutral bottoms to pair with your tops",
+        item,
+        countUnlocked(groups, "bottom", item)
+      )
+    );
+  }
+
+  // 5. Seasons with too few weather-appropriate outfits
+  for (const season of Object.keys(SEASON_TEMPERATURES) as Array<keyof typeof SEASON_TEMPERATURES>) {
+    const appropriate = filterByWeather(items, seasonWeather(season)).filter((item) => item.weather_appropriate);
+    const seasonGroups = groupCoreSlots(appropriate as WardrobeItem[]);
+    const seasonCombos = countCombinations(seasonGroups);
+    if (seasonCombos >= MIN_SEASON_COMBINATIONS) continue;
+
+    const overrides = SEASON_SUGGESTIONS[season] || {};
+    const best = bestAddition(seasonGroups, 4, (slot) => overrides[slot] ?? suggestForSlot(slot, 4));
+    if (!best || best.unlocks === 0) continue;
+
+    gaps.push(
+      gap(
+        "season",
+        seasonCombos === 0 ? "high" : "low",
+        season,
+        seasonCombos === 0
+          ? `No complete ${season} outfits`
+          : `Only ${seasonCombos} ${season} outfit${seasonCombos === 1 ? "" : "s"}`,
+        best.item,
+        best.unlocks
+      )
+    );
+  }
+
+  gaps.sort((a, b) => SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity] || b.unlocks - a.unlocks);
+
+  return {
+    item_count: items.length,
+    combinations,
+    gaps: gaps.slice(0, MAX_GAPS),
+  };
+}
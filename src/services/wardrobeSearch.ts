@@ -0,0 +1,428 @@
+/**
+ * Wardrobe Search
+ * Free-text search ("navy wool things for winter", "anything I haven't worn in
+ * 3 months") is turned into structured filters by an LLM, falling back to
+ * keyword matching, and ranked by FashionSigLIP similarity to the visual part
+ * of the query. Clients can also pass the filters, sort and pagination directly.
+ */
+
+import { supabaseAdmin } from "./supabase.js";
+import {
+  callOpenRouterWithFallback,
+  generateTextEmbedding,
+  isOpenRouterAvailable,
+  parseJsonFromLLMResponse,
+  TAG_ENUMS,
+} from "./ai/index.js";
+import { COLOR_NAMES } from "./colorHarmony.js";
+import { categoryForLabel } from "./multiItemImport.js";
+import { loadRankedItems } from "./similarItems.js";
+
+export const SEARCH_SORTS = ["relevance", "created_at", "last_worn_at", "times_worn", "formality"] as const;
+export const DEFAULT_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 100;
+export const MAX_QUERY_LENGTH = 200;
+
+const MAX_FILTER_VALUES = 10;
+const MAX_OFFSET = 10000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const MATERIALS = [
+  "wool", "cotton", "linen", "silk", "denim", "leather", "suede", "cashmere", "polyester", "nylon",
+  "velvet", "corduroy", "fleece", "knit", "satin", "tweed", "chiffon", "jersey", "canvas", "mohair",
+];
+
+// Words that carry no meaning for visual matching
+const STOPWORDS = new Set([
+  "a", "an", "the", "my", "me", "i", "im", "i'm", "for", "in", "on", "to", "of", "and", "or", "with", "that", "this",
+  "some", "any", "anything", "something", "things", "thing", "stuff", "items", "item", "clothes", "clothing",
+  "pieces", "piece", "show", "find", "all", "what", "which", "have", "got", "own", "wear", "outfit", "outfits",
+]);
+
+const OCCASION_WORDS: Record<string, string> = {
+  office: "work",
+  gym: "athletic",
+  workout: "athletic",
+  running: "athletic",
+  wedding: "formal",
+  dinner: "date",
+  club: "party",
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10, twelve: 12,
+};
+
+const UNIT_DAYS: Record<string, number> = { day: 1, week: 7, month: 30, year: 365 };
+
+export type SearchSort = (typeof SEARCH_SORTS)[number];
+export type SortOrder = "asc" | "desc";
+
+export interface SearchFilters {
+  categories?: string[];
+  colors?: string[];
+  materials?: string[];
+  seasons?: string[];
+  occasions?: string[];
+  style_vibes?: string[];
+  formality_min?: number;
+  formality_max?: number;
+  not_worn_days?: number; // Not worn in this many days (never-worn items included)
+  times_worn_min?: number;
+  times_worn_max?: number;
+  favorite?: boolean;
+}
+
+export interface SearchOptions {
+  sort?: SearchSort;
+  order?: SortOrder;
+  limit: number;
+  offset: number;
+  similar_to?: string; // Rank by similarity to this item instead of a text query
+}
+
+export interface QueryInterpretation {
+  filters: SearchFilters;
+  sort?: SearchSort;
+  order?: SortOrder;
+  visual_query: string | null; // What the items look like, used for embedding similarity
+  source: "llm" | "keywords";
+}
+
+export interface SearchResults {
+  items: Array<{ item: Record<string, unknown>; similarity: number | null }>;
+  total: number;
+  ranked_by_similarity: boolean;
+}
+
+type ParseResult<T> = { value?: T; error?: string };
+
+function toList(value: unknown): string[] {
+  const raw = Array.isArray(value) ? value : typeof value === "string" ? value.split(",") : [];
+  return [
+    ...new Set(
+      raw
+        .filter((entry): entry is string => typeof entry === "string")
+        .map((entry) => entry.trim().toLowerCase())
+        .filter(Boolean)
+    ),
+  ];
+}
+
+function parseEnumList(value: unknown, allowed: readonly string[], name: string): ParseResult<string[]> {
+  const values = toList(value);
+  const invalid = values.filter((entry) => !allowed.includes(entry));
+  if (invalid.length > 0) {
+    return { value: values.filter((entry) => allowed.includes(entry)), error: `Invalid ${name}: ${invalid.join(", ")}` };
+  }
+  return { value: values };
+}
+
+/**
+ * Free-text values (colors, materials): letters, digits, spaces and hyphens only
+ */
+function parseTextList(value: unknown, name: string): ParseResult<string[]> {
+  const values = toList(value);
+  const valid = values.filter((entry) => entry.length <= 40 && /^[a-z0-9 -]+$/.test(entry));
+  if (valid.length < values.length) {
+    return { value: valid, error: `Invalid ${name}` };
+  }
+  return { value: valid };
+}
+
+function parseInteger(value: unknown, min: number, max: number, name: string): ParseResult<number> {
+  if (value === undefined || value === null || value === "") return {};
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < min || number > max) {
+    return { error: `${name} must be an integer between ${min} and ${max}` };
+  }
+  return { value: number };
+}
+
+/**
+ * Validate search filters from query parameters (comma-separated lists) or LLM output (arrays).
+ * Strict mode rejects invalid values; otherwise they are dropped.
+ */
+export function parseSearchFilters(
+  input: Record<string, unknown>,
+  strict = true
+): SearchFilters | { error: string } {
+  const filters: SearchFilters = {};
+  const errors: string[] = [];
+
+  const lists: Array<[keyof SearchFilters, ParseResult<string[]>]> = [
+    ["categories", parseEnumList(input.category ?? input.categories, TAG_ENUMS.category, "category")],
+    ["colors", parseTextList(input.colors, "colors")],
+    ["materials", parseTextList(input.materials, "materials")],
+    ["seasons", parseEnumList(input.seasons, TAG_ENUMS.seasons, "seasons")],
+    ["occasions", parseEnumList(input.occasions, TAG_ENUMS.occasions, "occasions")],
+    ["style_vibes", parseEnumList(input.style_vibes, TAG_ENUMS.style_vibes, "style_vibes")],
+  ];
+  for (const [key, result] of lists) {
+    if (result.error) errors.push(result.error);
+    if (result.value && result.value.length > 0) {
+      Object.assign(filters, { [key]: result.value.slice(0, MAX_FILTER_VALUES) });
+    }
+  }
+
+  const numbers: Array<[keyof SearchFilters, ParseResult<number>]> = [
+    ["formality_min", parseInteger(input.formality_min, 1, 10, "formality_min")],
+    ["formality_max", parseInteger(input.formality_max, 1, 10, "formality_max")],
+    ["not_worn_days", parseInteger(input.not_worn_days, 1, 3650, "not_worn_days")],
+    ["times_worn_min", parseInteger(input.times_worn_min, 0, 100000, "times_worn_min")],
+    ["times_worn_max", parseInteger(input.times_worn_max, 0, 100000, "times_worn_max")],
+  ];
+  for (const [key, result] of numbers) {
+    if (result.error) errors.push(result.error);
+    if (result.value !== undefined) Object.assign(filters, { [key]: result.value });
+  }
+
+  if (input.favorite === true || input.favorite === "true") filters.favorite = true;
+  else if (input.favorite === false || input.favorite === "false") filters.favorite = false;
+  else if (input.favorite !== undefined && input.favorite !== null) errors.push("favorite must be true or false");
+
+  if (strict && errors.length > 0) {
+    return { error: errors[0] };
+  }
+  return filters;
+}
+
+/**
+ * Validate ?sort=&order=&limit=&offset=&similar_to= query parameters
+ */
+export function parseSearchOptions(query: Record<string, string | undefined>): SearchOptions | { error: string } {
+  const options: SearchOptions = { limit: DEFAULT_SEARCH_LIMIT, offset: 0 };
+
+  if (query.sort !== undefined) {
+    if (!(SEARCH_SORTS as readonly string[]).includes(query.sort)) {
+      return { error: `sort must be one of: ${SEARCH_SORTS.join(", ")}` };
+    }
+    options.sort = query.sort as SearchSort;
+  }
+  if (query.order !== undefined) {
+    if (query.order !== "asc" && query.order !== "desc") {
+      return { error: "order must be asc or desc" };
+    }
+    options.order = query.order;
+  }
+
+  const limit = parseInteger(query.limit, 1, MAX_SEARCH_LIMIT, "limit");
+  if (limit.error) return { error: limit.error };
+  if (limit.value !== undefined) options.limit = limit.value;
+
+  const offset = parseInteger(query.offset, 0, MAX_OFFSET, "offset");
+  if (offset.error) return { error: offset.error };
+  if (offset.value !== undefined) options.offset = offset.value;
+
+  if (query.similar_to) options.similar_to = query.similar_to;
+
+  return options;
+}
+
+/**
+ * Keyword fallback for free-text queries (no LLM available or consent not given)
+ */
+export function interpretQueryWithKeywords(text: string): QueryInterpretation {
+  let remaining = ` ${text.toLowerCase().replace(/[^a-z0-9' -]/g, " ")} `;
+  const filters: SearchFilters = {};
+  const interpretation: QueryInterpretation = { filters, visual_query: null, source: "keywords" };
+
+  // Wear history: "haven't worn in 3 months", "not worn for a year", "never worn"
+  const notWorn = remaining.match(
+    /\b(?:haven'?t|have not|not|never|hasn'?t|didn'?t)\s+(?:been\s+)?(?:worn|wear)\s+(?:it\s+|them\s+)?(?:in|for|since)\s+(?:the\s+)?(?:last\s+|past\s+)?(\d+|an?|one|two|three|four|five|six|seven|eight|nine|ten|twelve)\s+(day|week|month|year)s?\b/
+  );
+  if (notWorn) {
+    const count = NUMBER_WORDS[notWorn[1]] ?? Number(notWorn[1]);
+    filters.not_worn_days = Math.min(3650, count * UNIT_DAYS[notWorn[2]]);
+    remaining = remaining.replace(notWorn[0], " ");
+  } else if (/\b(never (?:been )?worn|unworn|never wore)\b/.test(remaining)) {
+    filters.times_worn_max = 0;
+    remaining = remaining.replace(/\b(never (?:been )?worn|unworn|never wore)\b/, " ");
+  }
+
+  if (/\b(most worn|wear the most|wear most)\b/.test(remaining)) {
+    interpretation.sort = "times_worn";
+    interpretation.order = "desc";
+    remaining = remaining.replace(/\b(most worn|wear the most|wear most)\b/, " ");
+  } else if (/\b(least worn|rarely worn|barely worn|wear the least)\b/.test(remaining)) {
+    interpretation.sort = "times_worn";
+    interpretation.order = "asc";
+    remaining = remaining.replace(/\b(least worn|rarely worn|barely worn|wear the least)\b/, " ");
+  }
+
+  if (/\bfavou?rites?\b/.test(remaining)) {
+    filters.favorite = true;
+    remaining = remaining.replace(/\bfavou?rites?\b/, " ");
+  }
+  if (/\b(dressy|smart)\b/.test(remaining)) {
+    filters.formality_min = 7;
+  }
+
+  const add = (key: "categories" | "colors" | "materials" | "seasons" | "occasions" | "style_vibes", value: string) => {
+    const values = filters[key] ?? [];
+    if (!values.includes(value)) filters[key] = [...values, value];
+  };
+
+  // Multi-word colors first so "navy blue" isn't also read as "navy" + "blue"
+  let colorText = remaining;
+  for (const color of [...COLOR_NAMES].sort((a, b) => b.length - a.length)) {
+    const pattern = new RegExp(`\\b${color}\\b`);
+    if (pattern.test(colorText)) {
+      add("colors", color);
+      colorText = colorText.replace(pattern, " ");
+    }
+  }
+  for (const material of MATERIALS) {
+    if (new RegExp(`\\b${material}\\b`).test(remaining)) add("materials", material);
+  }
+
+  for (const word of remaining.split(/\s+/).filter(Boolean)) {
+    const season = word === "autumn" ? "fall" : word;
+    if ((TAG_ENUMS.seasons as readonly string[]).includes(season)) add("seasons", season);
+
+    const occasion = OCCASION_WORDS[word] ?? OCCASION_WORDS[word.replace(/s$/, "")] ?? word;
+    if ((TAG_ENUMS.occasions as readonly string[]).includes(occasion)) add("occasions", occasion);
+
+    if ((TAG_ENUMS.style_vibes as readonly string[]).includes(word)) add("style_vibes", word);
+
+    const category =
+      (TAG_ENUMS.category as readonly string[]).includes(word)
+        ? word
+        : categoryForLabel(word) ?? categoryForLabel(word.replace(/e?s$/, ""));
+    if (category) add("categories", category);
+  }
+
+  // Whatever describes the look is worth an embedding; wear-history-only queries aren't
+  const descriptive = remaining
+    .split(/\s+/)
+    .filter((word) => word && !STOPWORDS.has(word) && !/^\d+$/.test(word));
+  if (descriptive.length > 0) {
+    interpretation.visual_query = remaining.replace(/\s+/g, " ").trim();
+  }
+
+  return interpretation;
+}
+
+function buildInterpretationPrompt(text: string): string {
+  return `Turn this wardrobe search into filters over the user's clothing items.
+
+Search: "${text}"
+
+Return ONLY valid JSON with no markdown, including only the keys the search asks for:
+{
+  "categories": [${TAG_ENUMS.category.map((value) => `"${value}"`).join(", ")}],
+  "colors": ["plain color names, e.g. navy, olive, cream"],
+  "materials": ["e.g. wool, linen, denim, leather"],
+  "seasons": [${TAG_ENUMS.seasons.map((value) => `"${value}"`).join(", ")}],
+  "occasions": [${TAG_ENUMS.occasions.map((value) => `"${value}"`).join(", ")}],
+  "style_vibes": [${TAG_ENUMS.style_vibes.map((value) => `"${value}"`).join(", ")}],
+  "formality_min": 1-10,
+  "formality_max": 1-10,
+  "not_worn_days": integer,
+  "times_worn_min": integer,
+  "times_worn_max": integer,
+  "favorite": true,
+  "sort": "relevance|created_at|last_worn_at|times_worn|formality",
+  "order": "asc|desc",
+  "visual_query": "string or null"
+}
+
+Rules:
+- "haven't worn in 3 months" means not_worn_days 90; "never worn" means times_worn_max 0
+- "most worn" means sort times_worn, order desc; "newest" means sort created_at, order desc
+- visual_query is a short description of how the items look (color, material, garment type) used for visual matching, e.g. "navy wool knitwear". Use null when the search is only about wear history or favorites
+- Don't invent filters the search doesn't mention`;
+}
+
+/**
+ * Turn a free-text query into filters with an LLM, falling back to keywords
+ */
+export async function interpretQuery(text: string, useLLM: boolean): Promise<QueryInterpretation> {
+  if (!useLLM || !isOpenRouterAvailable()) {
+    return interpretQueryWithKeywords(text);
+  }
+
+  try {
+    const response = await callOpenRouterWithFallback(
+      [{ role: "user", content: buildInterpretationPrompt(text) }],
+      { max_tokens: 400, temperature: 0 }
+    );
+    const parsed = parseJsonFromLLMResponse<Record<string, unknown>>(response);
+
+    // The model's output goes through the same validation as client params (invalid values dropped)
+    const filters = parseSearchFilters(parsed, false) as SearchFilters;
+    const interpretation: QueryInterpretation = {
+      filters,
+      visual_query:
+        typeof parsed.visual_query === "string" && parsed.visual_query.trim()
+          ? parsed.visual_query.trim().slice(0, MAX_QUERY_LENGTH)
+          : null,
+      source: "llm",
+    };
+    if ((SEARCH_SORTS as readonly unknown[]).includes(parsed.sort)) {
+      interpretation.sort = parsed.sort as SearchSort;
+    }
+    if (parsed.order === "asc" || parsed.order === "desc") {
+      interpretation.order = parsed.order;
+    }
+    return interpretation;
+  } catch (err) {
+    console.warn("[Search] LLM query interpretation failed, using keywords:", err);
+    return interpretQueryWithKeywords(text);
+  }
+}
+
+/**
+ * Run a search. Filters narrow the results; a visual query (or similar_to item)
+ * ranks them by embedding similarity when sorting by relevance.
+ */
+export async function searchWardrobe(
+  userId: string,
+  filters: SearchFilters,
+  options: SearchOptions,
+  visualQuery: string | null = null
+): Promise<SearchResults> {
+  let embedding: number[] | null = null;
+  if (visualQuery && !options.similar_to) {
+    try {
+      embedding = await generateTextEmbedding(visualQuery);
+    } catch (err) {
+      console.warn("[Search] Text embedding failed, searching by filters only:", err);
+    }
+  }
+
+  const { data, error } = await supabaseAdmin.rpc("search_wardrobe_items", {
+    p_user_id: userId,
+    // pgvector parses the JSON array text form
+    p_embedding: embedding ? JSON.stringify(embedding) : null,
+    p_similar_to: options.similar_to ?? null,
+    p_categories: filters.categories ?? null,
+    p_colors: filters.colors ?? null,
+    p_materials: filters.materials ?? null,
+    p_seasons: filters.seasons ?? null,
+    p_occasions: filters.occasions ?? null,
+    p_style_vibes: filters.style_vibes ?? null,
+    p_formality_min: filters.formality_min ?? null,
+    p_formality_max: filters.formality_max ?? null,
+    p_not_worn_since:
+      filters.not_worn_days !== undefined ? new Date(Date.now() - filters.not_worn_days * DAY_MS).toISOString() : null,
+    p_times_worn_min: filters.times_worn_min ?? null,
+    p_times_worn_max: filters.times_worn_max ?? null,
+    p_favorite: filters.favorite ?? null,
+    p_sort: options.sort ?? "relevance",
+    p_ascending: options.order === "asc",
+    p_limit: options.limit,
+    p_offset: options.offset,
+  });
+
+  if (error) {
+    throw new Error(`Wardrobe search failed: ${error.message}`);
+  }
+
+  const matches = (data || []) as Array<{ id: string; similarity: number | null; total_count: number }>;
+  return {
+    items: await loadRankedItems(userId, matches),
+    total: matches.length > 0 ? Number(matches[0].total_count) : 0,
+    ranked_by_similarity: (options.sort ?? "relevance") === "relevance" && (!!embedding || !!options.similar_to),
+  };
+}
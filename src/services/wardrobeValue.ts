@@ -0,0 +1,270 @@
+/**
+ * Wardrobe Value
+ * Purchase info validation plus cost-per-wear, total value and depreciation analytics.
+ */
+
+export const DEFAULT_CURRENCY = "USD";
+
+// Items owned for less than this aren't judged as "rarely worn"
+const MIN_OWNERSHIP_DAYS = 30;
+const MAX_RARELY_WORN = 5;
+const MAX_RETAILER_LENGTH = 100;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Annual declining-balance depreciation by category (resale value drops fastest for basics)
+const DEPRECIATION_RATES: Record<string, number> = {
+  tops: 0.35,
+  bottoms: 0.3,
+  dresses: 0.3,
+  outerwear: 0.2,
+  shoes: 0.3,
+  accessories: 0.15,
+  bags: 0.15,
+  jewelry: 0.1,
+};
+const DEFAULT_DEPRECIATION_RATE = 0.3;
+
+export interface PurchaseInfo {
+  purchase_price?: number | null;
+  currency?: string | null;
+  purchase_date?: string | null;
+  retailer?: string | null;
+}
+
+export interface ValuedItemRow {
+  id: string;
+  item_name?: string | null;
+  category?: string | null;
+  processed_image_url?: string | null;
+  times_worn?: number | null;
+  purchase_price?: number | string | null;
+  currency?: string | null;
+  purchase_date?: string | null;
+  created_at?: string | null;
+}
+
+export interface ItemValue {
+  id: string;
+  name: string;
+  category: string | null;
+  image_url: string | null;
+  purchase_price: number;
+  times_worn: number;
+  cost_per_wear: number;
+  current_value: number;
+  owned_days: number;
+}
+
+export interface CategoryValue {
+  category: string;
+  item_count: number;
+  total_value: number;
+  current_value: number;
+  avg_cost_per_wear: number;
+}
+
+export interface WardrobeValueSummary {
+  currency: string;
+  priced_items: number;
+  unpriced_items: number;
+  other_currency_items: Record<string, number>; // Priced in a different currency, left out of totals
+  total_value: number;
+  current_value: number;
+  depreciation: number;
+  total_wears: number;
+  avg_cost_per_wear: number | null;
+  by_category: CategoryValue[];
+  rarely_worn_expensive: ItemValue[];
+  best_value: ItemValue[];
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Validate and normalize purchase fields from a request body.
+ * Only fields present in the body are returned; null clears a field.
+ */
+export function parsePurchaseInfo(
+  body: Record<string, unknown>
+): { info: PurchaseInfo; error?: undefined } | { info?: undefined; error: string } {
+  const info: PurchaseInfo = {};
+
+  if (body.purchase_price !== undefined) {
+    if (body.purchase_price === null) {
+      info.purchase_price = null;
+    } else {
+      const price = Number(body.purchase_price);
+      if (typeof body.purchase_price === "boolean" || !Number.isFinite(price) || price < 0 || price >= 1e8) {
+        return { error: "purchase_price must be a non-negative number" };
+      }
+      info.purchase_price = round2(price);
+    }
+  }
+
+  if (body.currency !== undefined) {
+    if (body.currency === null) {
+      info.currency = null;
+    } else if (typeof body.currency !== "string" || !/^[A-Za-z]{3}$/.test(body.currency)) {
+      return { error: "currency must be a 3-letter ISO 4217 code" };
+    } else {
+      info.currency = body.currency.toUpperCase();
+    }
+  }
+
+  if (body.purchase_date !== undefined) {
+    if (body.purchase_date === null) {
+      info.purchase_date = null;
+    } else if (
+      typeof body.purchase_date !== "string" ||
+      !/^\d{4}-\d{2}-\d{2}$/.test(body.purchase_date) ||
+      isNaN(new Date(`${body.purchase_date}T00:00:00Z`).getTime())
+    ) {
+      return { error: "purchase_date must be YYYY-MM-DD" };
+    } else if (new Date(`${body.purchase_date}T00:00:00Z`).getTime() > Date.now() + DAY_MS) {
+      return { error: "purchase_date cannot be in the future" };
+    } else {
+      info.purchase_date = body.purchase_date;
+    }
+  }
+
+  if (body.retailer !== undefined) {
+    if (body.retailer === null) {
+      info.retailer = null;
+    } else if (typeof body.retailer !== "string" || body.retailer.trim().length > MAX_RETAILER_LENGTH) {
+      return { error: `retailer must be a string of at most ${MAX_RETAILER_LENGTH} characters` };
+    } else {
+      info.retailer = body.retailer.trim() || null;
+    }
+  }
+
+  // A price without a currency is assumed to be in the default currency
+  if (info.purchase_price != null && info.currency === undefined) {
+    info.currency = DEFAULT_CURRENCY;
+  }
+
+  return { info };
+}
+
+/**
+ * Estimated current value after declining-balance depreciation
+ */
+export function depreciatedValue(price: number, category: string | null | undefined, ownedDays: number): number {
+  const rate = DEPRECIATION_RATES[(category || "").toLowerCase()] ?? DEFAULT_DEPRECIATION_RATE;
+  const years = Math.max(0, ownedDays) / 365;
+  return round2(price * Math.pow(1 - rate, years));
+}
+
+/**
+ * Cost per wear - an unworn item costs its full price for the first wear
+ */
+export function costPerWear(price: number, timesWorn: number): number {
+  return round2(price / Math.max(1, timesWorn));
+}
+
+function valueItem(row: ValuedItemRow, price: number, now: Date): ItemValue {
+  const acquired = row.purchase_date || row.created_at;
+  const ownedDays = acquired ? Math.max(0, Math.floor((now.getTime() - new Date(acquired).getTime()) / DAY_MS)) : 0;
+  const timesWorn = row.times_worn || 0;
+
+  return {
+    id: row.id,
+    name: row.item_name || row.category || "Item",
+    category: row.category ?? null,
+    image_url: row.processed_image_url ?? null,
+    purchase_price: price,
+    times_worn: timesWorn,
+    cost_per_wear: costPerWear(price, timesWorn),
+    current_value: depreciatedValue(price, row.category, ownedDays),
+    owned_days: ownedDays,
+  };
+}
+
+/**
+ * Pick the currency most items are priced in
+ */
+function dominantCurrency(rows: ValuedItemRow[]): string {
+  const counts = new Map<string, number>();
+  for (const row of rows) {
+    const currency = row.currency || DEFAULT_CURRENCY;
+    counts.set(currency, (counts.get(currency) || 0) + 1);
+  }
+  let best = DEFAULT_CURRENCY;
+  let bestCount = 0;
+  for (const [currency, count] of counts) {
+    if (count > bestCount) {
+      best = currency;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * Summarize wardrobe value. Totals use the dominant currency; items priced in
+ * other currencies are counted but not converted.
+ */
+export function calculateWardrobeValue(rows: ValuedItemRow[], now: Date = new Date()): WardrobeValueSummary {
+  const priced = rows.filter((row) => row.purchase_price != null && Number.isFinite(Number(row.purchase_price)));
+  const currency = dominantCurrency(priced);
+
+  const otherCurrencyItems: Record<string, number> = {};
+  const valued: ItemValue[] = [];
+  for (const row of priced) {
+    const rowCurrency = row.currency || DEFAULT_CURRENCY;
+    if (rowCurrency !== currency) {
+      otherCurrencyItems[rowCurrency] = (otherCurrencyItems[rowCurrency] || 0) + 1;
+      continue;
+    }
+    valued.push(valueItem(row, Number(row.purchase_price), now));
+  }
+
+  const totalValue = valued.reduce((sum, item) => sum + item.purchase_price, 0);
+  const currentValue = valued.reduce((sum, item) => sum + item.current_value, 0);
+  const totalWears = valued.reduce((sum, item) => sum + item.times_worn, 0);
+
+  // Per-category totals
+  const categories = new Map<string, ItemValue[]>();
+  for (const item of valued) {
+    const key = item.category || "uncategorized";
+    categories.set(key, [...(categories.get(key) || []), item]);
+  }
+  const byCategory: CategoryValue[] = [...categories.entries()]
+    .map(([category, items]) => ({
+      category,
+      item_count: items.length,
+      total_value: round2(items.reduce((sum, item) => sum + item.purchase_price, 0)),
+      current_value: round2(items.reduce((sum, item) => sum + item.current_value, 0)),
+      avg_cost_per_wear: round2(items.reduce((sum, item) => sum + item.cost_per_wear, 0) / items.length),
+    }))
+    .sort((a, b) => b.total_value - a.total_value);
+
+  // Rarely worn but expensive: highest cost per wear among items old enough to judge, priced at or above the median
+  const prices = valued.map((item) => item.purchase_price).sort((a, b) => a - b);
+  const medianPrice = prices.length > 0 ? prices[Math.floor(prices.length / 2)] : 0;
+  const rarelyWorn = valued
+    .filter((item) => item.owned_days >= MIN_OWNERSHIP_DAYS && item.purchase_price > 0 && item.purchase_price >= medianPrice)
+    .sort((a, b) => b.cost_per_wear - a.cost_per_wear || a.times_worn - b.times_worn)
+    .slice(0, MAX_RARELY_WORN);
+
+  const bestValue = valued
+    .filter((item) => item.times_worn > 0 && item.purchase_price > 0)
+    .sort((a, b) => a.cost_per_wear - b.cost_per_wear)
+    .slice(0, MAX_RARELY_WORN);
+
+  return {
+    currency,
+    priced_items: valued.length,
+    unpriced_items: rows.length - priced.length,
+    other_currency_items: otherCurrencyItems,
+    total_value: round2(totalValue),
+    current_value: round2(currentValue),
+    depreciation: round2(totalValue - currentValue),
+    total_wears: totalWears,
+    avg_cost_per_wear: totalWears > 0 ? round2(totalValue / totalWears) : null,
+    by_category: byCategory,
+    rarely_worn_expensive: rarelyWorn,
+    best_value: bestValue,
+  };
+}
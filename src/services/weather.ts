@@ -1,10 +1,36 @@
 /**
- * Weather Service - OpenWeatherMap Integration
- * Fetches current weather to influence outfit recommendations
+ * Weather Service
+ * Current weather and forecasts (with the day's temperature range) to influence
+ * outfit recommendations. Lookups go through a pluggable, cached WeatherProvider
+ * (WEATHER_PROVIDER: openweathermap | open-meteo | fixture).
  */
 
-const OPENWEATHER_API_KEY = process.env.OPENWEATHER_API_KEY;
-const OPENWEATHER_BASE_URL = "https://api.openweathermap.org/data/2.5/weather";
+import {
+  createCachedProvider,
+  getConfiguredWeatherProvider,
+  type CachedWeatherProvider,
+  type ForecastSlot,
+  type WeatherCacheStats,
+  type WeatherCondition,
+  type WeatherObservation,
+  type WeatherProvider,
+  type WeatherQuery,
+} from "./weatherProviders/index.js";
+
+export type { WeatherCondition, WeatherProvider, WeatherCacheStats };
+
+// Local hours considered "the day" when summarizing a forecast
+const DAYTIME_START_HOUR = 8;
+const DAYTIME_END_HOUR = 20;
+
+// Hours ahead covered when attaching a range to current conditions (the rest of the wearing day)
+const CURRENT_RANGE_HOURS = 12;
+
+// Precipitation probability at which rain is treated as likely
+const RAIN_LIKELY_PROBABILITY = 0.5;
+
+// Temperature swing (C) at which the day calls for layers that can be shed
+export const LARGE_TEMP_SWING = 8;
 
 export interface WeatherData {
   temperature: number; // Celsius
@@ -16,24 +42,20 @@ export interface WeatherData {
   is_rainy: boolean;
   is_snowy: boolean;
   season_suggestion: SeasonSuggestion;
+  // Day range (from the forecast; absent when only a current snapshot is available)
+  temp_min?: number;
+  temp_max?: number;
+  temp_swing?: number; // temp_max - temp_min across the hourly forecast
+  precipitation_probability?: number; // 0-1, highest chance across the day
+  is_default?: boolean; // Placeholder from getDefaultWeather, not a real lookup
 }
 
-export type WeatherCondition =
-  | "clear"
-  | "clouds"
-  | "rain"
-  | "drizzle"
-  | "thunderstorm"
-  | "snow"
-  | "mist"
-  | "fog";
-
 export type SeasonSuggestion = "summer" | "fall" | "winter" | "spring" | "all";
 
 /**
  * Map temperature to clothing season suggestion
  */
-function getSeasonSuggestion(tempC: number, condition: WeatherCondition): SeasonSuggestion {
+export function getSeasonSuggestion(tempC: number, condition: WeatherCondition): SeasonSuggestion {
   // Adjust for rain/snow
   if (condition === "snow") return "winter";
   if (condition === "rain" || condition === "drizzle") {
@@ -48,20 +70,46 @@ function getSeasonSuggestion(tempC: number, condition: WeatherCondition): Season
   return "summer";
 }
 
+let provider: CachedWeatherProvider = createCachedProvider(getConfiguredWeatherProvider());
+
 /**
- * Map OpenWeatherMap condition to our simplified condition
+ * Swap the weather provider (e.g. the fixture provider in tests). Resets the cache.
  */
-function mapCondition(owmMain: string): WeatherCondition {
-  const main = owmMain.toLowerCase();
-  if (main === "clear") return "clear";
-  if (main === "clouds") return "clouds";
-  if (main === "rain") return "rain";
-  if (main === "drizzle") return "drizzle";
-  if (main === "thunderstorm") return "thunderstorm";
-  if (main === "snow") return "snow";
-  if (main === "mist" || main === "haze" || main === "smoke") return "mist";
-  if (main === "fog") return "fog";
-  return "clouds"; // default
+export function setWeatherProvider(next: WeatherProvider, ttlMs?: number): void {
+  provider = createCachedProvider(next, ttlMs);
+}
+
+/**
+ * Cache hit/miss counts for the active provider
+ */
+export function getWeatherCacheStats(): WeatherCacheStats {
+  return provider.getStats();
+}
+
+/**
+ * Build WeatherData from a provider observation
+ */
+function toWeatherData(observation: WeatherObservation): WeatherData {
+  const { temperature, condition } = observation;
+  return {
+    temperature,
+    feels_like: observation.feels_like,
+    humidity: observation.humidity,
+    condition,
+    description: observation.description,
+    wind_speed: observation.wind_speed,
+    is_rainy: ["rain", "drizzle", "thunderstorm"].includes(condition),
+    is_snowy: condition === "snow",
+    season_suggestion: getSeasonSuggestion(temperature, condition),
+  };
+}
+
+/**
+ * Fetch current weather for a query
+ */
+async function fetchCurrent(query: WeatherQuery): Promise<WeatherData | null> {
+  const observation = await provider.getCurrent(query);
+  return observation ? toWeatherData(observation) : null;
 }
 
 /**
@@ -71,82 +119,165 @@ export async function getWeatherByCoords(
   lat: number,
   lon: number
 ): Promise<WeatherData | null> {
-  if (!OPENWEATHER_API_KEY) {
-    console.warn("[Weather] No API key configured, skipping weather fetch");
-    return null;
-  }
+  return fetchCurrent({ lat, lon });
+}
+
+/**
+ * Fetch weather data by city name
+ */
+export async function getWeatherByCity(city: string): Promise<WeatherData | null> {
+  return fetchCurrent({ city });
+}
 
-  try {
-    const url = `${OPENWEATHER_BASE_URL}?lat=${lat}&lon=${lon}&appid=${OPENWEATHER_API_KEY}&units=metric`;
-    const response = await fetch(url);
+/**
+ * Temperature range and precipitation chance across a set of forecast slots
+ */
+function getForecastRange(
+  slots: ForecastSlot[]
+): Pick<WeatherData, "temp_min" | "temp_max" | "temp_swing" | "precipitation_probability"> {
+  const temps = slots.map((slot) => slot.temperature);
+  const tempMin = Math.min(...temps);
+  const tempMax = Math.max(...temps);
 
-    if (!response.ok) {
-      console.error(`[Weather] API error: ${response.status}`);
-      return null;
-    }
+  return {
+    temp_min: Math.round(tempMin * 10) / 10,
+    temp_max: Math.round(tempMax * 10) / 10,
+    temp_swing: Math.round((tempMax - tempMin) * 10) / 10,
+    precipitation_probability: Math.max(0, ...slots.map((slot) => slot.pop ?? 0)),
+  };
+}
 
-    const data = await response.json();
+/**
+ * Summarize forecast slots into a single WeatherData for one local date
+ * @param slots - Provider forecast slots
+ * @param date - "YYYY-MM-DD" in the location's local time
+ * @param utcOffsetSeconds - Location offset from UTC
+ */
+function summarizeForecastDay(
+  slots: ForecastSlot[],
+  date: string,
+  utcOffsetSeconds: number
+): WeatherData | null {
+  const localHour = (slot: ForecastSlot) => new Date((slot.dt + utcOffsetSeconds) * 1000).getUTCHours();
+  const localDate = (slot: ForecastSlot) =>
+    new Date((slot.dt + utcOffsetSeconds) * 1000).toISOString().split("T")[0];
 
-    const condition = mapCondition(data.weather?.[0]?.main || "clouds");
-    const temperature = data.main?.temp ?? 20;
+  const daySlots = slots.filter((slot) => localDate(slot) === date);
+  if (daySlots.length === 0) return null;
 
-    return {
-      temperature,
-      feels_like: data.main?.feels_like ?? temperature,
-      humidity: data.main?.humidity ?? 50,
-      condition,
-      description: data.weather?.[0]?.description || "unknown",
-      wind_speed: data.wind?.speed ?? 0,
-      is_rainy: ["rain", "drizzle", "thunderstorm"].includes(condition),
-      is_snowy: condition === "snow",
-      season_suggestion: getSeasonSuggestion(temperature, condition),
-    };
-  } catch (err) {
-    const msg = err instanceof Error ? err.message : "Unknown error";
-    console.error(`[Weather] Failed to fetch weather: ${msg}`);
-    return null;
+  // Prefer daytime slots - that's when the outfit is worn
+  const daytime = daySlots.filter((slot) => {
+    const hour = localHour(slot);
+    return hour >= DAYTIME_START_HOUR && hour <= DAYTIME_END_HOUR;
+  });
+  const worn = daytime.length > 0 ? daytime : daySlots;
+
+  const avg = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+  const temperature = avg(worn.map((slot) => slot.temperature));
+
+  // Most frequent condition across the day
+  const conditionCounts = new Map<WeatherCondition, number>();
+  for (const slot of worn) {
+    conditionCounts.set(slot.condition, (conditionCounts.get(slot.condition) ?? 0) + 1);
   }
+  const condition = [...conditionCounts.entries()].sort((a, b) => b[1] - a[1])[0][0];
+  const representative = worn.find((slot) => slot.condition === condition);
+
+  return {
+    ...toWeatherData({
+      temperature: Math.round(temperature * 10) / 10,
+      feels_like: Math.round(avg(worn.map((slot) => slot.feels_like)) * 10) / 10,
+      humidity: Math.round(avg(worn.map((slot) => slot.humidity))),
+      condition,
+      description: representative?.description || "unknown",
+      wind_speed: Math.round(avg(worn.map((slot) => slot.wind_speed)) * 10) / 10,
+    }),
+    ...getForecastRange(worn),
+  };
 }
 
 /**
- * Fetch weather data by city name
+ * Fetch the forecast and summarize it for a target date
  */
-export async function getWeatherByCity(city: string): Promise<WeatherData | null> {
-  if (!OPENWEATHER_API_KEY) {
-    console.warn("[Weather] No API key configured, skipping weather fetch");
-    return null;
+async function fetchForecastForDate(query: WeatherQuery, date: string): Promise<WeatherData | null> {
+  const forecast = await provider.getForecast(query);
+  if (!forecast) return null;
+
+  const summary = summarizeForecastDay(forecast.slots, date, forecast.utcOffsetSeconds);
+  if (!summary) {
+    console.log(`[Weather] No forecast available for ${date} (outside forecast window)`);
   }
+  return summary;
+}
+
+/**
+ * Fetch forecast weather for a date ("YYYY-MM-DD") by coordinates
+ * Returns null when the date is outside the provider's forecast window
+ */
+export async function getForecastByCoords(
+  lat: number,
+  lon: number,
+  date: string
+): Promise<WeatherData | null> {
+  return fetchForecastForDate({ lat, lon }, date);
+}
+
+/**
+ * Fetch forecast weather for a date ("YYYY-MM-DD") by city name
+ * Returns null when the date is outside the provider's forecast window
+ */
+export async function getForecastByCity(city: string, date: string): Promise<WeatherData | null> {
+  return fetchForecastForDate({ city }, date);
+}
 
-  try {
-    const url = `${OPENWEATHER_BASE_URL}?q=${encodeURIComponent(city)}&appid=${OPENWEATHER_API_KEY}&units=metric`;
-    const response = await fetch(url);
+/**
+ * Fetch current weather by coordinates with the range for the next few hours attached.
+ * Falls back to the bare snapshot when the forecast is unavailable.
+ */
+export async function getWeatherWithRangeByCoords(
+  lat: number,
+  lon: number
+): Promise<WeatherData | null> {
+  const [current, forecast] = await Promise.all([
+    getWeatherByCoords(lat, lon),
+    provider.getForecast({ lat, lon }),
+  ]);
+  if (!current || !forecast) return current;
 
-    if (!response.ok) {
-      console.error(`[Weather] API error: ${response.status}`);
-      return null;
-    }
+  const now = Date.now() / 1000;
+  const cutoff = now + CURRENT_RANGE_HOURS * 60 * 60;
+  const upcoming = forecast.slots.filter((slot) => slot.dt >= now - 3 * 60 * 60 && slot.dt <= cutoff);
+  if (upcoming.length === 0) return current;
 
-    const data = await response.json();
+  const range = getForecastRange(upcoming);
+  const tempMin = Math.min(range.temp_min ?? current.temperature, current.temperature);
+  const tempMax = Math.max(range.temp_max ?? current.temperature, current.temperature);
+
+  return {
+    ...current,
+    temp_min: tempMin,
+    temp_max: tempMax,
+    temp_swing: Math.round((tempMax - tempMin) * 10) / 10,
+    precipitation_probability: range.precipitation_probability,
+  };
+}
 
-    const condition = mapCondition(data.weather?.[0]?.main || "clouds");
-    const temperature = data.main?.temp ?? 20;
+/**
+ * Whether rain is falling or likely at some point in the day
+ */
+export function isRainLikely(weather: WeatherData): boolean {
+  return weather.is_rainy || (weather.precipitation_probability ?? 0) >= RAIN_LIKELY_PROBABILITY;
+}
 
-    return {
-      temperature,
-      feels_like: data.main?.feels_like ?? temperature,
-      humidity: data.main?.humidity ?? 50,
-      condition,
-      description: data.weather?.[0]?.description || "unknown",
-      wind_speed: data.wind?.speed ?? 0,
-      is_rainy: ["rain", "drizzle", "thunderstorm"].includes(condition),
-      is_snowy: condition === "snow",
-      season_suggestion: getSeasonSuggestion(temperature, condition),
-    };
-  } catch (err) {
-    const msg = err instanceof Error ? err.message : "Unknown error";
-    console.error(`[Weather] Failed to fetch weather: ${msg}`);
-    return null;
-  }
+/**
+ * Coldest temperature to dress for (day minimum or feels-like, whichever is lower)
+ */
+export function getColdestTemperature(weather: WeatherData): number {
+  return Math.min(
+    weather.temperature,
+    weather.feels_like ?? weather.temperature,
+    weather.temp_min ?? weather.temperature
+  );
 }
 
 /**
@@ -163,5 +294,6 @@ export function getDefaultWeather(): WeatherData {
     is_rainy: false,
     is_snowy: false,
     season_suggestion: "all",
+    is_default: true,
   };
 }
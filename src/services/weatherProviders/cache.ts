@@ -0,0 +1,125 @@
+/**
+ * Weather cache
+ * Wraps a provider so identical lookups (same rounded lat/lon, same hour)
+ * share one upstream call until the TTL expires.
+ */
+
+import type { Forecast, WeatherObservation, WeatherProvider, WeatherQuery } from "./types.js";
+
+const DEFAULT_TTL_MINUTES = 30;
+const MAX_CACHE_ENTRIES = 1000;
+const COORD_PRECISION = 2; // ~1km - close enough to share weather
+
+export interface WeatherCacheStats {
+  provider: string;
+  hits: number;
+  misses: number;
+  hit_rate: number;
+  size: number;
+  ttl_seconds: number;
+}
+
+export interface CachedWeatherProvider extends WeatherProvider {
+  getStats(): WeatherCacheStats;
+  clear(): void;
+}
+
+interface CacheEntry<T> {
+  expiresAt: number;
+  value: Promise<T | null>;
+}
+
+/**
+ * Cache TTL from WEATHER_CACHE_TTL_MINUTES (0 disables caching)
+ */
+export function getConfiguredTtlMs(): number {
+  const raw = process.env.WEATHER_CACHE_TTL_MINUTES;
+  const minutes = raw ? Number(raw) : DEFAULT_TTL_MINUTES;
+  return (Number.isFinite(minutes) ? Math.max(0, minutes) : DEFAULT_TTL_MINUTES) * 60 * 1000;
+}
+
+/**
+ * Round coordinates so nearby lookups share a cache entry (cities are normalized)
+ */
+function normalizeQuery(query: WeatherQuery): WeatherQuery {
+  if ("city" in query) return { city: query.city.trim().toLowerCase() };
+  return {
+    lat: Number(query.lat.toFixed(COORD_PRECISION)),
+    lon: Number(query.lon.toFixed(COORD_PRECISION)),
+  };
+}
+
+function getCacheKey(kind: "current" | "forecast", query: WeatherQuery, now: number): string {
+  const hour = Math.floor(now / (60 * 60 * 1000));
+  const location = "city" in query ? `city:${query.city}` : `${query.lat},${query.lon}`;
+  return `${kind}:${location}:${hour}`;
+}
+
+export function createCachedProvider(
+  provider: WeatherProvider,
+  ttlMs: number = getConfiguredTtlMs()
+): CachedWeatherProvider {
+  const entries = new Map<string, CacheEntry<WeatherObservation | Forecast>>();
+  let hits = 0;
+  let misses = 0;
+
+  const prune = (now: number) => {
+    for (const [key, entry] of entries) {
+      if (entry.expiresAt <= now) entries.delete(key);
+    }
+    // Map keeps insertion order, so the first keys are the oldest
+    while (entries.size >= MAX_CACHE_ENTRIES) {
+      const oldest = entries.keys().next().value;
+      if (oldest === undefined) break;
+      entries.delete(oldest);
+    }
+  };
+
+  const cached = <T extends WeatherObservation | Forecast>(
+    kind: "current" | "forecast",
+    query: WeatherQuery,
+    fetcher: (q: WeatherQuery) => Promise<T | null>
+  ): Promise<T | null> => {
+    const normalized = normalizeQuery(query);
+    if (ttlMs <= 0) return fetcher(normalized);
+
+    const now = Date.now();
+    const key = getCacheKey(kind, normalized, now);
+    const existing = entries.get(key);
+    if (existing && existing.expiresAt > now) {
+      hits++;
+      return existing.value as Promise<T | null>;
+    }
+
+    misses++;
+    prune(now);
+
+    // Store the in-flight promise so concurrent lookups share one request
+    const value = fetcher(normalized).then((result) => {
+      // Don't keep failures around - the next caller should retry
+      if (result === null) entries.delete(key);
+      return result;
+    });
+    entries.set(key, { expiresAt: now + ttlMs, value });
+    return value;
+  };
+
+  return {
+    name: provider.name,
+    getCurrent: (query) => cached("current", query, (q) => provider.getCurrent(q)),
+    getForecast: (query) => cached("forecast", query, (q) => provider.getForecast(q)),
+    getStats: () => ({
+      provider: provider.name,
+      hits,
+      misses,
+      hit_rate: hits + misses > 0 ? Math.round((hits / (hits + misses)) * 1000) / 1000 : 0,
+      size: entries.size,
+      ttl_seconds: Math.round(ttlMs / 1000),
+    }),
+    clear: () => {
+      entries.clear();
+      hits = 0;
+      misses = 0;
+    },
+  };
+}
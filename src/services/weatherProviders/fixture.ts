@@ -0,0 +1,75 @@
+/**
+ * Fixture provider
+ * Deterministic, network-free weather for tests and local development.
+ * Same query and same day always produce the same observations.
+ */
+
+import type { ForecastSlot, WeatherObservation, WeatherProvider } from "./types.js";
+
+const FIXTURE_FORECAST_DAYS = 5;
+const FIXTURE_SLOT_HOURS = 3;
+const DAY_SECONDS = 24 * 60 * 60;
+
+export interface FixtureWeatherOptions {
+  base?: Partial<WeatherObservation>; // Conditions at the daily mean
+  swing?: number; // Peak-to-trough daily temperature change (C)
+  pop?: number; // Precipitation probability for every slot (0-1)
+  utcOffsetSeconds?: number;
+}
+
+const DEFAULT_OBSERVATION: WeatherObservation = {
+  temperature: 18,
+  feels_like: 18,
+  humidity: 55,
+  condition: "clouds",
+  description: "scattered clouds",
+  wind_speed: 3,
+};
+
+/**
+ * Temperature offset from the daily mean for a local hour (coldest ~5am, warmest ~5pm)
+ */
+function diurnalOffset(localHour: number, swing: number): number {
+  return (swing / 2) * Math.sin(((localHour - 11) / 24) * 2 * Math.PI);
+}
+
+export function createFixtureWeatherProvider(options: FixtureWeatherOptions = {}): WeatherProvider {
+  const base: WeatherObservation = { ...DEFAULT_OBSERVATION, ...options.base };
+  const swing = options.swing ?? 8;
+  const pop = options.pop ?? 0.1;
+  const utcOffsetSeconds = options.utcOffsetSeconds ?? 0;
+
+  const at = (dt: number): WeatherObservation => {
+    const localHour = new Date((dt + utcOffsetSeconds) * 1000).getUTCHours();
+    const offset = Math.round(diurnalOffset(localHour, swing) * 10) / 10;
+    return {
+      ...base,
+      temperature: base.temperature + offset,
+      feels_like: base.feels_like + offset,
+    };
+  };
+
+  return {
+    name: "fixture",
+
+    async getCurrent() {
+      return at(Math.floor(Date.now() / 1000));
+    },
+
+    async getForecast() {
+      // Slots start at local midnight today so a given day's forecast never shifts
+      const now = Math.floor(Date.now() / 1000);
+      const dayStart = Math.floor((now + utcOffsetSeconds) / DAY_SECONDS) * DAY_SECONDS - utcOffsetSeconds;
+      const slotCount = (FIXTURE_FORECAST_DAYS * 24) / FIXTURE_SLOT_HOURS;
+
+      const slots: ForecastSlot[] = Array.from({ length: slotCount }, (_, i) => {
+        const dt = dayStart + i * FIXTURE_SLOT_HOURS * 60 * 60;
+        return { ...at(dt), dt, pop };
+      });
+
+      return { slots, utcOffsetSeconds };
+    },
+  };
+}
+
+export const fixtureWeatherProvider = createFixtureWeatherProvider();
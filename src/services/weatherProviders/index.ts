@@ -0,0 +1,38 @@
+import { openWeatherMapProvider } from "./openWeatherMap.js";
+import { openMeteoProvider } from "./openMeteo.js";
+import { fixtureWeatherProvider } from "./fixture.js";
+import type { WeatherProvider } from "./types.js";
+
+export { openWeatherMapProvider } from "./openWeatherMap.js";
+export { openMeteoProvider } from "./openMeteo.js";
+export { createFixtureWeatherProvider, fixtureWeatherProvider } from "./fixture.js";
+export type { FixtureWeatherOptions } from "./fixture.js";
+export { createCachedProvider } from "./cache.js";
+export type { CachedWeatherProvider, WeatherCacheStats } from "./cache.js";
+export type {
+  Forecast,
+  ForecastSlot,
+  WeatherCondition,
+  WeatherObservation,
+  WeatherProvider,
+  WeatherQuery,
+} from "./types.js";
+
+const PROVIDERS: Record<string, WeatherProvider> = {
+  openweathermap: openWeatherMapProvider,
+  "open-meteo": openMeteoProvider,
+  fixture: fixtureWeatherProvider,
+};
+
+/**
+ * Get the provider selected by WEATHER_PROVIDER (defaults to OpenWeatherMap)
+ */
+export function getConfiguredWeatherProvider(): WeatherProvider {
+  const name = (process.env.WEATHER_PROVIDER || "openweathermap").toLowerCase();
+  const provider = PROVIDERS[name];
+  if (!provider) {
+    console.warn(`[Weather] Unknown WEATHER_PROVIDER "${name}", using openweathermap`);
+    return openWeatherMapProvider;
+  }
+  return provider;
+}
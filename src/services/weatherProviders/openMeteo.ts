@@ -0,0 +1,170 @@
+/**
+ * Open-Meteo provider
+ * Free, keyless current weather and hourly forecast. Cities are resolved
+ * through the Open-Meteo geocoding API.
+ */
+
+import type {
+  ForecastSlot,
+  WeatherCondition,
+  WeatherObservation,
+  WeatherProvider,
+  WeatherQuery,
+} from "./types.js";
+
+const OPEN_METEO_FORECAST_URL = "https://api.open-meteo.com/v1/forecast";
+const OPEN_METEO_GEOCODING_URL = "https://geocoding-api.open-meteo.com/v1/search";
+const FORECAST_DAYS = 6;
+
+const CURRENT_FIELDS = "temperature_2m,apparent_temperature,relative_humidity_2m,weather_code,wind_speed_10m";
+const HOURLY_FIELDS = `${CURRENT_FIELDS},precipitation_probability`;
+
+// WMO weather interpretation codes -> condition + description
+const WMO_CODES: Record<number, { condition: WeatherCondition; description: string }> = {
+  0: { condition: "clear", description: "clear sky" },
+  1: { condition: "clear", description: "mainly clear" },
+  2: { condition: "clouds", description: "partly cloudy" },
+  3: { condition: "clouds", description: "overcast" },
+  45: { condition: "fog", description: "fog" },
+  48: { condition: "fog", description: "depositing rime fog" },
+  51: { condition: "drizzle", description: "light drizzle" },
+  53: { condition: "drizzle", description: "moderate drizzle" },
+  55: { condition: "drizzle", description: "dense drizzle" },
+  56: { condition: "drizzle", description: "light freezing drizzle" },
+  57: { condition: "drizzle", description: "dense freezing drizzle" },
+  61: { condition: "rain", description: "slight rain" },
+  63: { condition: "rain", description: "moderate rain" },
+  65: { condition: "rain", description: "heavy rain" },
+  66: { condition: "rain", description: "light freezing rain" },
+  67: { condition: "rain", description: "heavy freezing rain" },
+  71: { condition: "snow", description: "slight snow fall" },
+  73: { condition: "snow", description: "moderate snow fall" },
+  75: { condition: "snow", description: "heavy snow fall" },
+  77: { condition: "snow", description: "snow grains" },
+  80: { condition: "rain", description: "slight rain showers" },
+  81: { condition: "rain", description: "moderate rain showers" },
+  82: { condition: "rain", description: "violent rain showers" },
+  85: { condition: "snow", description: "slight snow showers" },
+  86: { condition: "snow", description: "heavy snow showers" },
+  95: { condition: "thunderstorm", description: "thunderstorm" },
+  96: { condition: "thunderstorm", description: "thunderstorm with slight hail" },
+  99: { condition: "thunderstorm", description: "thunderstorm with heavy hail" },
+};
+
+interface OpenMeteoValues {
+  temperature_2m?: number;
+  apparent_temperature?: number;
+  relative_humidity_2m?: number;
+  weather_code?: number;
+  wind_speed_10m?: number;
+}
+
+interface OpenMeteoResponse {
+  utc_offset_seconds?: number;
+  current?: OpenMeteoValues;
+  hourly?: {
+    time?: number[];
+    temperature_2m?: number[];
+    apparent_temperature?: number[];
+    relative_humidity_2m?: number[];
+    weather_code?: number[];
+    wind_speed_10m?: number[];
+    precipitation_probability?: Array<number | null>;
+  };
+}
+
+// Geocoded cities don't move - keep them for the life of the process
+const geocodeCache = new Map<string, { lat: number; lon: number } | null>();
+
+function toObservation(values: OpenMeteoValues): WeatherObservation {
+  const temperature = values.temperature_2m ?? 20;
+  const code = WMO_CODES[values.weather_code ?? 3] ?? WMO_CODES[3];
+  return {
+    temperature,
+    feels_like: values.apparent_temperature ?? temperature,
+    humidity: values.relative_humidity_2m ?? 50,
+    condition: code.condition,
+    description: code.description,
+    wind_speed: values.wind_speed_10m ?? 0,
+  };
+}
+
+async function fetchJson<T>(url: string, label: string): Promise<T | null> {
+  try {
+    const response = await fetch(url);
+
+    if (!response.ok) {
+      console.error(`[Weather] Open-Meteo ${label} API error: ${response.status}`);
+      return null;
+    }
+
+    return (await response.json()) as T;
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : "Unknown error";
+    console.error(`[Weather] Failed to fetch Open-Meteo ${label}: ${msg}`);
+    return null;
+  }
+}
+
+/**
+ * Resolve a query to coordinates (geocoding city names)
+ */
+async function resolveCoords(query: WeatherQuery): Promise<{ lat: number; lon: number } | null> {
+  if (!("city" in query)) return query;
+
+  const key = query.city.trim().toLowerCase();
+  if (geocodeCache.has(key)) return geocodeCache.get(key) ?? null;
+
+  const data = await fetchJson<{ results?: Array<{ latitude: number; longitude: number }> }>(
+    `${OPEN_METEO_GEOCODING_URL}?name=${encodeURIComponent(query.city)}&count=1`,
+    "geocoding"
+  );
+  const match = data?.results?.[0];
+  const coords = match ? { lat: match.latitude, lon: match.longitude } : null;
+
+  // Don't remember failed lookups - they may be transient
+  if (coords) geocodeCache.set(key, coords);
+  else console.log(`[Weather] Open-Meteo could not geocode "${query.city}"`);
+  return coords;
+}
+
+export const openMeteoProvider: WeatherProvider = {
+  name: "open-meteo",
+
+  async getCurrent(query) {
+    const coords = await resolveCoords(query);
+    if (!coords) return null;
+
+    const url =
+      `${OPEN_METEO_FORECAST_URL}?latitude=${coords.lat}&longitude=${coords.lon}` +
+      `&current=${CURRENT_FIELDS}&wind_speed_unit=ms`;
+    const data = await fetchJson<OpenMeteoResponse>(url, "weather");
+    return data?.current ? toObservation(data.current) : null;
+  },
+
+  async getForecast(query) {
+    const coords = await resolveCoords(query);
+    if (!coords) return null;
+
+    const url =
+      `${OPEN_METEO_FORECAST_URL}?latitude=${coords.lat}&longitude=${coords.lon}` +
+      `&hourly=${HOURLY_FIELDS}&wind_speed_unit=ms&timezone=auto&timeformat=unixtime&forecast_days=${FORECAST_DAYS}`;
+    const data = await fetchJson<OpenMeteoResponse>(url, "forecast");
+    const hourly = data?.hourly;
+    if (!hourly?.time) return null;
+
+    const slots: ForecastSlot[] = hourly.time.map((dt, i) => ({
+      ...toObservation({
+        temperature_2m: hourly.temperature_2m?.[i],
+        apparent_temperature: hourly.apparent_temperature?.[i],
+        relative_humidity_2m: hourly.relative_humidity_2m?.[i],
+        weather_code: hourly.weather_code?.[i],
+        wind_speed_10m: hourly.wind_speed_10m?.[i],
+      }),
+      dt,
+      pop: (hourly.precipitation_probability?.[i] ?? 0) / 100,
+    }));
+
+    return { slots, utcOffsetSeconds: data?.utc_offset_seconds ?? 0 };
+  },
+};
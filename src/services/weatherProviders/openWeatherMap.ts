@@ -0,0 +1,114 @@
+/**
+ * OpenWeatherMap provider
+ * Current weather plus the 5-day / 3-hour forecast
+ */
+
+import type {
+  ForecastSlot,
+  WeatherCondition,
+  WeatherObservation,
+  WeatherProvider,
+  WeatherQuery,
+} from "./types.js";
+
+const OPENWEATHER_API_KEY = process.env.OPENWEATHER_API_KEY;
+const OPENWEATHER_BASE_URL = "https://api.openweathermap.org/data/2.5/weather";
+const OPENWEATHER_FORECAST_URL = "https://api.openweathermap.org/data/2.5/forecast";
+
+interface OWMEntry {
+  dt?: number;
+  main?: { temp?: number; feels_like?: number; humidity?: number };
+  weather?: Array<{ main?: string; description?: string }>;
+  wind?: { speed?: number };
+  pop?: number;
+}
+
+interface OWMForecastResponse {
+  list?: OWMEntry[];
+  city?: { timezone?: number };
+}
+
+/**
+ * Map OpenWeatherMap condition to our simplified condition
+ */
+function mapCondition(owmMain: string): WeatherCondition {
+  const main = owmMain.toLowerCase();
+  if (main === "clear") return "clear";
+  if (main === "clouds") return "clouds";
+  if (main === "rain") return "rain";
+  if (main === "drizzle") return "drizzle";
+  if (main === "thunderstorm") return "thunderstorm";
+  if (main === "snow") return "snow";
+  if (main === "mist" || main === "haze" || main === "smoke") return "mist";
+  if (main === "fog") return "fog";
+  return "clouds"; // default
+}
+
+function toObservation(entry: OWMEntry): WeatherObservation {
+  const temperature = entry.main?.temp ?? 20;
+  return {
+    temperature,
+    feels_like: entry.main?.feels_like ?? temperature,
+    humidity: entry.main?.humidity ?? 50,
+    condition: mapCondition(entry.weather?.[0]?.main || "clouds"),
+    description: entry.weather?.[0]?.description || "unknown",
+    wind_speed: entry.wind?.speed ?? 0,
+  };
+}
+
+function toQueryString(query: WeatherQuery): string {
+  return "city" in query
+    ? `q=${encodeURIComponent(query.city)}`
+    : `lat=${query.lat}&lon=${query.lon}`;
+}
+
+async function fetchJson<T>(url: string, label: string): Promise<T | null> {
+  try {
+    const response = await fetch(url);
+
+    if (!response.ok) {
+      console.error(`[Weather] OpenWeatherMap ${label} API error: ${response.status}`);
+      return null;
+    }
+
+    return (await response.json()) as T;
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : "Unknown error";
+    console.error(`[Weather] Failed to fetch ${label}: ${msg}`);
+    return null;
+  }
+}
+
+export const openWeatherMapProvider: WeatherProvider = {
+  name: "openweathermap",
+
+  async getCurrent(query) {
+    if (!OPENWEATHER_API_KEY) {
+      console.warn("[Weather] No API key configured, skipping weather fetch");
+      return null;
+    }
+
+    const url = `${OPENWEATHER_BASE_URL}?${toQueryString(query)}&appid=${OPENWEATHER_API_KEY}&units=metric`;
+    const data = await fetchJson<OWMEntry>(url, "weather");
+    return data ? toObservation(data) : null;
+  },
+
+  async getForecast(query) {
+    if (!OPENWEATHER_API_KEY) {
+      console.warn("[Weather] No API key configured, skipping forecast fetch");
+      return null;
+    }
+
+    const url = `${OPENWEATHER_FORECAST_URL}?${toQueryString(query)}&appid=${OPENWEATHER_API_KEY}&units=metric`;
+    const data = await fetchJson<OWMForecastResponse>(url, "forecast");
+    if (!data) return null;
+
+    const slots: ForecastSlot[] = (data.list || []).map((entry) => ({
+      ...toObservation(entry),
+      dt: entry.dt ?? 0,
+      pop: entry.pop ?? 0,
+    }));
+
+    return { slots, utcOffsetSeconds: data.city?.timezone ?? 0 };
+  },
+};
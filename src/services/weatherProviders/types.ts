@@ -0,0 +1,42 @@
+/**
+ * Weather provider types
+ * Providers return normalized observations; the weather service derives
+ * seasons, rain flags and day ranges from them.
+ */
+
+export type WeatherCondition =
+  | "clear"
+  | "clouds"
+  | "rain"
+  | "drizzle"
+  | "thunderstorm"
+  | "snow"
+  | "mist"
+  | "fog";
+
+export type WeatherQuery = { lat: number; lon: number } | { city: string };
+
+export interface WeatherObservation {
+  temperature: number; // Celsius
+  feels_like: number;
+  humidity: number;
+  condition: WeatherCondition;
+  description: string;
+  wind_speed: number; // m/s
+  pop?: number; // Probability of precipitation (0-1), forecasts only
+}
+
+export interface ForecastSlot extends WeatherObservation {
+  dt: number; // Unix seconds (UTC)
+}
+
+export interface Forecast {
+  slots: ForecastSlot[];
+  utcOffsetSeconds: number; // Location offset from UTC
+}
+
+export interface WeatherProvider {
+  readonly name: string;
+  getCurrent(query: WeatherQuery): Promise<WeatherObservation | null>;
+  getForecast(query: WeatherQuery): Promise<Forecast | null>;
+}
@@ -0,0 +1,329 @@
+/**
+ * Weather Suitability Service
+ * Rates how well a garment suits the weather from what it's made of (materials),
+ * what it is (subcategory) and its pattern: warmth against the temperature,
+ * breathability on hot/humid days, water resistance in rain/snow and wind protection.
+ */
+
+import { getColdestTemperature, isRainLikely, type WeatherData } from "./weather.js";
+import { getLayerRole } from "./layering.js";
+
+export interface FabricProperties {
+  warmth: number; // 0 (barely there) - 1 (down-level insulation)
+  breathability: number; // 0 - 1
+  water_resistance: number; // 0 (soaks through / is damaged by water) - 1 (waterproof)
+  wind_protection: number; // 0 - 1
+}
+
+export interface SuitabilityItem {
+  category?: string | null;
+  subcategory?: string | null;
+  materials?: string[] | null;
+  pattern?: string | null;
+}
+
+export interface WeatherSuitability {
+  score: number; // 0 - 1
+  properties: FabricProperties;
+  target_warmth: number;
+  thermal: number; // How close warmth is to what the temperature calls for
+  breathability?: number; // Only when it's hot or humid
+  water_resistance?: number; // Only when rain or snow is likely
+  wind_protection?: number; // Only when it's windy
+  notes: string[]; // Human-readable reasons, worst first
+}
+
+// Wind speed (m/s) from which wind protection matters (~30 km/h)
+const WINDY_SPEED = 8;
+// How much warmer than needed an item can be before it counts against it
+const WARMTH_TOLERANCE = 0.15;
+// Temperature / humidity from which breathability matters
+const HOT_TEMPERATURE = 25;
+const HUMID_HUMIDITY = 70;
+const HUMID_MIN_TEMPERATURE = 20;
+
+const DEFAULT_PROPERTIES: FabricProperties = {
+  warmth: 0.4,
+  breathability: 0.6,
+  water_resistance: 0.3,
+  wind_protection: 0.4,
+};
+
+// Per-material properties (matched as substrings, so "wool blend" is wool)
+const MATERIAL_PROPERTIES: Record<string, FabricProperties> = {
+  cotton: { warmth: 0.3, breathability: 0.8, water_resistance: 0.1, wind_protection: 0.3 },
+  linen: { warmth: 0.1, breathability: 1, water_resistance: 0.05, wind_protection: 0.15 },
+  silk: { warmth: 0.3, breathability: 0.7, water_resistance: 0, wind_protection: 0.2 },
+  satin: { warmth: 0.25, breathability: 0.35, water_resistance: 0.05, wind_protection: 0.2 },
+  chiffon: { warmth: 0.1, breathability: 0.85, water_resistance: 0.05, wind_protection: 0.1 },
+  rayon: { warmth: 0.2, breathability: 0.8, water_resistance: 0.05, wind_protection: 0.15 },
+  viscose: { warmth: 0.2, breathability: 0.8, water_resistance: 0.05, wind_protection: 0.15 },
+  jersey: { warmth: 0.3, breathability: 0.75, water_resistance: 0.1, wind_protection: 0.25 },
+  mesh: { warmth: 0.05, breathability: 1, water_resistance: 0, wind_protection: 0 },
+  wool: { warmth: 0.85, breathability: 0.6, water_resistance: 0.4, wind_protection: 0.6 },
+  merino: { warmth: 0.75, breathability: 0.75, water_resistance: 0.35, wind_protection: 0.45 },
+  cashmere: { warmth: 0.9, breathability: 0.55, water_resistance: 0.2, wind_protection: 0.5 },
+  mohair: { warmth: 0.85, breathability: 0.55, water_resistance: 0.25, wind_protection: 0.4 },
+  tweed: { warmth: 0.8, breathability: 0.5, water_resistance: 0.45, wind_protection: 0.7 },
+  fleece: { warmth: 0.8, breathability: 0.5, water_resistance: 0.2, wind_protection: 0.3 },
+  down: { warmth: 1, breathability: 0.4, water_resistance: 0.4, wind_protection: 0.7 },
+  knit: { warmth: 0.65, breathability: 0.55, water_resistance: 0.15, wind_protection: 0.3 },
+  acrylic: { warmth: 0.6, breathability: 0.35, water_resistance: 0.2, wind_protection: 0.35 },
+  corduroy: { warmth: 0.65, breathability: 0.45, water_resistance: 0.2, wind_protection: 0.6 },
+  velvet: { warmth: 0.6, breathability: 0.3, water_resistance: 0.05, wind_protection: 0.5 },
+  flannel: { warmth: 0.65, breathability: 0.6, water_resistance: 0.15, wind_protection: 0.45 },
+  denim: { warmth: 0.5, breathability: 0.45, water_resistance: 0.25, wind_protection: 0.6 },
+  canvas: { warmth: 0.4, breathability: 0.5, water_resistance: 0.35, wind_protection: 0.6 },
+  polyester: { warmth: 0.4, breathability: 0.35, water_resistance: 0.5, wind_protection: 0.5 },
+  nylon: { warmth: 0.3, breathability: 0.3, water_resistance: 0.8, wind_protection: 0.85 },
+  spandex: { warmth: 0.2, breathability: 0.6, water_resistance: 0.2, wind_protection: 0.3 },
+  elastane: { warmth: 0.2, breathability: 0.6, water_resistance: 0.2, wind_protection: 0.3 },
+  leather: { warmth: 0.6, breathability: 0.2, water_resistance: 0.6, wind_protection: 0.95 },
+  suede: { warmth: 0.55, breathability: 0.3, water_resistance: 0.05, wind_protection: 0.8 },
+  rubber: { warmth: 0.2, breathability: 0.05, water_resistance: 1, wind_protection: 0.9 },
+  "gore-tex": { warmth: 0.3, breathability: 0.5, water_resistance: 1, wind_protection: 1 },
+  waterproof: { warmth: 0.3, breathability: 0.35, water_resistance: 1, wind_protection: 0.9 },
+};
+
+// What the garment is: warmth from coverage, plus shells that are built for weather.
+// Keyword match on subcategory/category, longest keyword first.
+const GARMENT_PROPERTIES: Record<string, Partial<FabricProperties>> = {
+  // Barely-there
+  tank: { warmth: 0.1, breathability: 0.95 },
+  camisole: { warmth: 0.1, breathability: 0.95 },
+  "crop top": { warmth: 0.15, breathability: 0.9 },
+  shorts: { warmth: 0.1, breathability: 0.95 },
+  sandal: { warmth: 0.05, breathability: 1, water_resistance: 0.2 },
+  "flip flop": { warmth: 0, breathability: 1, water_resistance: 0.3 },
+  // Light
+  "t-shirt": { warmth: 0.25 },
+  tee: { warmth: 0.25 },
+  blouse: { warmth: 0.25 },
+  skirt: { warmth: 0.25 },
+  dress: { warmth: 0.3 },
+  polo: { warmth: 0.3 },
+  shirt: { warmth: 0.35 },
+  // Medium
+  jeans: { warmth: 0.5 },
+  trousers: { warmth: 0.45 },
+  pants: { warmth: 0.45 },
+  chinos: { warmth: 0.45 },
+  leggings: { warmth: 0.4 },
+  sneaker: { warmth: 0.4, water_resistance: 0.3 },
+  loafer: { warmth: 0.35, water_resistance: 0.25 },
+  heel: { warmth: 0.2, water_resistance: 0.2 },
+  blazer: { warmth: 0.5, wind_protection: 0.5 },
+  cardigan: { warmth: 0.55 },
+  hoodie: { warmth: 0.6 },
+  sweatshirt: { warmth: 0.6 },
+  sweater: { warmth: 0.75 },
+  turtleneck: { warmth: 0.6 },
+  // Warm
+  boot: { warmth: 0.7, water_resistance: 0.65, wind_protection: 0.8 },
+  "rain boot": { warmth: 0.4, water_resistance: 1, wind_protection: 0.9 },
+  jacket: { warmth: 0.6, wind_protection: 0.7 },
+  "denim jacket": { warmth: 0.5, wind_protection: 0.6 },
+  "leather jacket": { warmth: 0.65, wind_protection: 0.95, water_resistance: 0.6 },
+  bomber: { warmth: 0.6, wind_protection: 0.75 },
+  coat: { warmth: 0.85, wind_protection: 0.8 },
+  overcoat: { warmth: 0.85, wind_protection: 0.8 },
+  puffer: { warmth: 1, wind_protection: 0.85, water_resistance: 0.5 },
+  parka: { warmth: 1, wind_protection: 0.9, water_resistance: 0.7 },
+  scarf: { warmth: 0.7, wind_protection: 0.6 },
+  beanie: { warmth: 0.7 },
+  glove: { warmth: 0.7, wind_protection: 0.7 },
+  // Weather shells
+  trench: { warmth: 0.6, wind_protection: 0.85, water_resistance: 0.75 },
+  windbreaker: { warmth: 0.3, wind_protection: 0.95, water_resistance: 0.6 },
+  anorak: { warmth: 0.45, wind_protection: 0.95, water_resistance: 0.85 },
+  "rain jacket": { warmth: 0.35, wind_protection: 0.9, water_resistance: 1 },
+  raincoat: { warmth: 0.4, wind_protection: 0.9, water_resistance: 1 },
+};
+
+// Patterns that lean to a season (plaid is usually flannel or wool; florals are usually light)
+const PATTERN_WARMTH: Record<string, number> = {
+  plaid: 0.1,
+  floral: -0.05,
+  "tie-dye": -0.05,
+};
+
+// Garments where wet feet/shoulders matter most
+const WEATHER_EXPOSED_SLOTS = new Set(["outerwear", "shoes"]);
+
+function clamp(value: number): number {
+  return Math.max(0, Math.min(1, value));
+}
+
+function lookupGarment(item: SuitabilityItem): Partial<FabricProperties> | null {
+  for (const field of [item.subcategory, item.category]) {
+    const text = (field || "").toLowerCase();
+    if (!text) continue;
+    const match = Object.keys(GARMENT_PROPERTIES)
+      .filter((key) => text.includes(key))
+      .sort((a, b) => b.length - a.length)[0];
+    if (match) return GARMENT_PROPERTIES[match];
+  }
+  return null;
+}
+
+/**
+ * Weather-relevant properties of a garment: materials averaged, then blended with
+ * what the garment type implies
+ */
+export function getFabricProperties(item: SuitabilityItem): FabricProperties {
+  const materials = (item.materials || [])
+    .map((material) => {
+      const text = material.toLowerCase();
+      const key = Object.keys(MATERIAL_PROPERTIES)
+        .filter((name) => text.includes(name))
+        .sort((a, b) => b.length - a.length)[0];
+      return key ? MATERIAL_PROPERTIES[key] : null;
+    })
+    .filter((props): props is FabricProperties => !!props);
+
+  const fabric: FabricProperties | null =
+    materials.length > 0
+      ? {
+          warmth: materials.reduce((sum, m) => sum + m.warmth, 0) / materials.length,
+          breathability: materials.reduce((sum, m) => sum + m.breathability, 0) / materials.length,
+          water_resistance: materials.reduce((sum, m) => sum + m.water_resistance, 0) / materials.length,
+          wind_protection: materials.reduce((sum, m) => sum + m.wind_protection, 0) / materials.length,
+        }
+      : null;
+  const garment = lookupGarment(item);
+
+  const blend = (key: keyof FabricProperties): number => {
+    const fromGarment = garment?.[key];
+    if (!fabric || fromGarment === undefined) return fromGarment ?? fabric?.[key] ?? DEFAULT_PROPERTIES[key];
+
+    if (key === "warmth") {
+      // Coverage matters more than fiber (a linen coat is still a coat)
+      return fromGarment * 0.6 + fabric.warmth * 0.4;
+    }
+    if (key === "water_resistance" && fabric.water_resistance < 0.1) {
+      // Water-sensitive fabrics (suede, silk, velvet) stay that way whatever the garment
+      return fabric.water_resistance;
+    }
+    if ((key === "water_resistance" || key === "wind_protection") && fromGarment >= 0.75) {
+      // Shells are built for weather whatever the listed fabric
+      return Math.max(fabric[key], fromGarment);
+    }
+    return (fabric[key] + fromGarment) / 2;
+  };
+
+  return {
+    warmth: clamp(blend("warmth") + (PATTERN_WARMTH[(item.pattern || "").toLowerCase()] ?? 0)),
+    breathability: clamp(blend("breathability")),
+    water_resistance: clamp(blend("water_resistance")),
+    wind_protection: clamp(blend("wind_protection")),
+  };
+}
+
+/**
+ * Warmth (0-1) the temperature calls for: ~0.05 at 23C+, ~0.4 at 15C, ~0.75 at 7C, 1 at 2C and below
+ */
+export function getTargetWarmth(tempC: number): number {
+  return Math.max(0.05, Math.min(1, (24 - tempC) / 22));
+}
+
+/**
+ * Temperature an item has to cope with: layers that come off are dressed for the
+ * coldest part of the day, everything else for the day's average
+ */
+function getDressingTemperature(item: SuitabilityItem, weather: WeatherData): number {
+  const role = getLayerRole(item);
+  const category = (item.category || "").toLowerCase();
+  if (role === "mid" || role === "outer" || category === "outerwear") {
+    return getColdestTemperature(weather);
+  }
+  if (weather.temp_min !== undefined && weather.temp_max !== undefined) {
+    return (weather.temperature + weather.temp_min + weather.temp_max) / 3;
+  }
+  return Math.min(weather.temperature, weather.feels_like ?? weather.temperature);
+}
+
+/**
+ * Rate how well an item suits the weather (0-1) and why
+ */
+export function assessWeatherSuitability(item: SuitabilityItem, weather: WeatherData): WeatherSuitability {
+  const properties = getFabricProperties(item);
+  const category = (item.category || "").toLowerCase();
+  const exposed = WEATHER_EXPOSED_SLOTS.has(category);
+  const notes: Array<{ impact: number; text: string }> = [];
+
+  const targetWarmth = getTargetWarmth(getDressingTemperature(item, weather));
+  const warmthGap = properties.warmth - targetWarmth;
+  const role = getLayerRole(item);
+  let thermalPenalty: number;
+  if (warmthGap > 0) {
+    // A little extra warmth is fine, and layers that come off are more forgiving still
+    const overheatingFactor = category === "outerwear" || role === "outer" ? 0.8 : 1.5;
+    thermalPenalty = Math.max(0, warmthGap - WARMTH_TOLERANCE) * overheatingFactor;
+  } else {
+    // Base layers get layered over, so being too light matters less
+    thermalPenalty = -warmthGap * (role === "base" ? 0.75 : 2);
+  }
+  const thermal = clamp(1 - thermalPenalty);
+  if (thermal < 0.6) {
+    notes.push({ impact: 1 - thermal, text: warmthGap > 0 ? "too warm for the temperature" : "not warm enough" });
+  }
+
+  const components: Array<{ value: number; weight: number }> = [{ value: thermal, weight: 1 }];
+  const result: WeatherSuitability = {
+    score: thermal,
+    properties,
+    target_warmth: Math.round(targetWarmth * 100) / 100,
+    thermal: Math.round(thermal * 100) / 100,
+    notes: [],
+  };
+
+  const hottest = Math.max(weather.temperature, weather.temp_max ?? weather.temperature);
+  if (hottest >= HOT_TEMPERATURE || (weather.humidity >= HUMID_HUMIDITY && hottest >= HUMID_MIN_TEMPERATURE)) {
+    components.push({ value: properties.breathability, weight: 0.4 });
+    result.breathability = properties.breathability;
+    if (properties.breathability < 0.4) {
+      notes.push({ impact: 0.6 - properties.breathability, text: "doesn't breathe well in the heat" });
+    }
+  }
+
+  if (isRainLikely(weather) || weather.is_snowy) {
+    components.push({ value: properties.water_resistance, weight: exposed ? 0.8 : 0.25 });
+    result.water_resistance = properties.water_resistance;
+    if (properties.water_resistance < 0.2) {
+      notes.push({ impact: 0.5 - properties.water_resistance, text: `won't hold up to ${weather.is_snowy ? "snow" : "rain"}` });
+    } else if (exposed && properties.water_resistance >= 0.75) {
+      notes.push({ impact: 0.1, text: `handles ${weather.is_snowy ? "snow" : "rain"}` });
+    }
+  }
+
+  if (weather.wind_speed >= WINDY_SPEED) {
+    components.push({ value: properties.wind_protection, weight: exposed ? 0.4 : 0.15 });
+    result.wind_protection = properties.wind_protection;
+    if (category === "outerwear" && properties.wind_protection < 0.4) {
+      notes.push({ impact: 0.4 - properties.wind_protection, text: "lets the wind through" });
+    }
+  }
+
+  const totalWeight = components.reduce((sum, c) => sum + c.weight, 0);
+  result.score = Math.round((components.reduce((sum, c) => sum + c.value * c.weight, 0) / totalWeight) * 100) / 100;
+  result.notes = notes.sort((a, b) => b.impact - a.impact).map((note) => note.text);
+  return result;
+}
+
+/**
+ * Outfit weather score: item suitability averaged, with the pieces that take the
+ * weather (outerwear, shoes) counting double when it's wet or windy
+ */
+export function calculateOutfitWeatherScore(items: SuitabilityItem[], weather: WeatherData): number {
+  if (items.length === 0) return 0;
+
+  const harsh = isRainLikely(weather) || weather.is_snowy || weather.wind_speed >= WINDY_SPEED;
+  let total = 0;
+  let weights = 0;
+  for (const item of items) {
+    const weight = harsh && WEATHER_EXPOSED_SLOTS.has((item.category || "").toLowerCase()) ? 2 : 1;
+    total += assessWeatherSuitability(item, weather).score * weight;
+    weights += weight;
+  }
+  return Math.round((total / weights) * 100) / 100;
+}
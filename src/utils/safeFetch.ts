@@ -0,0 +1,114 @@
+/**
+ * Safe Fetch Utility
+ * Fetches user-supplied URLs without letting them reach internal services:
+ * http(s) only, public IP addresses only (checked again on every redirect),
+ * with a timeout and a response size cap.
+ */
+
+import { lookup } from "node:dns/promises";
+import { isIP } from "node:net";
+
+const DEFAULT_TIMEOUT_MS = 15 * 1000;
+const DEFAULT_MAX_BYTES = 5 * 1024 * 1024;
+const MAX_REDIRECTS = 5;
+
+export interface SafeFetchOptions {
+  timeoutMs?: number;
+  maxBytes?: number;
+  accept?: string;
+}
+
+export interface SafeFetchResult {
+  url: string; // Final URL after redirects
+  contentType: string;
+  body: Buffer;
+}
+
+/**
+ * Loopback, private, link-local, CGNAT and other non-routable ranges
+ */
+function isPrivateAddress(address: string): boolean {
+  if (isIP(address) === 6) {
+    const lower = address.toLowerCase();
+    if (lower === "::1" || lower === "::") return true;
+    if (lower.startsWith("::ffff:")) return isPrivateAddress(lower.slice(7));
+    return /^(fc|fd|fe8|fe9|fea|feb)/.test(lower);
+  }
+
+  const [a, b] = address.split(".").map(Number);
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    a >= 224
+  );
+}
+
+async function assertPublicUrl(url: URL): Promise<void> {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new Error("Only http and https URLs are allowed");
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  const addresses = isIP(host) ? [host] : (await lookup(host, { all: true })).map((entry) => entry.address);
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    throw new Error("URL does not resolve to a public address");
+  }
+}
+
+/**
+ * Fetch a public URL, following redirects manually so each hop is checked
+ */
+export async function safeFetch(rawUrl: string, options: SafeFetchOptions = {}): Promise<SafeFetchResult> {
+  const maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+  const signal = AbortSignal.timeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+  let url = new URL(rawUrl);
+
+  for (let redirects = 0; ; redirects++) {
+    await assertPublicUrl(url);
+
+    const response = await fetch(url, {
+      redirect: "manual",
+      signal,
+      headers: {
+        Accept: options.accept ?? "*/*",
+        "User-Agent": "Mozilla/5.0 (compatible; StyleumBot/1.0; +https://styleum.app)",
+      },
+    });
+
+    const location = response.headers.get("location");
+    if (response.status >= 300 && response.status < 400 && location) {
+      if (redirects >= MAX_REDIRECTS) throw new Error("Too many redirects");
+      url = new URL(location, url);
+      continue;
+    }
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    if (Number(response.headers.get("content-length") ?? 0) > maxBytes) {
+      throw new Error("Response too large");
+    }
+
+    // Stream so a missing/lying content-length can't blow past the cap
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    if (response.body) {
+      for await (const chunk of response.body) {
+        size += chunk.byteLength;
+        if (size > maxBytes) throw new Error("Response too large");
+        chunks.push(chunk);
+      }
+    }
+
+    return {
+      url: url.toString(),
+      contentType: (response.headers.get("content-type") ?? "").split(";")[0].trim().toLowerCase(),
+      body: Buffer.concat(chunks),
+    };
+  }
+}
@@ -3,7 +3,9 @@
  * Applies seasonal scoring/decay to outfit items based on weather
  */
 
-import type { SeasonSuggestion, WeatherData } from "../services/weather.js";
+import { getSeasonSuggestion, type SeasonSuggestion, type WeatherData } from "../services/weather.js";
+import { getLayerRole } from "../services/layering.js";
+import { assessWeatherSuitability } from "../services/weatherSuitability.js";
 
 // Season compatibility weights
 // Key: current weather season, Value: item season -> weight
@@ -65,17 +67,23 @@ export interface WardrobeItem {
   colors?: {
     primary?: string | null;
     secondary?: string[] | null;
-    accent?: string | null;
+    accent?: string[] | null;
   } | null;
   fit?: "oversized" | "relaxed" | "regular" | "fitted" | "slim" | null;
   length?: "cropped" | "regular" | "longline" | null;
+  materials?: string[] | null;
+  pattern?: string | null;
 }
 
 export interface ScoredItem extends WardrobeItem {
-  seasonal_score: number;
+  seasonal_score: number; // Season tags and weather suitability combined
+  weather_score: number; // Weather suitability from materials/garment type (0-1)
   weather_appropriate: boolean;
 }
 
+// Below this suitability an item is kept out of the weather-appropriate pool
+const MIN_WEATHER_SUITABILITY = 0.3;
+
 /**
  * Get temperature category
  */
@@ -128,30 +136,44 @@ export function isFormaltiyAppropriate(
 }
 
 /**
- * Filter and score items based on weather
+ * Seasonal score across the day's temperature range.
+ * Mid/outer layers are judged on the coldest part of the day (they come off later);
+ * everything else is worn all day, so it has to hold up at both ends of the range.
+ */
+function calculateDayRangeScore(item: WardrobeItem, weather: WeatherData): number {
+  const current = calculateSeasonalScore(item, weather.season_suggestion);
+  if (weather.temp_min === undefined || weather.temp_max === undefined) return current;
+
+  const coldest = calculateSeasonalScore(item, getSeasonSuggestion(weather.temp_min, weather.condition));
+  const warmest = calculateSeasonalScore(item, getSeasonSuggestion(weather.temp_max, weather.condition));
+
+  const role = getLayerRole(item);
+  if (role === "mid" || role === "outer") {
+    return Math.max(current, coldest);
+  }
+
+  return (current + coldest + warmest) / 3;
+}
+
+/**
+ * Filter and score items based on weather (the day's range when the forecast provides one)
  */
 export function filterByWeather(
   items: WardrobeItem[],
   weather: WeatherData
 ): ScoredItem[] {
   return items.map((item) => {
-    const seasonalScore = calculateSeasonalScore(item, weather.season_suggestion);
+    const seasonalScore = calculateDayRangeScore(item, weather);
     const formalityOk = isFormaltiyAppropriate(item.formality_score, weather.temperature);
 
-    // Rain/snow penalty for certain categories
-    let weatherPenalty = 0;
-    if (weather.is_rainy || weather.is_snowy) {
-      const category = item.category?.toLowerCase() || "";
-      // Suede, linen, silk are bad in rain/snow
-      if (["suede", "linen", "silk"].some((m) => category.includes(m))) {
-        weatherPenalty = 0.3;
-      }
-    }
+    // What the item is made of: warmth, breathability, water and wind resistance
+    const suitability = assessWeatherSuitability(item, weather).score;
 
     return {
       ...item,
-      seasonal_score: Math.max(0, seasonalScore - weatherPenalty),
-      weather_appropriate: formalityOk && seasonalScore >= 0.5,
+      seasonal_score: Math.round((seasonalScore * 0.5 + suitability * 0.5) * 100) / 100,
+      weather_score: suitability,
+      weather_appropriate: formalityOk && seasonalScore >= 0.5 && suitability >= MIN_WEATHER_SUITABILITY,
     };
   });
 }
@@ -169,40 +191,3 @@ export function sortBySeasonalFit(items: ScoredItem[]): ScoredItem[] {
     return b.seasonal_score - a.seasonal_score;
   });
 }
-
-/**
- * Get appropriate categories for weather conditions
- */
-export function getWeatherCategories(weather: WeatherData): {
-  required: string[];
-  preferred: string[];
-  avoid: string[];
-} {
-  const result = {
-    required: [] as string[],
-    preferred: [] as string[],
-    avoid: [] as string[],
-  };
-
-  // Temperature-based
-  if (weather.temperature < 10) {
-    result.preferred.push("outerwear", "coats", "jackets", "sweaters");
-    result.avoid.push("shorts", "tank tops", "sandals");
-  } else if (weather.temperature > 25) {
-    result.preferred.push("t-shirts", "shorts", "sandals", "dresses");
-    result.avoid.push("coats", "heavy jackets", "sweaters");
-  }
-
-  // Rain/snow
-  if (weather.is_rainy) {
-    result.required.push("rain jacket", "umbrella", "waterproof");
-    result.avoid.push("suede", "canvas sneakers");
-  }
-
-  if (weather.is_snowy) {
-    result.required.push("boots", "warm coat");
-    result.avoid.push("sneakers", "thin layers");
-  }
-
-  return result;
-}
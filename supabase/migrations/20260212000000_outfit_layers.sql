@@ -0,0 +1,8 @@
+-- Add layers column to generated_outfits for multi-layer outfit composition
+-- Stores the explicit upper-body layer order chosen by the generator, e.g.
+-- [{"item_id": "...", "layer": "base", "order": 1}, {"item_id": "...", "layer": "outer", "order": 2}]
+
+ALTER TABLE generated_outfits
+ADD COLUMN IF NOT EXISTS layers JSONB;
+
+COMMENT ON COLUMN generated_outfits.layers IS 'Upper-body layer order (base -> mid -> outer) chosen by the outfit generator';
@@ -0,0 +1,44 @@
+-- ================================================
+-- OUTFIT PLANNER
+-- Plan outfits for future dates and multi-day trips
+-- ================================================
+
+-- One row per plan (a date range with a shared item cooldown)
+CREATE TABLE IF NOT EXISTS outfit_plans (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  cooldown_days INTEGER NOT NULL DEFAULT 3 CHECK (cooldown_days BETWEEN 0 AND 30),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CHECK (end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_outfit_plans_user_dates ON outfit_plans(user_id, start_date, end_date);
+
+ALTER TABLE outfit_plans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own outfit plans"
+ON outfit_plans FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Planned outfits are generated_outfits rows linked to a plan
+ALTER TABLE generated_outfits
+ADD COLUMN IF NOT EXISTS plan_id UUID REFERENCES outfit_plans(id) ON DELETE CASCADE,
+ADD COLUMN IF NOT EXISTS is_locked BOOLEAN DEFAULT FALSE,
+ADD COLUMN IF NOT EXISTS plan_location JSONB;
+
+-- Locked outfits are looked up by user + target_date (GET /outfits, pre-generation)
+CREATE INDEX IF NOT EXISTS idx_generated_outfits_locked
+ON generated_outfits(user_id, target_date)
+WHERE is_locked = TRUE;
+
+CREATE INDEX IF NOT EXISTS idx_generated_outfits_plan ON generated_outfits(plan_id)
+WHERE plan_id IS NOT NULL;
+
+COMMENT ON COLUMN generated_outfits.plan_id IS 'Outfit plan this outfit belongs to (null for daily/on-demand outfits)';
+COMMENT ON COLUMN generated_outfits.is_locked IS 'Locked outfits are never replaced by pre-generation and are served as that day''s outfit';
+COMMENT ON COLUMN generated_outfits.plan_location IS 'Location the planned outfit was styled for: {"lat", "lon"} or {"city"}';
@@ -0,0 +1,54 @@
+-- ================================================
+-- TRIPS
+-- Packing lists: a minimal capsule of wardrobe items covering every outfit of a trip
+-- ================================================
+
+CREATE TABLE IF NOT EXISTS trips (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT,
+  destination JSONB NOT NULL,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  activities JSONB NOT NULL DEFAULT '[]'::jsonb,
+  outfits JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CHECK (end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_trips_user_start ON trips(user_id, start_date DESC);
+
+ALTER TABLE trips ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own trips"
+ON trips FOR SELECT
+USING (auth.uid() = user_id);
+
+-- One row per packed wardrobe item (the check-off list)
+CREATE TABLE IF NOT EXISTS trip_packing_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  trip_id UUID NOT NULL REFERENCES trips(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  item_id UUID NOT NULL REFERENCES wardrobe_items(id) ON DELETE CASCADE,
+  outfit_count INTEGER NOT NULL DEFAULT 0,
+  is_packed BOOLEAN NOT NULL DEFAULT FALSE,
+  packed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  UNIQUE (trip_id, item_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_trip_packing_items_trip ON trip_packing_items(trip_id);
+
+ALTER TABLE trip_packing_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own trip packing items"
+ON trip_packing_items FOR SELECT
+USING (auth.uid() = user_id);
+
+COMMENT ON COLUMN trips.destination IS 'Trip destination: {"lat", "lon"} or {"city"}';
+COMMENT ON COLUMN trips.activities IS 'Planned activities: [{"date", "occasion"}]';
+COMMENT ON COLUMN trips.outfits IS 'Outfits the capsule covers: [{"date", "occasion", "item_ids", "name", "weather"}]';
+COMMENT ON COLUMN trip_packing_items.outfit_count IS 'Number of trip outfits this item is used in';
@@ -0,0 +1,12 @@
+-- Add optional purchase information to wardrobe_items for cost-per-wear and wardrobe value analytics
+
+ALTER TABLE wardrobe_items
+ADD COLUMN IF NOT EXISTS purchase_price NUMERIC(10, 2) CHECK (purchase_price >= 0),
+ADD COLUMN IF NOT EXISTS currency TEXT CHECK (currency ~ '^[A-Z]{3}$'),
+ADD COLUMN IF NOT EXISTS purchase_date DATE,
+ADD COLUMN IF NOT EXISTS retailer TEXT;
+
+COMMENT ON COLUMN wardrobe_items.purchase_price IS 'What the user paid for the item, in currency';
+COMMENT ON COLUMN wardrobe_items.currency IS 'ISO 4217 currency code for purchase_price (e.g. USD)';
+COMMENT ON COLUMN wardrobe_items.purchase_date IS 'When the item was bought (falls back to created_at for depreciation)';
+COMMENT ON COLUMN wardrobe_items.retailer IS 'Store or site the item was bought from';
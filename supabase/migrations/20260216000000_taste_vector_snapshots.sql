@@ -0,0 +1,32 @@
+-- ================================================
+-- TASTE VECTOR SNAPSHOTS
+-- One snapshot of each user's taste vector per day, for taste drift analytics
+-- ================================================
+
+CREATE TABLE IF NOT EXISTS user_taste_vector_snapshots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  snapshot_date DATE NOT NULL,
+  taste_vector halfvec(768) NOT NULL,
+  interaction_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  UNIQUE (user_id, snapshot_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_taste_snapshots_user_date
+ON user_taste_vector_snapshots(user_id, snapshot_date DESC);
+
+ALTER TABLE user_taste_vector_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own taste snapshots"
+ON user_taste_vector_snapshots FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Seed history with today's vector so existing users have a starting point
+INSERT INTO user_taste_vector_snapshots (user_id, snapshot_date, taste_vector, interaction_count)
+SELECT user_id, CURRENT_DATE, taste_vector, COALESCE(interaction_count, 0)
+FROM user_taste_vectors
+ON CONFLICT (user_id, snapshot_date) DO NOTHING;
+
+COMMENT ON TABLE user_taste_vector_snapshots IS 'Daily taste vector history (last update of the day wins)';
@@ -0,0 +1,79 @@
+-- ================================================
+-- ITEM PROCESSING JOBS
+-- Durable queue for the item AI pipeline (background removal -> vision -> embedding -> tagging)
+-- Each job checkpoints stage results so retries resume where they failed
+-- ================================================
+
+CREATE TABLE IF NOT EXISTS item_processing_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  item_id UUID NOT NULL REFERENCES wardrobe_items(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  image_url TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed')),
+  current_stage TEXT,
+  stage_results JSONB NOT NULL DEFAULT '{}'::jsonb,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  locked_by TEXT,
+  locked_at TIMESTAMPTZ,
+  last_error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+-- At most one active job per item
+CREATE UNIQUE INDEX IF NOT EXISTS idx_item_processing_jobs_active_item
+ON item_processing_jobs(item_id)
+WHERE status IN ('queued', 'running');
+
+CREATE INDEX IF NOT EXISTS idx_item_processing_jobs_claimable
+ON item_processing_jobs(status, next_attempt_at);
+
+ALTER TABLE item_processing_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own processing jobs"
+ON item_processing_jobs FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Per-stage progress shown on the item
+ALTER TABLE wardrobe_items
+ADD COLUMN IF NOT EXISTS processing_stage TEXT,
+ADD COLUMN IF NOT EXISTS processing_stages JSONB;
+
+COMMENT ON COLUMN wardrobe_items.processing_stage IS 'Pipeline stage currently running (null when idle)';
+COMMENT ON COLUMN wardrobe_items.processing_stages IS 'Status per pipeline stage: pending, running, completed or failed';
+
+-- Atomically claim due jobs for a worker.
+-- Also reclaims running jobs whose lease expired (worker crashed or was redeployed).
+CREATE OR REPLACE FUNCTION claim_item_processing_jobs(
+    p_worker_id TEXT,
+    p_limit INTEGER,
+    p_lease_seconds INTEGER DEFAULT 180
+)
+RETURNS SETOF item_processing_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE item_processing_jobs j
+    SET status = 'running',
+        locked_by = p_worker_id,
+        locked_at = NOW(),
+        attempts = j.attempts + 1,
+        updated_at = NOW()
+    WHERE j.id IN (
+        SELECT id FROM item_processing_jobs
+        WHERE (status = 'queued' AND next_attempt_at <= NOW())
+           OR (status = 'running' AND locked_at < NOW() - make_interval(secs => p_lease_seconds))
+        ORDER BY next_attempt_at
+        LIMIT p_limit
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING j.*;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION claim_item_processing_jobs TO service_role;
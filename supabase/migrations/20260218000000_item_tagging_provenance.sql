@@ -0,0 +1,18 @@
+-- Record which model and prompt version produced each item's tags, and let
+-- processing jobs re-run only selected stages (reprocess / retag)
+
+ALTER TABLE wardrobe_items
+ADD COLUMN IF NOT EXISTS tagging_model TEXT,
+ADD COLUMN IF NOT EXISTS tagging_prompt_version INTEGER,
+ADD COLUMN IF NOT EXISTS tagged_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN wardrobe_items.tagging_model IS 'Model that produced the tags ("defaults" = every model failed, placeholder tags)';
+COMMENT ON COLUMN wardrobe_items.tagging_prompt_version IS 'TAGGING_PROMPT_VERSION used for the tags (null = tagged before versioning)';
+
+CREATE INDEX IF NOT EXISTS idx_wardrobe_items_tagging_prompt_version
+ON wardrobe_items(tagging_prompt_version);
+
+ALTER TABLE item_processing_jobs
+ADD COLUMN IF NOT EXISTS stages TEXT[];
+
+COMMENT ON COLUMN item_processing_jobs.stages IS 'Stages this job runs (null = full pipeline)';
@@ -0,0 +1,31 @@
+-- ================================================
+-- ITEM TAG CORRECTIONS
+-- Manual overrides of AI tags. Re-applied after every retag, and used as
+-- few-shot examples for the user's future tagging calls
+-- ================================================
+
+CREATE TABLE IF NOT EXISTS item_tag_corrections (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  item_id UUID NOT NULL REFERENCES wardrobe_items(id) ON DELETE CASCADE,
+  field TEXT NOT NULL,
+  previous_value JSONB,
+  corrected_value JSONB,
+  description TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_item_tag_corrections_item
+ON item_tag_corrections(item_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_item_tag_corrections_user
+ON item_tag_corrections(user_id, created_at DESC);
+
+ALTER TABLE item_tag_corrections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own tag corrections"
+ON item_tag_corrections FOR SELECT
+USING (auth.uid() = user_id);
+
+COMMENT ON TABLE item_tag_corrections IS 'User overrides of AI item tags (latest per item and field wins)';
+COMMENT ON COLUMN item_tag_corrections.description IS 'Vision caption of the item when corrected, for few-shot examples';
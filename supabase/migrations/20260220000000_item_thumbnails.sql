@@ -0,0 +1,7 @@
+-- Thumbnails generated for server-side uploads (POST /api/items multipart)
+-- thumbnail_url keeps the default size; thumbnails holds every size
+
+ALTER TABLE wardrobe_items
+ADD COLUMN IF NOT EXISTS thumbnails JSONB;
+
+COMMENT ON COLUMN wardrobe_items.thumbnails IS 'Thumbnail URLs keyed by longest side in px, e.g. {"128": "...", "256": "...", "512": "..."}';
@@ -0,0 +1,141 @@
+-- ================================================
+-- ITEM DUPLICATE DETECTION
+-- After an item's embedding is generated, its nearest neighbours in the user's
+-- wardrobe are flagged as likely duplicates. The user merges them or keeps both.
+-- ================================================
+
+CREATE TABLE IF NOT EXISTS item_duplicate_candidates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  item_id UUID NOT NULL REFERENCES wardrobe_items(id) ON DELETE CASCADE,
+  duplicate_of UUID NOT NULL REFERENCES wardrobe_items(id) ON DELETE CASCADE,
+  similarity REAL NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'kept_both')),
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  UNIQUE (item_id, duplicate_of)
+);
+
+CREATE INDEX IF NOT EXISTS idx_item_duplicate_candidates_user_pending
+ON item_duplicate_candidates(user_id, created_at DESC)
+WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_item_duplicate_candidates_duplicate_of
+ON item_duplicate_candidates(duplicate_of);
+
+ALTER TABLE item_duplicate_candidates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own duplicate candidates"
+ON item_duplicate_candidates FOR SELECT
+USING (auth.uid() = user_id);
+
+COMMENT ON TABLE item_duplicate_candidates IS 'Likely duplicate item pairs (item_id = newer upload). Merged pairs disappear with the merged item';
+
+-- Nearest neighbours of an item within the same user's wardrobe (same category when both are tagged)
+CREATE OR REPLACE FUNCTION find_duplicate_items(
+  p_item_id UUID,
+  p_min_similarity FLOAT DEFAULT 0.92,
+  p_limit INT DEFAULT 3
+)
+RETURNS TABLE (
+  id UUID,
+  similarity FLOAT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    w.id,
+    (1 - (w.embedding <=> src.embedding))::FLOAT AS similarity
+  FROM wardrobe_items src
+  JOIN wardrobe_items w
+    ON w.user_id = src.user_id
+   AND w.id <> src.id
+  WHERE src.id = p_item_id
+    AND src.embedding IS NOT NULL
+    AND w.embedding IS NOT NULL
+    AND w.is_archived = FALSE
+    AND (src.category IS NULL OR w.category IS NULL OR w.category = src.category)
+    AND (1 - (w.embedding <=> src.embedding)) >= p_min_similarity
+  ORDER BY w.embedding <=> src.embedding
+  LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION find_duplicate_items TO service_role;
+
+-- Fold one item into another in a single transaction: wear stats are combined,
+-- outfit references are repointed to the kept item, then the merged item is deleted.
+CREATE OR REPLACE FUNCTION merge_wardrobe_items(
+  p_user_id UUID,
+  p_keep_id UUID,
+  p_merge_id UUID
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_merge wardrobe_items%ROWTYPE;
+BEGIN
+  SELECT * INTO v_merge FROM wardrobe_items
+  WHERE id = p_merge_id AND user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT EXISTS (
+    SELECT 1 FROM wardrobe_items WHERE id = p_keep_id AND user_id = p_user_id
+  ) THEN
+    RAISE EXCEPTION 'Items not found';
+  END IF;
+
+  UPDATE wardrobe_items k
+  SET times_worn = COALESCE(k.times_worn, 0) + COALESCE(v_merge.times_worn, 0),
+      last_worn_at = GREATEST(k.last_worn_at, v_merge.last_worn_at),
+      is_favorite = COALESCE(k.is_favorite, FALSE) OR COALESCE(v_merge.is_favorite, FALSE),
+      item_name = COALESCE(k.item_name, v_merge.item_name),
+      purchase_price = COALESCE(k.purchase_price, v_merge.purchase_price),
+      currency = CASE WHEN k.purchase_price IS NULL THEN v_merge.currency ELSE k.currency END,
+      purchase_date = COALESCE(k.purchase_date, v_merge.purchase_date),
+      retailer = COALESCE(k.retailer, v_merge.retailer),
+      updated_at = NOW()
+  WHERE k.id = p_keep_id;
+
+  -- Repoint outfit item arrays (keeping order, without listing the kept item twice)
+  UPDATE outfit_history
+  SET items = ARRAY(
+    SELECT x FROM unnest(array_replace(items, p_merge_id, p_keep_id)) WITH ORDINALITY AS t(x, n)
+    GROUP BY x ORDER BY MIN(n)
+  )
+  WHERE user_id = p_user_id AND p_merge_id = ANY(items);
+
+  UPDATE saved_outfits
+  SET items = ARRAY(
+    SELECT x FROM unnest(array_replace(items, p_merge_id, p_keep_id)) WITH ORDINALITY AS t(x, n)
+    GROUP BY x ORDER BY MIN(n)
+  )
+  WHERE user_id = p_user_id AND p_merge_id = ANY(items);
+
+  UPDATE generated_outfits
+  SET items = ARRAY(
+    SELECT x FROM unnest(array_replace(items, p_merge_id, p_keep_id)) WITH ORDINALITY AS t(x, n)
+    GROUP BY x ORDER BY MIN(n)
+  ),
+  layers = replace(layers::text, p_merge_id::text, p_keep_id::text)::jsonb
+  WHERE user_id = p_user_id AND p_merge_id = ANY(items);
+
+  -- Trip capsules reference items inside JSONB
+  UPDATE trips
+  SET outfits = replace(outfits::text, p_merge_id::text, p_keep_id::text)::jsonb
+  WHERE user_id = p_user_id AND outfits::text LIKE '%' || p_merge_id::text || '%';
+
+  UPDATE trip_packing_items
+  SET item_id = p_keep_id
+  WHERE item_id = p_merge_id
+    AND trip_id NOT IN (SELECT trip_id FROM trip_packing_items WHERE item_id = p_keep_id);
+
+  -- Remaining rows (trip already packs the kept item), candidates and jobs cascade
+  DELETE FROM wardrobe_items WHERE id = p_merge_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION merge_wardrobe_items TO service_role;
@@ -0,0 +1,27 @@
+-- ================================================
+-- MULTI-ITEM PHOTO IMPORTS
+-- One photo (flat lay or mirror selfie) split into garment crops. Detections stay
+-- pending until the user confirms them into wardrobe items or discards them.
+-- ================================================
+
+CREATE TABLE IF NOT EXISTS item_photo_imports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  source_image_url TEXT NOT NULL,
+  source_thumbnails JSONB,
+  detections JSONB NOT NULL DEFAULT '[]'::jsonb,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'completed')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_item_photo_imports_user
+ON item_photo_imports(user_id, created_at DESC);
+
+ALTER TABLE item_photo_imports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own photo imports"
+ON item_photo_imports FOR SELECT
+USING (auth.uid() = user_id);
+
+COMMENT ON COLUMN item_photo_imports.detections IS 'Garments found: [{"id", "label", "category", "bbox", "crop_url", "thumbnail_url", "thumbnails", "status", "item_id"}]';
@@ -0,0 +1,7 @@
+-- Product listing details for items imported from a product URL or order email
+-- (POST /api/items/import). Name, brand and color are passed to tagging as known facts.
+
+ALTER TABLE wardrobe_items
+ADD COLUMN IF NOT EXISTS product_info JSONB;
+
+COMMENT ON COLUMN wardrobe_items.product_info IS 'Imported listing: {"name", "brand", "image_url", "price", "currency", "color", "retailer", "product_url", "purchase_date"}';
@@ -0,0 +1,53 @@
+-- ================================================
+-- ITEM SIMILARITY SEARCH
+-- Nearest wardrobe items to an existing item ("more like this") or to an
+-- uploaded photo's embedding ("search by photo"), optionally filtered by
+-- category and season.
+-- ================================================
+
+-- Exactly one of p_item_id / p_embedding is expected; the item's own embedding is used
+-- when p_embedding is NULL and the item itself is excluded from the results.
+CREATE OR REPLACE FUNCTION search_similar_items(
+  p_user_id UUID,
+  p_item_id UUID DEFAULT NULL,
+  p_embedding halfvec(768) DEFAULT NULL,
+  p_categories TEXT[] DEFAULT NULL,
+  p_seasons TEXT[] DEFAULT NULL,
+  p_min_similarity FLOAT DEFAULT 0.0,
+  p_limit INT DEFAULT 20
+)
+RETURNS TABLE (
+  id UUID,
+  similarity FLOAT
+) AS $$
+DECLARE
+  v_query halfvec(768) := p_embedding;
+BEGIN
+  IF v_query IS NULL THEN
+    SELECT w.embedding INTO v_query
+    FROM wardrobe_items w
+    WHERE w.id = p_item_id AND w.user_id = p_user_id;
+  END IF;
+
+  IF v_query IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    w.id,
+    (1 - (w.embedding <=> v_query))::FLOAT AS similarity
+  FROM wardrobe_items w
+  WHERE w.user_id = p_user_id
+    AND w.id IS DISTINCT FROM p_item_id
+    AND w.is_archived = FALSE
+    AND w.embedding IS NOT NULL
+    AND (p_categories IS NULL OR w.category = ANY(p_categories))
+    AND (p_seasons IS NULL OR w.seasons && p_seasons)
+    AND (1 - (w.embedding <=> v_query)) >= p_min_similarity
+  ORDER BY w.embedding <=> v_query
+  LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION search_similar_items TO service_role;
@@ -0,0 +1,97 @@
+-- ================================================
+-- WARDROBE SEARCH
+-- Filtered, sorted and paginated item search. Filters are ANDed across fields
+-- and ORed within a field. When a query embedding (a text query or another
+-- item) is given, "relevance" sorts by visual similarity to it.
+-- ================================================
+
+CREATE OR REPLACE FUNCTION search_wardrobe_items(
+  p_user_id UUID,
+  p_embedding halfvec(768) DEFAULT NULL,
+  p_similar_to UUID DEFAULT NULL,
+  p_categories TEXT[] DEFAULT NULL,
+  p_colors TEXT[] DEFAULT NULL,
+  p_materials TEXT[] DEFAULT NULL,
+  p_seasons TEXT[] DEFAULT NULL,
+  p_occasions TEXT[] DEFAULT NULL,
+  p_style_vibes TEXT[] DEFAULT NULL,
+  p_formality_min INT DEFAULT NULL,
+  p_formality_max INT DEFAULT NULL,
+  p_not_worn_since TIMESTAMPTZ DEFAULT NULL,
+  p_times_worn_min INT DEFAULT NULL,
+  p_times_worn_max INT DEFAULT NULL,
+  p_favorite BOOLEAN DEFAULT NULL,
+  p_sort TEXT DEFAULT 'relevance',
+  p_ascending BOOLEAN DEFAULT FALSE,
+  p_limit INT DEFAULT 20,
+  p_offset INT DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  similarity FLOAT,
+  total_count BIGINT
+) AS $$
+DECLARE
+  v_query halfvec(768) := p_embedding;
+  -- Colors and materials are free text ("navy blue", "wool blend"), so match substrings
+  v_color_patterns TEXT[] := (SELECT array_agg('%' || lower(c) || '%') FROM unnest(p_colors) c);
+  v_material_patterns TEXT[] := (SELECT array_agg('%' || lower(m) || '%') FROM unnest(p_materials) m);
+BEGIN
+  IF v_query IS NULL AND p_similar_to IS NOT NULL THEN
+    SELECT w.embedding INTO v_query
+    FROM wardrobe_items w
+    WHERE w.id = p_similar_to AND w.user_id = p_user_id;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    w.id,
+    CASE WHEN v_query IS NOT NULL AND w.embedding IS NOT NULL
+      THEN (1 - (w.embedding <=> v_query))::FLOAT
+    END AS similarity,
+    COUNT(*) OVER () AS total_count
+  FROM wardrobe_items w
+  WHERE w.user_id = p_user_id
+    AND w.is_archived = FALSE
+    AND w.id IS DISTINCT FROM p_similar_to
+    AND (p_categories IS NULL OR w.category = ANY(p_categories))
+    AND (v_color_patterns IS NULL OR EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements_text(
+        jsonb_build_array(COALESCE(w.colors->>'primary', ''))
+        || CASE WHEN jsonb_typeof(w.colors->'secondary') = 'array' THEN w.colors->'secondary' ELSE '[]'::jsonb END
+        || CASE WHEN jsonb_typeof(w.colors->'accent') = 'array' THEN w.colors->'accent' ELSE '[]'::jsonb END
+      ) AS color
+      WHERE lower(color) LIKE ANY(v_color_patterns)
+    ))
+    AND (v_material_patterns IS NULL OR EXISTS (
+      SELECT 1 FROM unnest(w.materials) AS material
+      WHERE lower(material) LIKE ANY(v_material_patterns)
+    ))
+    AND (p_seasons IS NULL OR w.seasons && p_seasons)
+    AND (p_occasions IS NULL OR w.occasions && p_occasions)
+    AND (p_style_vibes IS NULL OR w.style_vibes && p_style_vibes)
+    AND (p_formality_min IS NULL OR w.formality_score >= p_formality_min)
+    AND (p_formality_max IS NULL OR w.formality_score <= p_formality_max)
+    -- Never-worn items count as "not worn since"
+    AND (p_not_worn_since IS NULL OR w.last_worn_at IS NULL OR w.last_worn_at < p_not_worn_since)
+    AND (p_times_worn_min IS NULL OR COALESCE(w.times_worn, 0) >= p_times_worn_min)
+    AND (p_times_worn_max IS NULL OR COALESCE(w.times_worn, 0) <= p_times_worn_max)
+    AND (p_favorite IS NULL OR COALESCE(w.is_favorite, FALSE) = p_favorite)
+  ORDER BY
+    CASE WHEN p_sort = 'relevance' AND v_query IS NOT NULL THEN w.embedding <=> v_query END ASC NULLS LAST,
+    CASE WHEN p_sort = 'last_worn_at' AND p_ascending THEN w.last_worn_at END ASC NULLS FIRST,
+    CASE WHEN p_sort = 'last_worn_at' AND NOT p_ascending THEN w.last_worn_at END DESC NULLS LAST,
+    CASE WHEN p_sort = 'times_worn' AND p_ascending THEN COALESCE(w.times_worn, 0) END ASC,
+    CASE WHEN p_sort = 'times_worn' AND NOT p_ascending THEN COALESCE(w.times_worn, 0) END DESC,
+    CASE WHEN p_sort = 'formality' AND p_ascending THEN w.formality_score END ASC NULLS LAST,
+    CASE WHEN p_sort = 'formality' AND NOT p_ascending THEN w.formality_score END DESC NULLS LAST,
+    CASE WHEN p_sort = 'created_at' AND p_ascending THEN w.created_at END ASC,
+    w.created_at DESC,
+    w.id
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION search_wardrobe_items TO service_role;
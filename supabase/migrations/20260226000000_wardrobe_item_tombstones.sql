@@ -0,0 +1,57 @@
+-- ================================================
+-- WARDROBE ITEM TOMBSTONES
+-- Delta sync (GET /api/items?updated_since=...) needs to know which items were
+-- deleted, not just which changed. Every delete (including merges) leaves a
+-- tombstone; tombstones older than the retention window are pruned, and
+-- clients syncing from before it must do a full resync.
+-- ================================================
+
+-- No FK to auth.users: deleting a user cascades to wardrobe_items, and the
+-- trigger below would then insert a row pointing at the user being deleted.
+-- Account deletion removes a user's tombstones explicitly.
+CREATE TABLE IF NOT EXISTS wardrobe_item_tombstones (
+  item_id UUID PRIMARY KEY,
+  user_id UUID NOT NULL,
+  deleted_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_wardrobe_item_tombstones_user_deleted
+ON wardrobe_item_tombstones(user_id, deleted_at);
+
+ALTER TABLE wardrobe_item_tombstones ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own item tombstones"
+ON wardrobe_item_tombstones FOR SELECT
+USING (auth.uid() = user_id);
+
+COMMENT ON TABLE wardrobe_item_tombstones IS 'Deleted wardrobe item ids for delta sync, kept for 90 days';
+
+CREATE OR REPLACE FUNCTION record_wardrobe_item_tombstone()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  INSERT INTO wardrobe_item_tombstones (item_id, user_id, deleted_at)
+  VALUES (OLD.id, OLD.user_id, NOW())
+  ON CONFLICT (item_id) DO UPDATE SET deleted_at = EXCLUDED.deleted_at;
+
+  -- Prune this user's expired tombstones as we go (keep in sync with TOMBSTONE_RETENTION_DAYS)
+  DELETE FROM wardrobe_item_tombstones
+  WHERE user_id = OLD.user_id
+    AND deleted_at < NOW() - INTERVAL '90 days';
+
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER wardrobe_items_record_tombstone
+    AFTER DELETE ON wardrobe_items
+    FOR EACH ROW EXECUTE FUNCTION record_wardrobe_item_tombstone();
+
+-- Delta sync scans changes by updated_at; the list pages by created_at
+CREATE INDEX IF NOT EXISTS idx_wardrobe_items_user_updated
+ON wardrobe_items(user_id, updated_at, id);
+
+CREATE INDEX IF NOT EXISTS idx_wardrobe_items_user_created
+ON wardrobe_items(user_id, created_at DESC, id DESC);
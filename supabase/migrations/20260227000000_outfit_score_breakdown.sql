@@ -0,0 +1,10 @@
+-- Add score_breakdown column to generated_outfits for GET /api/outfits/:id/explain
+-- Stores every scoring component the generator used: per item (taste, season,
+-- weather, undertone/height/mood boosts, cooldown and preference multipliers),
+-- for the whole outfit (harmony, weather, pattern, texture, coherence, boosts)
+-- and the rules that fired. Outfits generated before this have NULL.
+
+ALTER TABLE generated_outfits
+ADD COLUMN IF NOT EXISTS score_breakdown JSONB;
+
+COMMENT ON COLUMN generated_outfits.score_breakdown IS 'Per-item and per-outfit scoring components and fired rules recorded at generation';